@@ -0,0 +1,223 @@
+import { describe, it, expect } from "vitest";
+import type { BuiltinCall, Expression, Query } from "@avaast/shared";
+import { RecordStore } from "../store/record-store.js";
+import { LocalDataSource } from "../query/sources.js";
+import { QueryEngine } from "../query/engine.js";
+import { QueryAnalyzer } from "../query/analyzer.js";
+
+const DID = "did:plc:ewvi7nxzyoun6zhxrhs64oiz";
+const AYE = "chat.pirate.aye";
+
+const field = (source: string, name: string): Expression => ({
+  type: "fieldRef",
+  source,
+  field: name,
+});
+
+const call = (name: string, ...args: Expression[]): BuiltinCall => ({
+  type: "builtinCall",
+  name,
+  args,
+});
+
+const AYES: Array<[rkey: string, value: Record<string, unknown>]> = [
+  ["y1", { weight: 3, sailor: "jack", ship: "pearl", crew: ["jack", "anne"] }],
+  ["y2", { weight: 1, sailor: "anne", ship: "pearl" }],
+  ["y3", { weight: 3, sailor: "jack", ship: "pearl" }],
+  ["y4", { weight: null, sailor: "mary", ship: "pearl" }],
+];
+
+function engines(): { sql: QueryEngine; memory: QueryEngine } {
+  const store = new RecordStore(":memory:");
+  for (const [rkey, value] of AYES) {
+    store.putRecord(DID, AYE, rkey, `cid-${rkey}`, value);
+  }
+  store.markBackfilled(DID, AYE);
+  const dataSource = new LocalDataSource(store, {
+    async *iterateRecords() {
+      throw new Error("The mirror is already backfilled");
+    },
+  });
+  return {
+    sql: new QueryEngine({ dataSource, defaultDid: DID }),
+    memory: new QueryEngine({
+      dataSource: {
+        fetchRecords: (source, did) => dataSource.fetchRecords(source, did),
+      },
+      defaultDid: DID,
+    }),
+  };
+}
+
+async function bothWays(query: Query): Promise<unknown[]> {
+  const { sql, memory } = engines();
+  const pushed = await sql.execute(query);
+  const inMemory = await memory.execute(query);
+  expect(pushed.results).toEqual(inMemory.results);
+  return pushed.results;
+}
+
+const analyze = (query: Query) =>
+  new QueryAnalyzer().analyze({
+    name: "totals",
+    query,
+    outputSchema: [],
+    createdAt: "2026-01-01T00:00:00.000Z",
+  }).errors;
+
+describe("aggregates", () => {
+  it("apply to an array's elements outside a group", async () => {
+    expect(
+      await bothWays({
+        select: [{ alias: "y.crew", value: call("count", field("y", "crew")) }],
+        from: { alias: "y", collection: AYE },
+        where: {
+          type: "comparison",
+          op: "eq",
+          left: field("y", "weight"),
+          right: { type: "literal", integerValue: 3 },
+        },
+        orderBy: [{ value: field("y", "crew"), direction: "desc" }],
+      }),
+    ).toEqual([{ "y.crew": 2 }, { "y.crew": 1 }]);
+  });
+
+  it("count a group's rows without an argument", async () => {
+    expect(
+      await bothWays({
+        select: [
+          { alias: "y.sailor", value: field("y", "sailor") },
+          { alias: "y.ayes", value: call("count") },
+        ],
+        from: { alias: "y", collection: AYE },
+        groupBy: [field("y", "sailor")],
+        orderBy: [{ value: field("y", "sailor"), direction: "asc" }],
+      }),
+    ).toEqual([
+      { "y.sailor": "anne", "y.ayes": 1 },
+      { "y.sailor": "jack", "y.ayes": 2 },
+      { "y.sailor": "mary", "y.ayes": 1 },
+    ]);
+  });
+
+  it("are only accepted in select or having of a query with groupBy", () => {
+    const weights = call("sum", field("y", "weight"));
+    expect(
+      analyze({
+        select: [{ alias: "y.weights", value: weights }],
+        from: { alias: "y", collection: AYE },
+      }),
+    ).toEqual([
+      "select y.weights: aggregate sum is only allowed in select or having of a query with groupBy",
+    ]);
+    expect(
+      analyze({
+        select: [{ alias: "y.weights", value: weights }],
+        from: { alias: "y", collection: AYE },
+        where: {
+          type: "comparison",
+          op: "gt",
+          left: call("count"),
+          right: { type: "literal", integerValue: 1 },
+        },
+        groupBy: [field("y", "sailor")],
+      }),
+    ).toEqual([
+      "where: aggregate count is only allowed in select or having of a query with groupBy",
+    ]);
+  });
+
+  it("leave no column of a grouped query bare", () => {
+    const sailors = call("lower", field("y", "sailor"));
+    expect(
+      analyze({
+        select: [
+          { alias: "y.sailor", value: sailors },
+          { alias: "y.heaviest", value: call("max", field("y", "weight")) },
+          { alias: "y.weight", value: field("y", "weight") },
+        ],
+        from: { alias: "y", collection: AYE },
+        groupBy: [sailors],
+        having: {
+          type: "comparison",
+          op: "eq",
+          left: field("y", "ship"),
+          right: { type: "literal", stringValue: "pearl" },
+        },
+      }),
+    ).toEqual([
+      "having: y.ship is neither grouped nor aggregated",
+      "select y.weight: y.weight is neither grouped nor aggregated",
+    ]);
+  });
+});
+
+describe("aggregate call options", () => {
+  const weight = field("y", "weight");
+  const sailor = field("y", "sailor");
+  const byWeight = [{ value: weight, direction: "asc" as const }];
+
+  it("compute distinct, percentile, spread, boolean and ordered aggregates", async () => {
+    const [totals] = await bothWays({
+      select: [
+        { alias: "y.weights", value: { ...call("count", weight), distinct: true } },
+        { alias: "y.median", value: call("median", weight) },
+        {
+          alias: "y.quartile",
+          value: call("percentile", weight, { type: "literal", floatValue: "0.25" }),
+        },
+        { alias: "y.stddev", value: call("stddev", weight) },
+        { alias: "y.stddevPop", value: call("stddev_pop", weight) },
+        {
+          alias: "y.allHeavy",
+          value: call("bool_and", {
+            type: "comparison",
+            op: "gt",
+            left: weight,
+            right: { type: "literal", integerValue: 2 },
+          }),
+        },
+        { alias: "y.lightest", value: { ...call("first", sailor), orderBy: byWeight } },
+        // Null weights sort last
+        { alias: "y.heaviest", value: { ...call("last", sailor), orderBy: byWeight } },
+      ],
+      from: { alias: "y", collection: AYE },
+      groupBy: [field("y", "ship")],
+    });
+    expect(totals).toEqual({
+      "y.weights": 2,
+      "y.median": 3,
+      "y.quartile": 2,
+      "y.stddev": expect.closeTo(Math.sqrt(4 / 3), 9),
+      "y.stddevPop": expect.closeTo(Math.sqrt(8 / 9), 9),
+      "y.allHeavy": false,
+      "y.lightest": "anne",
+      "y.heaviest": "mary",
+    });
+  });
+
+  it("read only the rows passing a filter", async () => {
+    const heavy: Expression = {
+      type: "comparison",
+      op: "gte",
+      left: weight,
+      right: { type: "literal", integerValue: 3 },
+    };
+    expect(
+      await bothWays({
+        select: [
+          { alias: "y.sailor", value: sailor },
+          { alias: "y.heavy", value: { ...call("count", field("y", "_uri")), filter: heavy } },
+          { alias: "y.ayes", value: call("count", field("y", "_uri")) },
+        ],
+        from: { alias: "y", collection: AYE },
+        groupBy: [sailor],
+        orderBy: [{ value: field("y", "sailor"), direction: "asc" }],
+      }),
+    ).toEqual([
+      { "y.sailor": "anne", "y.heavy": 0, "y.ayes": 1 },
+      { "y.sailor": "jack", "y.heavy": 2, "y.ayes": 2 },
+      { "y.sailor": "mary", "y.heavy": 0, "y.ayes": 1 },
+    ]);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import type { Expression } from "@avaast/shared";
+import { RecordStore } from "../store/record-store.js";
+import { LocalDataSource } from "../query/sources.js";
+import { QueryEngine } from "../query/engine.js";
+import { ExpressionRuntime } from "../query/runtime.js";
+
+const DID = "did:plc:ewvi7nxzyoun6zhxrhs64oiz";
+const AVAST = "chat.pirate.avast";
+
+const field = (source: string, name: string): Expression => ({
+  type: "fieldRef",
+  source,
+  field: name,
+});
+
+const literal = (value: string | number): Expression =>
+  typeof value === "string"
+    ? { type: "literal", stringValue: value }
+    : { type: "literal", integerValue: value };
+
+const runtime = new ExpressionRuntime();
+const ROW = {
+  "a.tags": ["rum", "sea", { kind: "flag" }],
+  "a.embed": '{"images":[{"alt":"ship"},{"alt":"parrot"}],"$type":"embed"}',
+};
+
+function call(name: string, ...args: Expression[]): unknown {
+  return runtime.evaluate(
+    { type: "builtinCall", name, args },
+    ROW,
+    { params: {}, datetimeFields: new Set() },
+  );
+}
+
+describe("array and JSON builtins", () => {
+  it("measure, search and index arrays", () => {
+    const tags = field("a", "tags");
+    expect(call("array_length", tags)).toBe(3);
+    expect(call("array_length", literal("rum"))).toBeNull();
+    expect(call("contains", tags, literal("sea"))).toBe(true);
+    expect(call("contains", tags, literal("gold"))).toBe(false);
+    expect(call("element_at", tags, literal(1))).toBe("rum");
+    expect(call("element_at", tags, literal(-1))).toEqual({ kind: "flag" });
+    expect(call("element_at", tags, literal(0))).toBeNull();
+    expect(call("element_at", tags, literal(4))).toBeNull();
+  });
+
+  it("extract JSON paths from values and JSON text", () => {
+    const embed = field("a", "embed");
+    expect(call("json_extract", embed, literal("$.images[-1].alt"))).toBe("parrot");
+    expect(call("json_extract", embed, literal('$["$type"]'))).toBe("embed");
+    expect(call("json_extract", embed, literal("$.images[5].alt"))).toBeNull();
+    expect(call("json_extract", field("a", "tags"), literal("$[2].kind"))).toBe("flag");
+    expect(call("json_extract", embed, literal("images"))).toBeNull();
+  });
+});
+
+describe("unnest sources", () => {
+  it("count hashtags across avasts", async () => {
+    const store = new RecordStore(":memory:");
+    for (const [rkey, tags] of [
+      ["a1", ["rum", "sea"]],
+      ["a2", ["rum"]],
+      ["a3", "not an array"],
+      ["a4", ["sea", "rum", null]],
+    ] as const) {
+      store.putRecord(DID, AVAST, rkey, `cid-${rkey}`, { tags });
+    }
+    store.markBackfilled(DID, AVAST);
+    const dataSource = new LocalDataSource(store, {
+      async *iterateRecords() {
+        throw new Error("The mirror is already backfilled");
+      },
+    });
+    const engine = new QueryEngine({ dataSource, defaultDid: DID });
+
+    const { results } = await engine.execute({
+      select: [
+        { alias: "tag.value", value: field("tag", "value") },
+        {
+          alias: "tag.uses",
+          value: { type: "builtinCall", name: "count", args: [field("a", "_uri")] },
+        },
+        {
+          alias: "tag.positions",
+          value: {
+            type: "builtinCall",
+            name: "string_agg",
+            args: [field("tag", "index"), literal(",")],
+          },
+        },
+      ],
+      from: { alias: "a", collection: AVAST },
+      joins: [
+        {
+          joinType: "cross",
+          source: { alias: "tag", unnest: field("a", "tags") },
+          on: { type: "literal", booleanValue: true },
+        },
+      ],
+      groupBy: [field("tag", "value")],
+      orderBy: [{ value: field("tag", "uses"), direction: "desc" }],
+    });
+    expect(results).toEqual([
+      { "tag.value": "rum", "tag.uses": 3, "tag.positions": "0,0,1" },
+      { "tag.value": "sea", "tag.uses": 2, "tag.positions": "1,0" },
+      { "tag.value": null, "tag.uses": 1, "tag.positions": "2" },
+    ]);
+  });
+});
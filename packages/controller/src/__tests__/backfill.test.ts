@@ -0,0 +1,214 @@
+import { describe, it, expect } from "vitest";
+import { createHash } from "node:crypto";
+import * as dagCbor from "@ipld/dag-cbor";
+import { CID } from "multiformats/cid";
+import { create as digest } from "multiformats/hashes/digest";
+import { RepoBackfill, type BackfillProgress } from "../watcher/backfill.js";
+import { CursorStore } from "../watcher/cursor-store.js";
+import type { FirehoseEvent } from "../watcher/firehose.js";
+
+const DID = "did:plc:ewvi7nxzyoun6zhxrhs64oiz";
+const PDS = "https://pds.test";
+const COMPUTED = "dev.avaas.computed";
+const AVAST = "chat.pirate.avast";
+
+function cidOf(bytes: Uint8Array): CID {
+  return CID.createV1(dagCbor.code, digest(0x12, createHash("sha256").update(bytes).digest()));
+}
+
+function varint(value: number): Uint8Array {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80);
+    value = Math.floor(value / 128);
+  }
+  bytes.push(value);
+  return Uint8Array.from(bytes);
+}
+
+/** The repo CAR of a commit at `rev` whose MST holds `records` */
+function repoCar(
+  rev: string,
+  records: Record<string, unknown>,
+  omit: string[] = [],
+): Uint8Array {
+  const blocks = new Map<string, [CID, Uint8Array]>();
+  const put = (value: unknown): CID => {
+    const bytes = dagCbor.encode(value);
+    const cid = cidOf(bytes);
+    blocks.set(cid.toString(), [cid, bytes]);
+    return cid;
+  };
+
+  const entries = Object.keys(records)
+    .sort()
+    .map((key) => {
+      const record = put(records[key]);
+      if (omit.includes(key)) blocks.delete(record.toString());
+      return { p: 0, k: Buffer.from(key), v: record, t: null };
+    });
+  const data = put({ l: null, e: entries });
+  const commit = put({ did: DID, version: 3, data, rev, prev: null, sig: new Uint8Array(64) });
+
+  const header = dagCbor.encode({ version: 1, roots: [commit] });
+  const sections: Uint8Array[] = [varint(header.length), header];
+  for (const [cid, bytes] of blocks.values()) {
+    sections.push(varint(cid.bytes.length + bytes.length), cid.bytes, bytes);
+  }
+  return Buffer.concat(sections);
+}
+
+/** A response streaming `bytes` in small chunks */
+function streamed(bytes: Uint8Array, chunkSize = 7): Response {
+  let offset = 0;
+  return new Response(
+    new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (offset >= bytes.length) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(bytes.slice(offset, offset + chunkSize));
+        offset += chunkSize;
+      },
+    }),
+  );
+}
+
+/** A PDS serving the given CARs in turn, at the revision `rev()` */
+function pds(cars: Uint8Array[], rev: () => string) {
+  const requests: string[] = [];
+  return {
+    requests,
+    request: async (url: string): Promise<Response> => {
+      const method = new URL(url).pathname.split("/").pop()!;
+      requests.push(method);
+      if (method === "com.atproto.sync.getLatestCommit") {
+        return Response.json({ cid: "bafycommit", rev: rev() });
+      }
+      const car = cars.shift();
+      return car ? streamed(car) : new Response(null, { status: 404 });
+    },
+  };
+}
+
+const RECORDS = {
+  [`${COMPUTED}/c1`]: { name: "avasts", sources: [AVAST] },
+  [`${AVAST}/a1`]: { text: "Ahoy!" },
+  [`${AVAST}/a2`]: { text: "Arr" },
+  "chat.pirate.aye/y1": { subject: "a1" },
+};
+
+describe("RepoBackfill", () => {
+  it("replays watched records in key order, and collections added on the way", async () => {
+    const collections = [COMPUTED];
+    const events: FirehoseEvent[] = [];
+    const progress: BackfillProgress[] = [];
+    const server = pds([repoCar("rev1", RECORDS)], () => "rev1");
+    const result = await new RepoBackfill({
+      pdsEndpoint: PDS,
+      did: DID,
+      collections: () => collections,
+      onEvent: (event) => {
+        events.push(event);
+        // A computed record asks for its sources
+        if (event.collection === COMPUTED) collections.push(AVAST);
+      },
+      onProgress: (p) => progress.push(p),
+      request: server.request,
+    }).run();
+
+    expect(events.map((e) => `${e.collection}/${e.rkey}`)).toEqual([
+      `${COMPUTED}/c1`,
+      `${AVAST}/a1`,
+      `${AVAST}/a2`,
+    ]);
+    expect(events[1]).toMatchObject({ type: "create", did: DID, record: { text: "Ahoy!" } });
+    expect(result).toMatchObject({ phase: "complete", records: 3 });
+    expect(progress.map((p) => p.phase)).toContain("replaying");
+    expect(server.requests).toEqual(["com.atproto.sync.getRepo"]);
+  });
+
+  it("retries a CAR missing a block and resumes past the records delivered", async () => {
+    const events: FirehoseEvent[] = [];
+    const server = pds(
+      [repoCar("rev1", RECORDS, [`${AVAST}/a2`]), repoCar("rev1", RECORDS)],
+      () => "rev1",
+    );
+    await new RepoBackfill({
+      pdsEndpoint: PDS,
+      did: DID,
+      collections: () => [AVAST],
+      onEvent: (event) => events.push(event),
+      request: server.request,
+    }).run();
+
+    expect(events.map((e) => e.rkey)).toEqual(["a1", "a2"]);
+    expect(server.requests).toEqual(["com.atproto.sync.getRepo", "com.atproto.sync.getRepo"]);
+  });
+
+  it("resumes a restart at the same revision and skips one already applied", async () => {
+    const store = new CursorStore(":memory:");
+    let rev = "rev1";
+    const run = async (cars: Uint8Array[], stopAfter?: number) => {
+      const events: string[] = [];
+      let resumed = 0;
+      const server = pds(cars, () => rev);
+      const backfill: RepoBackfill = new RepoBackfill({
+        pdsEndpoint: PDS,
+        did: DID,
+        collections: () => [COMPUTED, AVAST],
+        onEvent: (event) => {
+          events.push(event.rkey);
+          if (events.length === stopAfter) backfill.stop();
+        },
+        onResume: () => resumed++,
+        cursorStore: store,
+        request: server.request,
+      });
+      const result = await backfill.run();
+      return { events, resumed, result, requests: server.requests };
+    };
+
+    // Keys sort by collection, so the avasts come first
+    const stopped = await run([repoCar("rev1", RECORDS)], 1);
+    expect(stopped.events).toEqual(["a1"]);
+    expect(store.getBackfill(DID)).toEqual({
+      rev: "rev1",
+      collections: [],
+      lastKey: `${AVAST}/a1`,
+    });
+
+    const resumed = await run([repoCar("rev1", RECORDS)]);
+    expect(resumed.events).toEqual(["a2", "c1"]);
+    expect(store.getBackfill(DID)).toEqual({ rev: "rev1", collections: [AVAST, COMPUTED] });
+    expect(resumed.resumed).toBe(1);
+    expect(resumed.result.resumed).toBe(true);
+
+    const skipped = await run([]);
+    expect(skipped.events).toEqual([]);
+    expect(skipped.resumed).toBe(1);
+    expect(skipped.requests).toEqual(["com.atproto.sync.getLatestCommit"]);
+
+    rev = "rev2";
+    const newer = await run([repoCar("rev2", RECORDS)]);
+    expect(newer.events).toEqual(["a1", "a2", "c1"]);
+    expect(newer.resumed).toBe(0);
+    store.close();
+  });
+
+  it("refuses a repo over maxBytes without retrying", async () => {
+    const server = pds([repoCar("rev1", RECORDS), repoCar("rev1", RECORDS)], () => "rev1");
+    await expect(
+      new RepoBackfill({
+        pdsEndpoint: PDS,
+        did: DID,
+        collections: () => [AVAST],
+        onEvent: () => {},
+        maxBytes: 64,
+        request: server.request,
+      }).run(),
+    ).rejects.toThrow(`Repo ${DID} is larger than 64 bytes`);
+    expect(server.requests).toEqual(["com.atproto.sync.getRepo"]);
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect } from "vitest";
+import type { Expression, Query } from "@avaast/shared";
+import { RecordStore } from "../store/record-store.js";
+import { LocalDataSource } from "../query/sources.js";
+import { QueryEngine } from "../query/engine.js";
+import { QueryAnalyzer } from "../query/analyzer.js";
+import { compareValues, logicalTruth, patternError } from "../query/comparison.js";
+
+const DID = "did:plc:ewvi7nxzyoun6zhxrhs64oiz";
+const AVAST = "chat.pirate.avast";
+
+const field = (source: string, name: string): Expression => ({
+  type: "fieldRef",
+  source,
+  field: name,
+});
+
+const str = (stringValue: string): Expression => ({ type: "literal", stringValue });
+
+const AVASTS: Array<[rkey: string, value: Record<string, unknown>]> = [
+  ["a1", { text: "50% off rum", ayes: 4, bonus: 1 }],
+  ["a2", { text: "500 rum", ayes: 2, bonus: null }],
+  ["a3", { text: "Rum_ration", ayes: 0 }],
+  ["a4", { text: "rum.ration", ayes: null, bonus: 0 }],
+];
+
+function engines(): { sql: QueryEngine; memory: QueryEngine } {
+  const store = new RecordStore(":memory:");
+  for (const [rkey, value] of AVASTS) {
+    store.putRecord(DID, AVAST, rkey, `cid-${rkey}`, value);
+  }
+  store.markBackfilled(DID, AVAST);
+  const dataSource = new LocalDataSource(store, {
+    async *iterateRecords() {
+      throw new Error("The mirror is already backfilled");
+    },
+  });
+  return {
+    sql: new QueryEngine({ dataSource, defaultDid: DID }),
+    memory: new QueryEngine({
+      dataSource: {
+        fetchRecords: (source, did) => dataSource.fetchRecords(source, did),
+      },
+      defaultDid: DID,
+    }),
+  };
+}
+
+async function bothWays(query: Query): Promise<unknown[]> {
+  const { sql, memory } = engines();
+  const pushed = await sql.execute(query);
+  const inMemory = await memory.execute(query);
+  expect(pushed.results).toEqual(inMemory.results);
+  return pushed.results;
+}
+
+async function texts(where: Expression): Promise<unknown[]> {
+  const results = await bothWays({
+    select: [{ alias: "a.text", value: field("a", "text") }],
+    from: { alias: "a", collection: AVAST },
+    where,
+  });
+  return results.map((r) => (r as Record<string, unknown>)["a.text"]);
+}
+
+describe("null semantics", () => {
+  it("make comparisons with a null operand unknown", () => {
+    expect(compareValues("eq", null, null)).toBeNull();
+    expect(compareValues("neq", 1, undefined)).toBeNull();
+    expect(compareValues("in", 1, [2, null])).toBeNull();
+    expect(compareValues("in", 1, [1, null])).toBe(true);
+    expect(compareValues("isNull", undefined, null)).toBe(true);
+    expect(logicalTruth("and", [null, false], (v) => v)).toBe(false);
+    expect(logicalTruth("or", [null, false], (v) => v)).toBeNull();
+    expect(logicalTruth("not", [null], (v) => v)).toBeNull();
+  });
+
+  it("propagate null through arithmetic in both engines", async () => {
+    const op = (
+      name: "add" | "multiply" | "divide",
+      right: Expression = field("a", "bonus"),
+    ): Expression => ({ type: "arithmeticOp", op: name, left: field("a", "ayes"), right });
+    const results = await bothWays({
+      select: [
+        { alias: "a.sum", value: op("add") },
+        { alias: "a.product", value: op("multiply") },
+        { alias: "a.ratio", value: op("divide", { type: "literal", integerValue: 0 }) },
+      ],
+      from: { alias: "a", collection: AVAST },
+    });
+    expect(results).toEqual([
+      { "a.sum": 5, "a.product": 4, "a.ratio": 0 },
+      { "a.sum": null, "a.product": null, "a.ratio": 0 },
+      { "a.sum": null, "a.product": null, "a.ratio": 0 },
+      { "a.sum": null, "a.product": null, "a.ratio": null },
+    ]);
+  });
+});
+
+describe("like and ilike", () => {
+  const like = (op: "like" | "ilike", pattern: string): Expression => ({
+    type: "comparison",
+    op,
+    left: field("a", "text"),
+    right: str(pattern),
+  });
+
+  it("match wildcards and escapes in both engines", async () => {
+    expect(await texts(like("like", "50\\%%"))).toEqual(["50% off rum"]);
+    expect(await texts(like("like", "rum_ration"))).toEqual(["rum.ration"]);
+    expect(await texts(like("ilike", "rum_ration"))).toEqual(["Rum_ration", "rum.ration"]);
+    expect(await texts(like("like", "%\\_%"))).toEqual(["Rum_ration"]);
+  });
+
+  it("match regex metacharacters literally", () => {
+    expect(compareValues("like", "rum.ration", "rum.ration")).toBe(true);
+    expect(compareValues("like", "rumXration", "rum.ration")).toBe(false);
+    expect(compareValues("like", "(a+)+", "(a+)+")).toBe(true);
+  });
+});
+
+describe("regex", () => {
+  it("match anywhere unless anchored, in both engines", async () => {
+    const regex = (pattern: string): Expression => ({
+      type: "comparison",
+      op: "regex",
+      left: field("a", "text"),
+      right: str(pattern),
+    });
+    expect(await texts(regex("\\d+ rum"))).toEqual(["500 rum"]);
+    expect(await texts(regex("^rum"))).toEqual(["rum.ration"]);
+  });
+
+  it("refuse patterns that could backtrack exponentially", () => {
+    for (const pattern of ["(a+)+$", "(a|aa)*b", "(?:x*y?)+", "(a)\\1", "a".repeat(257)]) {
+      expect(patternError("regex", pattern)).toMatch(/^regular expression/);
+      const start = Date.now();
+      expect(compareValues("regex", `${"a".repeat(40)}!`, pattern)).toBeNull();
+      expect(Date.now() - start).toBeLessThan(100);
+    }
+    for (const pattern of ["^(https?://)?[a-z.]+$", "(?<tag>#\\w+)", "[(+*]+", "a+?b{2,3}"]) {
+      expect(patternError("regex", pattern)).toBeUndefined();
+    }
+  });
+
+  it("take literal patterns only", () => {
+    const analyze = (right: Expression) =>
+      new QueryAnalyzer().analyze({
+        name: "texts",
+        query: {
+          select: [{ alias: "a.text", value: field("a", "text") }],
+          from: { alias: "a", collection: AVAST },
+          where: { type: "comparison", op: "regex", left: field("a", "text"), right },
+        },
+        parameters: [{ name: "pattern", type: "string" }],
+        outputSchema: [],
+        createdAt: "2026-01-01T00:00:00.000Z",
+      }).errors;
+    expect(analyze(str("^rum"))).toEqual([]);
+    expect(analyze(field("$params", "pattern"))).toEqual([
+      "where: regex pattern must be a string literal",
+    ]);
+    expect(analyze(str("(a+)+"))).toEqual([
+      "where: regular expression (a+)+ repeats a group holding a quantifier or alternation",
+    ]);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import type { ComputedRecord, Expression, Query, ResourceRef } from "@avaast/shared";
+import { RecordStore } from "../store/record-store.js";
+import { LocalDataSource } from "../query/sources.js";
+import { QueryEngine } from "../query/engine.js";
+
+const DID = "did:plc:ewvi7nxzyoun6zhxrhs64oiz";
+const AVAST = "chat.pirate.avast";
+
+const field = (source: string, name: string): Expression => ({
+  type: "fieldRef",
+  source,
+  field: name,
+});
+
+const TALLIES: ResourceRef = { did: DID, cid: "tallies" };
+const LOOP: ResourceRef = { did: DID, cid: "loop" };
+
+/** Ayes per author, renamed by its outputSchema */
+const RECORDS: Record<string, ComputedRecord> = {
+  tallies: {
+    name: "tallies",
+    query: {
+      select: [
+        { alias: "a.author", value: field("a", "author") },
+        {
+          alias: "ayes",
+          value: { type: "builtinCall", name: "sum", args: [field("a", "ayes")] },
+        },
+      ],
+      from: { alias: "a", collection: AVAST },
+      groupBy: [field("a", "author")],
+    },
+    outputSchema: [
+      { name: "a.author", alias: "author", schema: { type: "string" } },
+      { name: "ayes", schema: { type: "integer" } },
+    ],
+    cacheTtl: 60,
+    createdAt: "2026-01-01T00:00:00.000Z",
+  },
+  loop: {
+    name: "loop",
+    query: {
+      select: [{ alias: "l.author", value: field("l", "author") }],
+      from: { alias: "l", computed: LOOP },
+    },
+    outputSchema: [],
+    createdAt: "2026-01-01T00:00:00.000Z",
+  },
+};
+
+function setup(): { engine: QueryEngine; fetches: () => number } {
+  const store = new RecordStore(":memory:");
+  for (const [rkey, value] of [
+    ["a1", { author: "jack", ayes: 3 }],
+    ["a2", { author: "anne", ayes: 5 }],
+    ["a3", { author: "jack", ayes: 4 }],
+  ] as const) {
+    store.putRecord(DID, AVAST, rkey, `cid-${rkey}`, value);
+  }
+  store.markBackfilled(DID, AVAST);
+  const dataSource = new LocalDataSource(store, {
+    async *iterateRecords() {
+      throw new Error("The mirror is already backfilled");
+    },
+  });
+  let fetches = 0;
+  const engine = new QueryEngine({
+    dataSource: {
+      fetchRecords: (source, did) => {
+        fetches++;
+        return dataSource.fetchRecords(source, did);
+      },
+    },
+    defaultDid: DID,
+    resolveComputed: (ref) => RECORDS[ref.cid],
+  });
+  return { engine, fetches: () => fetches };
+}
+
+/** The leading author joined against the tallies a second time */
+const LEADER: Query = {
+  select: [
+    { alias: "t.author", value: field("t", "author") },
+    { alias: "u.ayes", value: field("u", "ayes") },
+  ],
+  from: { alias: "t", computed: TALLIES },
+  joins: [
+    {
+      joinType: "inner",
+      source: { alias: "u", computed: TALLIES },
+      on: {
+        type: "comparison",
+        op: "eq",
+        left: field("t", "author"),
+        right: field("u", "author"),
+      },
+    },
+  ],
+  orderBy: [{ value: field("u", "ayes"), direction: "desc" }],
+  limit: 1,
+};
+
+describe("computed sources", () => {
+  it("read another record's output under its outputSchema names", async () => {
+    const { engine } = setup();
+    const { results } = await engine.execute(LEADER);
+    expect(results).toEqual([{ "t.author": "jack", "u.ayes": 7 }]);
+  });
+
+  it("run each record once per execution and share its cached results", async () => {
+    const { engine, fetches } = setup();
+    await engine.execute(LEADER);
+    expect(fetches()).toBe(1);
+    await engine.execute({ ...LEADER, limit: 2 });
+    expect(fetches()).toBe(1);
+  });
+
+  it("reject records that read themselves", async () => {
+    const { engine } = setup();
+    await expect(engine.execute(RECORDS.loop!.query)).rejects.toThrow(
+      /Circular computed source: .*loop -> .*loop/,
+    );
+  });
+});
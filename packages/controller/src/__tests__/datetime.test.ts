@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import type { Expression } from "@avaast/shared";
+import { ExpressionRuntime } from "../query/runtime.js";
+import { addInterval, parseDatetime, parseInterval } from "../query/datetime.js";
+
+const runtime = new ExpressionRuntime();
+
+const str = (stringValue: string): Expression => ({ type: "literal", stringValue });
+
+function call(name: string, ...args: Expression[]): unknown {
+  return runtime.evaluate(
+    { type: "builtinCall", name, args },
+    {},
+    { params: {}, datetimeFields: new Set() },
+  );
+}
+
+const T = str("2026-01-31T13:45:30.250+02:00");
+
+describe("datetime builtins", () => {
+  it("truncate, shift and extract in UTC", () => {
+    expect(call("date_trunc", str("hour"), T)).toBe("2026-01-31T11:00:00.000Z");
+    expect(call("date_trunc", str("week"), T)).toBe("2026-01-26T00:00:00.000Z");
+    // Months keep the day, clamped to the end of a shorter month
+    expect(call("date_add", T, str("P1M"))).toBe("2026-02-28T11:45:30.250Z");
+    expect(call("date_sub", T, str("PT24H"))).toBe("2026-01-30T11:45:30.250Z");
+    expect(call("extract", str("hour"), T)).toBe(11);
+    expect(call("extract", str("doy"), T)).toBe(31);
+    expect(call("extract", str("dow"), T)).toBe(6);
+  });
+
+  it("diff, parse and format datetimes", () => {
+    expect(call("date_diff", str("2026-01-02"), str("2026-01-01T23:59:00Z"))).toBe(60);
+    // Times without a zone are UTC
+    expect(call("parse_datetime", str("2026-01-31 13:45"))).toBe("2026-01-31T13:45:00.000Z");
+    expect(call("format_datetime", T, str("%Y/%m/%d %H:%M:%f (%j) %%"))).toBe(
+      "2026/01/31 11:45:30.250 (031) %",
+    );
+    expect(call("format_datetime", T)).toBe("2026-01-31T11:45:30.250Z");
+  });
+
+  it("return null for values that are not datetimes or intervals", () => {
+    expect(call("date_trunc", str("fortnight"), T)).toBeNull();
+    expect(call("date_add", T, str("24 hours"))).toBeNull();
+    expect(call("extract", str("year"), str("yesterday"))).toBeNull();
+    expect(call("parse_datetime", str("2026-13-01"))).toBeNull();
+    expect(parseDatetime("2026-01-01T00:00:00+0200")).toBeUndefined();
+    expect(parseInterval("P")).toBeUndefined();
+    expect(parseInterval("PT")).toBeUndefined();
+  });
+
+  it("add year and month intervals before the fixed remainder", () => {
+    const leapDay = Date.UTC(2024, 1, 29);
+    expect(new Date(addInterval(leapDay, parseInterval("P1Y1D")!, 1)).toISOString()).toBe(
+      "2025-03-01T00:00:00.000Z",
+    );
+  });
+});
+
+describe("datetime comparisons", () => {
+  it("compare instants across zones for datetime fields and builtins", () => {
+    const row = { "a.createdAt": "2026-01-01T01:00:00+01:00" };
+    const compare = (datetimeFields: Set<string>) =>
+      runtime.evaluate(
+        {
+          type: "comparison",
+          op: "eq",
+          left: { type: "fieldRef", source: "a", field: "createdAt" },
+          right: str("2026-01-01T00:00:00Z"),
+        },
+        row,
+        { params: {}, datetimeFields },
+      );
+    expect(compare(new Set(["a.createdAt"]))).toBe(true);
+    // Untyped fields compare as strings
+    expect(compare(new Set())).toBe(false);
+  });
+});
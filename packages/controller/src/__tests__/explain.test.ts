@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import type { Expression, Query } from "@avaast/shared";
+import { RecordStore } from "../store/record-store.js";
+import { LocalDataSource } from "../query/sources.js";
+import { QueryEngine } from "../query/engine.js";
+
+const DID = "did:plc:ewvi7nxzyoun6zhxrhs64oiz";
+const AVAST = "chat.pirate.avast";
+
+const field = (source: string, name: string): Expression => ({
+  type: "fieldRef",
+  source,
+  field: name,
+});
+
+function engine(): QueryEngine {
+  const store = new RecordStore(":memory:");
+  for (const [rkey, text] of [["1", "Ahoy"], ["2", "Arr"], ["3", "Avast"]]) {
+    store.putRecord(DID, AVAST, rkey!, `cid-${rkey}`, { text });
+  }
+  store.markBackfilled(DID, AVAST);
+  const dataSource = new LocalDataSource(store, {
+    async *iterateRecords() {
+      throw new Error("The mirror is already backfilled");
+    },
+  });
+  return new QueryEngine({ dataSource, defaultDid: DID });
+}
+
+describe("QueryEngine.explain", () => {
+  it("traces the rows and time of every step of a pushed-down plan", async () => {
+    const query: Query = {
+      select: [{ alias: "a.text", value: field("a", "text") }],
+      from: { alias: "a", collection: AVAST },
+      // `in` stays in memory, after the SQL step
+      where: {
+        type: "comparison",
+        op: "in",
+        left: field("a", "text"),
+        right: {
+          type: "literal",
+          arrayValue: [
+            { type: "literal", stringValue: "Ahoy" },
+            { type: "literal", stringValue: "Avast" },
+          ],
+        },
+      },
+    };
+    const explanation = await engine().explain(query);
+
+    expect(explanation.steps.map((s) => [s.step.type, s.rows])).toEqual([
+      ["sql", 3],
+      ["filter", 2],
+      ["select", 2],
+    ]);
+    expect(explanation.steps.every((s) => s.durationMs >= 0)).toBe(true);
+    const sql = explanation.plan.pipeline[0]!;
+    expect(sql.type === "sql" && sql.sql).toMatch(/^SELECT .* FROM \(SELECT uri/);
+    expect(explanation.rowCount).toBe(2);
+  });
+
+  it("reports whether the result was cached", async () => {
+    const query: Query = {
+      select: [{ alias: "a.text", value: field("a", "text") }],
+      from: { alias: "a", collection: AVAST },
+    };
+    const queries = engine();
+    const options = { cacheTtl: 60 };
+
+    expect((await queries.explain(query, {}, options)).cacheHit).toBe(false);
+    // Explaining does not fill the cache; executing does
+    expect((await queries.explain(query, {}, options)).cacheHit).toBe(false);
+    await queries.execute(query, {}, options);
+    expect((await queries.explain(query, {}, options)).cacheHit).toBe(true);
+    const otherVersion = { cacheTtl: 60, version: "v2" };
+    expect((await queries.explain(query, {}, otherVersion)).cacheHit).toBe(false);
+  });
+});
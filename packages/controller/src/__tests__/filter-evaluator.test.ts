@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import type { Expression, SubscriptionRecord } from "@avaast/shared";
+import { FilterEvaluator } from "../subscription/evaluator.js";
+
+const AVAST = "chat.pirate.avast";
+
+const field = (name: string): Expression => ({ type: "fieldRef", source: "a", field: name });
+
+const str = (stringValue: string): Expression => ({ type: "literal", stringValue });
+
+function subscription(
+  filter: Expression | undefined,
+  extra: Partial<SubscriptionRecord> = {},
+): SubscriptionRecord {
+  return {
+    name: "avasts",
+    source: { alias: "a", collection: AVAST },
+    filter,
+    fields: [{ alias: "text", value: field("text") }],
+    outputSchema: [],
+    createdAt: "2026-01-01T00:00:00.000Z",
+    ...extra,
+  };
+}
+
+const RECORD = {
+  text: "Ahoy, 50% off rum",
+  ayes: 3,
+  reply: { parent: { author: "anne" } },
+  tags: ["rum", "sea"],
+  createdAt: "2026-01-01T01:00:00+01:00",
+};
+
+describe("FilterEvaluator", () => {
+  const evaluator = new FilterEvaluator();
+  const matches = (filter: Expression, params: Record<string, string> = {}) =>
+    evaluator.matches(subscription(filter), RECORD, params);
+
+  it("evaluates the comparisons and builtins a query can use", () => {
+    expect(
+      matches({ type: "comparison", op: "ilike", left: field("text"), right: str("ahoy%") }),
+    ).toBe(true);
+    expect(
+      matches({
+        type: "comparison",
+        op: "between",
+        left: field("ayes"),
+        right: {
+          type: "literal",
+          arrayValue: [
+            { type: "literal", integerValue: 1 },
+            { type: "literal", integerValue: 3 },
+          ],
+        },
+      }),
+    ).toBe(true);
+    expect(
+      matches({
+        type: "builtinCall",
+        name: "contains",
+        args: [field("tags"), str("sea")],
+      }),
+    ).toBe(true);
+  });
+
+  it("reads nested fields and parameters as a query does", () => {
+    const byAuthor: Expression = {
+      type: "comparison",
+      op: "eq",
+      left: field("reply.parent.author"),
+      right: { type: "fieldRef", source: "$params", field: "author" },
+    };
+    expect(matches(byAuthor, { author: "anne" })).toBe(true);
+    expect(matches(byAuthor, { author: "jack" })).toBe(false);
+    // An unknown comparison is not a match
+    expect(matches(byAuthor)).toBe(false);
+  });
+
+  it("compares declared datetime fields as instants", () => {
+    const sub = subscription(
+      {
+        type: "comparison",
+        op: "eq",
+        left: field("createdAt"),
+        right: str("2026-01-01T00:00:00Z"),
+      },
+      {
+        fields: [{ alias: "createdAt", value: field("createdAt") }],
+        outputSchema: [{ name: "createdAt", schema: { type: "datetime" } }],
+      },
+    );
+    expect(evaluator.matches(sub, RECORD, {})).toBe(true);
+  });
+
+  it("treats a failing filter as no match and a failing field as no fields", () => {
+    const unknown: Expression = { type: "builtinCall", name: "walk_the_plank", args: [] };
+    expect(matches(unknown)).toBe(false);
+    expect(evaluator.projectFields(subscription(undefined), RECORD, {})).toEqual({
+      text: RECORD.text,
+    });
+    expect(
+      evaluator.projectFields(
+        subscription(undefined, { fields: [{ alias: "x", value: unknown }] }),
+        RECORD,
+        {},
+      ),
+    ).toBeUndefined();
+  });
+});
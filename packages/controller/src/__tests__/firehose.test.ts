@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { commitEvents, parseFrame } from "../watcher/firehose.js";
+import {
+  ACCOUNT_FRAME,
+  BLOB_CID,
+  COMMIT_FRAME,
+  ERROR_FRAME,
+  IDENTITY_FRAME,
+  INFO_FRAME,
+  RECORD_CID,
+  SYNC_FRAME,
+  TRUNCATED_FRAME,
+  UNKNOWN_FRAME,
+} from "./fixtures/firehose-frames.js";
+
+const DID = "did:plc:ewvi7nxzyoun6zhxrhs64oiz";
+
+describe("firehose frames", () => {
+  it("decodes a commit and its records from the CAR blocks", () => {
+    const message = parseFrame(COMMIT_FRAME);
+    if (message.type !== "#commit") throw new Error(message.type);
+    expect(message.seq).toBe(42);
+    expect(message.repo).toBe(DID);
+    expect(message.commit.toString()).toBe(
+      "bafyreibws7xxzytdq5rxb3ovbcuug26ghn4in2wlnrpagu2owmk6emta24",
+    );
+    expect(message.blocks.size).toBe(2);
+
+    expect(commitEvents(message)).toEqual([
+      {
+        type: "create",
+        collection: "chat.pirate.avast",
+        rkey: "3lbqzydjdak2c",
+        did: DID,
+        cid: RECORD_CID,
+        record: {
+          $type: "chat.pirate.avast",
+          text: "Ahoy!",
+          createdAt: "2026-01-01T00:00:00.000Z",
+          image: {
+            $type: "blob",
+            ref: { $link: BLOB_CID },
+            mimeType: "image/png",
+            size: 1024,
+          },
+        },
+      },
+      {
+        type: "delete",
+        collection: "chat.pirate.aye",
+        rkey: "3lbqzxyzabc2c",
+        did: DID,
+        cid: undefined,
+        record: undefined,
+      },
+    ]);
+  });
+
+  it("filters commit events by collection", () => {
+    const message = parseFrame(COMMIT_FRAME);
+    if (message.type !== "#commit") throw new Error(message.type);
+    const events = commitEvents(message, ["chat.pirate.aye"]);
+    expect(events.map((e) => e.type)).toEqual(["delete"]);
+  });
+
+  it("decodes identity, account, sync and info messages", () => {
+    expect(parseFrame(IDENTITY_FRAME)).toEqual({
+      type: "#identity",
+      seq: 43,
+      did: DID,
+      time: "2026-01-01T00:00:02.000Z",
+      handle: "captain.test",
+    });
+    expect(parseFrame(ACCOUNT_FRAME)).toEqual({
+      type: "#account",
+      seq: 44,
+      did: DID,
+      time: "2026-01-01T00:00:03.000Z",
+      active: false,
+      status: "takendown",
+    });
+
+    const sync = parseFrame(SYNC_FRAME);
+    expect(sync).toMatchObject({ type: "#sync", seq: 45, did: DID });
+    expect(sync.type === "#sync" && sync.blocks.size).toBe(1);
+
+    expect(parseFrame(INFO_FRAME)).toMatchObject({
+      type: "#info",
+      name: "OutdatedCursor",
+    });
+  });
+
+  it("returns error frames and unknown message types", () => {
+    expect(parseFrame(ERROR_FRAME)).toEqual({
+      type: "error",
+      error: "FutureCursor",
+      message: "Cursor in the future.",
+    });
+    expect(parseFrame(UNKNOWN_FRAME)).toEqual({
+      type: "unknown",
+      name: "#labels",
+    });
+  });
+
+  it("rejects a truncated frame", () => {
+    expect(() => parseFrame(TRUNCATED_FRAME)).toThrow(/Unexpected end/);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * `subscribeRepos` frames as hex, hand-encoded in DAG-CBOR to the
+ * lexicon's message shapes. The `#commit` carries a CAR holding its
+ * commit block and a created `chat.pirate.avast` record with a blob ref.
+ */
+
+/** A commit creating one avast and deleting one aye (seq 42) */
+export const COMMIT_FRAME = hex(
+  "a261746723636f6d6d6974626f7001ab636f707382a363636964d82a58250001" +
+  "71122030d1e86a9ab3f5fcb533bfd5847be12daec094eb0795251d548d70538a" +
+  "46931d6470617468781f636861742e7069726174652e61766173742f336c6271" +
+  "7a79646a64616b326366616374696f6e66637265617465a363636964f6647061" +
+  "7468781d636861742e7069726174652e6179652f336c62717a78797a61626332" +
+  "6366616374696f6e6664656c657465637265766d336c62717a79646a64616b32" +
+  "6363736571182a647265706f78206469643a706c633a65777669376e787a796f" +
+  "756e367a687872687336346f697a6474696d657818323032362d30312d303154" +
+  "30303a30303a30312e3030305a65626c6f6273806573696e63656d336c62717a" +
+  "796162636465326366626c6f636b735901e53aa265726f6f747381d82a582500" +
+  "017112203697ef7ce263876370edd508a9436bc63b7886eacb6c5e03534eb315" +
+  "e23260d76776657273696f6e01e001017112203697ef7ce263876370edd508a9" +
+  "436bc63b7886eacb6c5e03534eb315e23260d7a66364696478206469643a706c" +
+  "633a65777669376e787a796f756e367a687872687336346f697a637265766d33" +
+  "6c62717a79646a64616b32636373696758400101010101010101010101010101" +
+  "0101010101010101010101010101010101010101010101010101010101010101" +
+  "0101010101010101010101010101010101016464617461d82a58250001711220" +
+  "4a0a795bbaf25cd03f53380c40aa74e07c2e1a0c5025369f0024e5596e9a7d86" +
+  "6470726576f66776657273696f6e03c6010171122030d1e86a9ab3f5fcb533bf" +
+  "d5847be12daec094eb0795251d548d70538a46931da464746578746541686f79" +
+  "2165247479706571636861742e7069726174652e617661737465696d616765a4" +
+  "63726566d82a58250001551220c2b463ae3f724048e49ad909f06bae1f866b08" +
+  "11ca4076f5eb7fedc5ddfdce396473697a6519040065247479706564626c6f62" +
+  "686d696d655479706569696d6167652f706e6769637265617465644174781832" +
+  "3032362d30312d30315430303a30303a30302e3030305a66636f6d6d6974d82a" +
+  "582500017112203697ef7ce263876370edd508a9436bc63b7886eacb6c5e0353" +
+  "4eb315e23260d766726562617365f466746f6f426967f4"
+);
+
+/** A handle change (seq 43) */
+export const IDENTITY_FRAME = hex(
+  "a2617469236964656e74697479626f7001a46364696478206469643a706c633a" +
+  "65777669376e787a796f756e367a687872687336346f697a63736571182b6474" +
+  "696d657818323032362d30312d30315430303a30303a30322e3030305a666861" +
+  "6e646c656c6361707461696e2e74657374"
+);
+
+/** An account takedown (seq 44) */
+export const ACCOUNT_FRAME = hex(
+  "a2617468236163636f756e74626f7001a56364696478206469643a706c633a65" +
+  "777669376e787a796f756e367a687872687336346f697a63736571182c647469" +
+  "6d657818323032362d30312d30315430303a30303a30332e3030305a66616374" +
+  "697665f4667374617475736974616b656e646f776e"
+);
+
+/** A repo reset carrying only its commit block (seq 45) */
+export const SYNC_FRAME = hex(
+  "a26174652373796e63626f7001a56364696478206469643a706c633a65777669" +
+  "376e787a796f756e367a687872687336346f697a637265766d336c62717a7964" +
+  "6a64616b326363736571182d6474696d657818323032362d30312d3031543030" +
+  "3a30303a30342e3030305a66626c6f636b7359011d3aa265726f6f747381d82a" +
+  "582500017112203697ef7ce263876370edd508a9436bc63b7886eacb6c5e0353" +
+  "4eb315e23260d76776657273696f6e01e001017112203697ef7ce263876370ed" +
+  "d508a9436bc63b7886eacb6c5e03534eb315e23260d7a6636469647820646964" +
+  "3a706c633a65777669376e787a796f756e367a687872687336346f697a637265" +
+  "766d336c62717a79646a64616b32636373696758400101010101010101010101" +
+  "0101010101010101010101010101010101010101010101010101010101010101" +
+  "0101010101010101010101010101010101010101016464617461d82a58250001" +
+  "7112204a0a795bbaf25cd03f53380c40aa74e07c2e1a0c5025369f0024e5596e" +
+  "9a7d866470726576f66776657273696f6e03"
+);
+
+/** An OutdatedCursor notice */
+export const INFO_FRAME = hex(
+  "a261746523696e666f626f7001a2646e616d656e4f7574646174656443757273" +
+  "6f72676d657373616765783852657175657374656420637572736f7220657863" +
+  "6565646564206c696d69742e20506f737369626c79206d697373696e67206576" +
+  "656e7473"
+);
+
+/** An error frame (op -1) */
+export const ERROR_FRAME = hex(
+  "a1626f7020a2656572726f726c467574757265437572736f72676d6573736167" +
+  "6575437572736f7220696e20746865206675747572652e"
+);
+
+/** A `#labels` message, which this client does not know */
+export const UNKNOWN_FRAME = hex(
+  "a2617467236c6162656c73626f7001a263736571182e666c6162656c7380"
+);
+
+/** The commit frame with its last 10 bytes cut off */
+export const TRUNCATED_FRAME = hex(
+  "a261746723636f6d6d6974626f7001ab636f707382a363636964d82a58250001" +
+  "71122030d1e86a9ab3f5fcb533bfd5847be12daec094eb0795251d548d70538a" +
+  "46931d6470617468781f636861742e7069726174652e61766173742f336c6271" +
+  "7a79646a64616b326366616374696f6e66637265617465a363636964f6647061" +
+  "7468781d636861742e7069726174652e6179652f336c62717a78797a61626332" +
+  "6366616374696f6e6664656c657465637265766d336c62717a79646a64616b32" +
+  "6363736571182a647265706f78206469643a706c633a65777669376e787a796f" +
+  "756e367a687872687336346f697a6474696d657818323032362d30312d303154" +
+  "30303a30303a30312e3030305a65626c6f6273806573696e63656d336c62717a" +
+  "796162636465326366626c6f636b735901e53aa265726f6f747381d82a582500" +
+  "017112203697ef7ce263876370edd508a9436bc63b7886eacb6c5e03534eb315" +
+  "e23260d76776657273696f6e01e001017112203697ef7ce263876370edd508a9" +
+  "436bc63b7886eacb6c5e03534eb315e23260d7a66364696478206469643a706c" +
+  "633a65777669376e787a796f756e367a687872687336346f697a637265766d33" +
+  "6c62717a79646a64616b32636373696758400101010101010101010101010101" +
+  "0101010101010101010101010101010101010101010101010101010101010101" +
+  "0101010101010101010101010101010101016464617461d82a58250001711220" +
+  "4a0a795bbaf25cd03f53380c40aa74e07c2e1a0c5025369f0024e5596e9a7d86" +
+  "6470726576f66776657273696f6e03c6010171122030d1e86a9ab3f5fcb533bf" +
+  "d5847be12daec094eb0795251d548d70538a46931da464746578746541686f79" +
+  "2165247479706571636861742e7069726174652e617661737465696d616765a4" +
+  "63726566d82a58250001551220c2b463ae3f724048e49ad909f06bae1f866b08" +
+  "11ca4076f5eb7fedc5ddfdce396473697a6519040065247479706564626c6f62" +
+  "686d696d655479706569696d6167652f706e6769637265617465644174781832" +
+  "3032362d30312d30315430303a30303a30302e3030305a66636f6d6d6974d82a" +
+  "582500017112203697ef7ce263876370edd508a9436bc63b7886eacb6c5e0353" +
+  "4eb315e23260d7667265626173"
+);
+
+export const RECORD_CID =
+  "bafyreibq2hugvgvt6x6lkm572wchxyjnv3ajj2yhsusr2venobjyurutdu";
+export const BLOB_CID =
+  "bafkreigcwrr24p3sibeojgwzbhygxlq7qzvqqeokib3pl2375xc537oohe";
+
+function hex(text: string): Uint8Array {
+  return new Uint8Array(Buffer.from(text, "hex"));
+}
@@ -0,0 +1,50 @@
+/**
+ * A commit signed with a secp256k1 key by @atproto/repo, the repository
+ * library the reference PDS writes and signs commits with, and the blocks
+ * proving it: the commit, its MST and the records it created.
+ */
+
+export const PDS_COMMIT = {
+  signingKey: "zQ3shY77aD3XBaryZHxMGB9we7tjk7wGMM5Rj5PBvAfwJj7Hn",
+  repo: "did:plc:ewvi7nxzyoun6zhxrhs64oiz",
+  commit: "bafyreigzvzt35xdmzluhn6u3bakfdhg6teo3hmkq4z2y6pjecvutojql7u",
+  rev: "3my7bjsqzls2o",
+  path: "chat.pirate.avast/3lbqzydjdak2c",
+  record: "bafyreiakrhd77nyofvgezzlrmxxfjfi4q6bo5urtz6fjsf2rckabiywvgy",
+  blocks: {
+    bafyreiakrhd77nyofvgezzlrmxxfjfi4q6bo5urtz6fjsf2rckabiywvgy:
+      "a364746578746541686f792165247479706571636861742e7069726174652e61" +
+      "76617374696372656174656441747818323032362d30312d30315430303a3030" +
+      "3a30302e3030305a",
+    bafyreicodh5zp5fafvouqdbsvaytiyp4yr6iylf4pub5dufh7d5gyiv3lq:
+      "a364746578746341727265247479706571636861742e7069726174652e617661" +
+      "7374696372656174656441747818323032362d30312d30315430303a30303a30" +
+      "312e3030305a",
+    bafyreihrzggkoirfcjutuips3on4y4aihnpqspdhmfnmytj5oa32tjy2cm:
+      "a2616581a4616b581f636861742e7069726174652e61766173742f336c62717a" +
+      "79646a64616b32636170006174f66176d82a582500017112200a89c7ffb70e2d" +
+      "4c4ce57165ee54951c8782eed233cf8a99175112801462d536616cd82a582500" +
+      "017112204049945050dd3633deb9588c7d5f6290b526a8ffbe608b93c8c88453" +
+      "2d80732a",
+    bafyreicajgkfaug5gyz55okyrr6v6yuqwutkr756mcfzhsgiqrjs3adtfi:
+      "a2616580616cd82a58250001711220679026de9990211647c6e5f6e9215fff7b" +
+      "3f3cf08211e842566c094da623065d",
+    bafyreidhsatn5gmqeeleprxf63uscx77pm7tz4ecchueevtmbfg2miyglu:
+      "a2616580616cd82a58250001711220aafc936290d66eb2588853e775f547b88c" +
+      "4818e4cc897b4a9b8b4c07340feced",
+    bafyreifk7sjwfegwn2zfrcct4527kr5yrrebrzgmrf5uvg4ljqdtid7m5u:
+      "a2616580616cd82a582500017112200c644700ff847435534a84326b73f93c76" +
+      "cbd0e013bd2096cd65f6fd241ce744",
+    bafyreiammrdqb74eoq2vgsuegjvxh6j4o3f5byatxuqjntlf636sihhhiq:
+      "a2616581a4616b581f636861742e7069726174652e61766173742f336c62717a" +
+      "79616263646532636170006174f66176d82a582500017112204e19fb97f4a02d" +
+      "5d480c32a8313461fcc47c8c2cbc7d03d1d0a7f8fa6c22bb5c616cf6",
+    bafyreigzvzt35xdmzluhn6u3bakfdhg6teo3hmkq4z2y6pjecvutojql7u:
+      "a66364696478206469643a706c633a65777669376e787a796f756e367a687872" +
+      "687336346f697a637265766d336d7937626a73717a6c73326f6373696758407e" +
+      "5f6862687e13388b56f4bf99601f0b51d0ec52af7900ac679dbb57b82ddfb41f" +
+      "9d730765185b0d0c26da00ff8306cffee1469b0286f95914cdba32bd76abbe64" +
+      "64617461d82a58250001711220f1c98ca7222512693a21f2db9bcc70083b5f09" +
+      "3c67615acc4d3d7037a9a71a136470726576f66776657273696f6e03",
+  } as Record<string, string>,
+};
@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { EventEmitter } from "node:events";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { spawn } from "node:child_process";
+import type { Expression, FunctionRecord, Query } from "@avaast/shared";
+import {
+  FunctionPool,
+  type FunctionBatchItem,
+  type FunctionBatchRequest,
+  type FunctionBatchResult,
+} from "../executor/pool.js";
+import { PoolFunctionInvoker } from "../query/functions.js";
+import { QueryEngine } from "../query/engine.js";
+
+vi.mock("node:child_process", () => ({ spawn: vi.fn() }));
+
+const DID = "did:plc:ewvi7nxzyoun6zhxrhs64oiz";
+const AVAST = "chat.pirate.avast";
+const REF = { did: DID, cid: "bafyshout" };
+
+const SHOUT: FunctionRecord = {
+  name: "shout",
+  code: { ref: { $link: "bafycode" }, mimeType: "application/typescript", size: 1 },
+  mode: "read",
+  inputSchema: [{ name: "text", schema: { type: "string" } }],
+  outputSchema: [{ name: "loud", schema: { type: "string" } }],
+  createdAt: "2026-01-01T00:00:00.000Z",
+};
+
+const shout = (arg: Expression): Expression => ({ type: "functionCall", ref: REF, args: [arg] });
+const text: Expression = { type: "fieldRef", source: "a", field: "text" };
+
+/** A pool answering each input with `answer`, after `delayMs` */
+function stubPool(
+  answer: (input: Record<string, unknown>) => FunctionBatchItem,
+  delayMs = 0,
+) {
+  const executeBatch = vi.fn(
+    async (request: FunctionBatchRequest): Promise<FunctionBatchResult> => {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      return { results: request.inputs.map(answer), durationMs: delayMs };
+    },
+  );
+  return { executeBatch, pool: { executeBatch } as unknown as FunctionPool };
+}
+
+function engine(pool: FunctionPool, queryTimeout?: number): QueryEngine {
+  const texts = ["ahoy", "arr", "ahoy"];
+  return new QueryEngine({
+    dataSource: {
+      fetchRecords: async () =>
+        texts.map((t, i) => ({ text: t, _uri: `at://${DID}/${AVAST}/a${i}`, _cid: `cid${i}` })),
+    },
+    defaultDid: DID,
+    queryTimeout,
+    functionInvoker: new PoolFunctionInvoker({
+      pool,
+      resolveFunction: async () => ({ record: SHOUT, code: "export default () => ({})" }),
+    }),
+  });
+}
+
+const SHOUTED: Query = {
+  select: [{ alias: "loud", value: shout(text) }],
+  from: { alias: "a", collection: AVAST },
+};
+
+describe("function calls in queries", () => {
+  const loud = (input: Record<string, unknown>): FunctionBatchItem => ({
+    output: { loud: String(input.text).toUpperCase() },
+  });
+
+  it("invoke each function once per step with the distinct inputs", async () => {
+    const { executeBatch, pool } = stubPool(loud);
+    const before = Date.now();
+    const { results } = await engine(pool).execute(SHOUTED);
+
+    expect(results).toEqual([{ loud: "AHOY" }, { loud: "ARR" }, { loud: "AHOY" }]);
+    expect(executeBatch).toHaveBeenCalledTimes(1);
+    const request = executeBatch.mock.calls[0]![0];
+    expect(request.inputs).toEqual([{ text: "ahoy" }, { text: "arr" }]);
+    // The query's deadline goes with the batch
+    expect(request.deadline).toBeGreaterThanOrEqual(before + 60_000);
+  });
+
+  it("fail the query naming the input that failed", async () => {
+    const { pool } = stubPool((input) =>
+      input.text === "arr"
+        ? { error: { code: "TIMEOUT", message: "Timed out after 100ms" } }
+        : loud(input),
+    );
+    await expect(engine(pool).execute(SHOUTED)).rejects.toThrow(
+      "Function shout failed: input 2 of 2: Timed out after 100ms",
+    );
+  });
+
+  it("stop a query past its time limit", async () => {
+    const { executeBatch, pool } = stubPool(loud, 40);
+    const query: Query = {
+      ...SHOUTED,
+      where: {
+        type: "comparison",
+        op: "eq",
+        left: shout(text),
+        right: { type: "literal", stringValue: "AHOY" },
+      },
+    };
+    await expect(engine(pool, 20).execute(query)).rejects.toThrow(
+      "Query exceeded its 20ms time limit",
+    );
+    expect(executeBatch).toHaveBeenCalledTimes(1);
+  });
+});
+
+interface FakeChild extends EventEmitter {
+  stdout: EventEmitter;
+  stderr: EventEmitter;
+  stdin: { write(data: string): void; end(): void };
+}
+
+/** A Deno process answering the harness payload with `respond` */
+function fakeChild(
+  respond: (payload: Record<string, unknown>) => unknown,
+  exitCode = 0,
+): FakeChild {
+  let payload = "";
+  const child = Object.assign(new EventEmitter(), {
+    stdout: new EventEmitter(),
+    stderr: new EventEmitter(),
+    stdin: {
+      write: (data: string) => {
+        payload += data;
+      },
+      end: () => {
+        setImmediate(() => {
+          const output = JSON.stringify(respond(JSON.parse(payload)));
+          child.stdout.emit("data", Buffer.from(exitCode === 0 ? output : ""));
+          child.stderr.emit("data", Buffer.from(exitCode === 0 ? "" : "boom"));
+          child.emit("close", exitCode);
+        });
+      },
+    },
+  });
+  return child;
+}
+
+describe("FunctionPool batches", () => {
+  let workDir: string;
+  let pool: FunctionPool;
+  const payloads: Array<Record<string, unknown>> = [];
+  const echo = (payload: Record<string, unknown>) => {
+    payloads.push(payload);
+    return {
+      results: (payload.inputs as Array<Record<string, unknown>>).map((input) => ({
+        output: { n: input.n },
+      })),
+    };
+  };
+
+  beforeEach(async () => {
+    payloads.length = 0;
+    vi.mocked(spawn).mockReset();
+    workDir = mkdtempSync(join(tmpdir(), "function-pool-"));
+    pool = new FunctionPool({
+      maxProcesses: 2,
+      controllerBaseUrl: "http://localhost:3001",
+      functionTimeout: 100,
+      functionMemoryLimit: 128,
+      workDir,
+      maxChunkTimeout: 3000,
+    });
+    await pool.init();
+  });
+
+  afterEach(() => {
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  const batch = (count: number, deadline?: number): FunctionBatchRequest => ({
+    code: "export default (input) => input",
+    inputs: Array.from({ length: count }, (_, n) => ({ n })),
+    dependencies: [],
+    writeMode: false,
+    deadline,
+  });
+
+  it("split a batch into chunks of 50, each with a bounded budget", async () => {
+    vi.mocked(spawn).mockImplementation(() => fakeChild(echo) as never);
+    const { results } = await pool.executeBatch(batch(120));
+
+    expect(results.map((r) => r.output?.n)).toEqual(Array.from({ length: 120 }, (_, n) => n));
+    expect(payloads.map((p) => (p.inputs as unknown[]).length)).toEqual([50, 50, 20]);
+    // 50 inputs of 100ms are capped at maxChunkTimeout; 20 fit within it
+    expect(payloads.map((p) => p.budgetMs)).toEqual([3000, 3000, 2000]);
+    expect(vi.mocked(spawn).mock.calls.map(([, , options]) => options?.timeout)).toEqual([
+      4000, 4000, 3000,
+    ]);
+  });
+
+  it("fail only the items of a chunk whose process fails", async () => {
+    let spawned = 0;
+    vi.mocked(spawn).mockImplementation(() => fakeChild(echo, ++spawned === 2 ? 1 : 0) as never);
+    const { results } = await pool.executeBatch(batch(60));
+
+    expect(results.slice(0, 50).every((r) => r.output)).toBe(true);
+    expect(results.slice(50)).toEqual(
+      Array.from({ length: 10 }, () => ({ error: { code: "EXIT_ERROR", message: "boom" } })),
+    );
+  });
+
+  it("keep chunks within the batch deadline", async () => {
+    vi.mocked(spawn).mockImplementation(() => fakeChild(echo) as never);
+    await pool.executeBatch(batch(10, Date.now() + 500));
+    expect(payloads[0]!.budgetMs).toBeLessThanOrEqual(500);
+
+    const late = await pool.executeBatch(batch(10, Date.now() - 1));
+    expect(late.results[0]!.error?.code).toBe("DEADLINE_EXCEEDED");
+    expect(spawn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { JetstreamClient } from "../watcher/jetstream.js";
+import { CursorStore } from "../watcher/cursor-store.js";
+import type { FirehoseEvent } from "../watcher/firehose.js";
+
+const DID = "did:plc:ewvi7nxzyoun6zhxrhs64oiz";
+const AVAST = "chat.pirate.avast";
+
+/** A WebSocket the test drives, standing in for the relay */
+class FakeSocket {
+  static sockets: FakeSocket[] = [];
+  private listeners = new Map<string, Array<(event?: unknown) => void>>();
+
+  constructor(readonly url: string) {
+    FakeSocket.sockets.push(this);
+  }
+
+  addEventListener(type: string, listener: (event?: unknown) => void): void {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+  }
+
+  emit(type: string, event?: unknown): void {
+    for (const listener of this.listeners.get(type) ?? []) listener(event);
+  }
+
+  send(): void {}
+
+  close(): void {}
+}
+
+function commit(
+  timeUs: number,
+  rev: string,
+  operation: "create" | "update" | "delete",
+  rkey = "a1",
+): { data: string } {
+  return {
+    data: JSON.stringify({
+      did: DID,
+      time_us: timeUs,
+      kind: "commit",
+      commit: {
+        rev,
+        operation,
+        collection: AVAST,
+        rkey,
+        cid: operation === "delete" ? undefined : "bafyavast",
+        record: operation === "delete" ? undefined : { text: "Ahoy!" },
+      },
+    }),
+  };
+}
+
+async function connect(cursorStore: CursorStore, events: FirehoseEvent[]) {
+  const client = new JetstreamClient({
+    jetstreamUrl: "ws://jetstream.test/subscribe",
+    onEvent: (event) => events.push(event),
+    cursorStore,
+    rewindUs: 1000,
+  });
+  await client.start();
+  const socket = FakeSocket.sockets.at(-1)!;
+  socket.emit("open");
+  return { client, socket };
+}
+
+describe("JetstreamClient", () => {
+  let store: CursorStore;
+
+  beforeEach(() => {
+    FakeSocket.sockets = [];
+    vi.stubGlobal("WebSocket", FakeSocket);
+    store = new CursorStore(":memory:");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    store.close();
+  });
+
+  it("delivers repeated operations on a record and skips exact replays", async () => {
+    const events: FirehoseEvent[] = [];
+    const { client, socket } = await connect(store, events);
+    socket.emit("message", commit(10_000, "r1", "create"));
+    socket.emit("message", commit(10_100, "r2", "delete"));
+    // Recreated with the same content, then deleted again
+    socket.emit("message", commit(10_200, "r3", "create"));
+    socket.emit("message", commit(10_300, "r4", "delete"));
+    socket.emit("message", commit(10_200, "r3", "create"));
+    socket.emit("message", commit(10_300, "r4", "delete"));
+    client.stop();
+
+    expect(events.map((e) => e.type)).toEqual(["create", "delete", "create", "delete"]);
+  });
+
+  it("resumes a restart before the stored cursor and skips what it replays", async () => {
+    const first: FirehoseEvent[] = [];
+    const run = await connect(store, first);
+    expect(new URL(run.socket.url).searchParams.has("cursor")).toBe(false);
+    run.socket.emit("message", commit(10_000, "r1", "create", "a1"));
+    run.socket.emit("message", commit(10_500, "r2", "create", "a2"));
+    run.client.stop();
+    expect(store.getCursor("jetstream")).toBe(10_500);
+
+    const second: FirehoseEvent[] = [];
+    const restart = await connect(store, second);
+    expect(new URL(restart.socket.url).searchParams.get("cursor")).toBe("9500");
+    restart.socket.emit("message", commit(10_000, "r1", "create", "a1"));
+    restart.socket.emit("message", commit(10_500, "r2", "create", "a2"));
+    restart.socket.emit("message", commit(10_600, "r3", "create", "a3"));
+    restart.client.stop();
+
+    expect(second.map((e) => e.rkey)).toEqual(["a3"]);
+    expect(store.getCursor("jetstream")).toBe(10_600);
+  });
+
+  it("rewinds on reconnect and batches cursor writes", async () => {
+    vi.useFakeTimers();
+    const events: FirehoseEvent[] = [];
+    const { client, socket } = await connect(store, events);
+    socket.emit("message", commit(20_000, "r1", "create", "a1"));
+    socket.emit("message", commit(20_400, "r2", "create", "a2"));
+    // Nothing is written until the batch is flushed
+    expect(store.getCursor("jetstream")).toBeUndefined();
+    vi.advanceTimersByTime(1000);
+    expect(store.getCursor("jetstream")).toBe(20_400);
+
+    socket.emit("close");
+    vi.advanceTimersByTime(1000);
+    const reconnected = FakeSocket.sockets.at(-1)!;
+    expect(reconnected).not.toBe(socket);
+    expect(new URL(reconnected.url).searchParams.get("cursor")).toBe("19400");
+    reconnected.emit("message", commit(20_400, "r2", "create", "a2"));
+    // An event Jetstream timestamped before the cursor is still new
+    reconnected.emit("message", commit(20_300, "r3", "update", "a1"));
+    client.stop();
+
+    expect(events.map((e) => `${e.type} ${e.rkey}`)).toEqual([
+      "create a1",
+      "create a2",
+      "update a1",
+    ]);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import type { Expression, Query } from "@avaast/shared";
+import { RecordStore } from "../store/record-store.js";
+import { LocalDataSource } from "../query/sources.js";
+import { QueryEngine } from "../query/engine.js";
+
+const DID = "did:plc:ewvi7nxzyoun6zhxrhs64oiz";
+const SHIP = "chat.pirate.ship";
+const CREW = "chat.pirate.crew";
+
+const field = (source: string, name: string): Expression => ({
+  type: "fieldRef",
+  source,
+  field: name,
+});
+
+const eq = (left: Expression, right: Expression): Expression => ({
+  type: "comparison",
+  op: "eq",
+  left,
+  right,
+});
+
+/** Join keys of every type the comparison model equates loosely */
+const SHIPS: Array<[string, Record<string, unknown>]> = [
+  ["s1", { name: "Pearl", id: 5, flag: { colour: "black" }, port: "Tortuga" }],
+  ["s2", { name: "Dutchman", id: "7", flag: { colour: "red" }, port: "Nassau" }],
+  ["s3", { name: "Revenge", id: true, flag: null, port: "Tortuga" }],
+  ["s4", { name: "Ghost", port: "Nassau" }],
+];
+
+const CREW_MEMBERS: Array<[string, Record<string, unknown>]> = [
+  ["c1", { name: "Jack", ship: "5", flag: { colour: "black" }, port: "Tortuga" }],
+  ["c2", { name: "Davy", ship: 7, flag: { colour: "red" }, port: "Tortuga" }],
+  ["c3", { name: "Anne", ship: 1, flag: null, port: "Tortuga" }],
+  ["c4", { name: "Mary", ship: "5.0", port: "Tortuga" }],
+  ["c5", { name: "Nobody", port: "Nassau" }],
+];
+
+function engines(): { sql: QueryEngine; memory: QueryEngine } {
+  const store = new RecordStore(":memory:");
+  for (const [collection, records] of [
+    [SHIP, SHIPS],
+    [CREW, CREW_MEMBERS],
+  ] as const) {
+    for (const [rkey, value] of records) {
+      store.putRecord(DID, collection, rkey, `cid-${rkey}`, value);
+    }
+    store.markBackfilled(DID, collection);
+  }
+  const dataSource = new LocalDataSource(store, {
+    async *iterateRecords() {
+      throw new Error("The mirror is already backfilled");
+    },
+  });
+  return {
+    sql: new QueryEngine({ dataSource, defaultDid: DID }),
+    memory: new QueryEngine({
+      dataSource: {
+        fetchRecords: (source, did) => dataSource.fetchRecords(source, did),
+      },
+      defaultDid: DID,
+    }),
+  };
+}
+
+function joinQuery(on: Expression, joinType: "inner" | "left" | "full" = "inner"): Query {
+  return {
+    select: [
+      { alias: "s.name", value: field("s", "name") },
+      { alias: "c.name", value: field("c", "name") },
+    ],
+    from: { alias: "s", collection: SHIP },
+    joins: [{ joinType, source: { alias: "c", collection: CREW }, on }],
+  };
+}
+
+async function pairs(query: Query): Promise<string[]> {
+  const { sql, memory } = engines();
+  const pushed = await sql.execute(query);
+  const inMemory = await memory.execute(query);
+  expect(inMemory.results).toEqual(pushed.results);
+  return inMemory.results.map((r) => {
+    const row = r as Record<string, unknown>;
+    return `${row["s.name"] ?? "-"}/${row["c.name"] ?? "-"}`;
+  });
+}
+
+describe("hash joins", () => {
+  it("match keys the comparison model finds equal, as SQL does", async () => {
+    expect(await pairs(joinQuery(eq(field("c", "ship"), field("s", "id"))))).toEqual([
+      "Pearl/Jack",
+      "Pearl/Mary",
+      "Dutchman/Davy",
+      "Revenge/Anne",
+    ]);
+  });
+
+  it("match objects by content and never match null keys", async () => {
+    expect(await pairs(joinQuery(eq(field("s", "flag"), field("c", "flag"))))).toEqual([
+      "Pearl/Jack",
+      "Dutchman/Davy",
+    ]);
+  });
+
+  it("apply the residual condition to candidates of each key", async () => {
+    const on: Expression = {
+      type: "logicalOp",
+      op: "and",
+      operands: [
+        eq(field("s", "port"), field("c", "port")),
+        {
+          type: "comparison",
+          op: "neq",
+          left: field("c", "name"),
+          right: { type: "literal", stringValue: "Mary" },
+        },
+      ],
+    };
+    expect(await pairs(joinQuery(on, "left"))).toEqual([
+      "Pearl/Jack",
+      "Pearl/Davy",
+      "Pearl/Anne",
+      "Dutchman/Nobody",
+      "Revenge/Jack",
+      "Revenge/Davy",
+      "Revenge/Anne",
+      "Ghost/Nobody",
+    ]);
+  });
+
+  it("keep unmatched rows of both sides in full joins", async () => {
+    expect(await pairs(joinQuery(eq(field("c", "ship"), field("s", "id")), "full"))).toEqual([
+      "Pearl/Jack",
+      "Pearl/Mary",
+      "Dutchman/Davy",
+      "Revenge/Anne",
+      "Ghost/-",
+      "-/Nobody",
+    ]);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { iterateListRecords, type ListResult } from "../watcher/list-records.js";
+import { Poller } from "../watcher/poller.js";
+import { RecordStore } from "../store/record-store.js";
+import { LocalDataSource } from "../query/sources.js";
+import type { FirehoseEvent } from "../watcher/firehose.js";
+
+const DID = "did:plc:ewvi7nxzyoun6zhxrhs64oiz";
+const PDS = "https://pds.test";
+const AVAST = "chat.pirate.avast";
+
+/** A PDS listing `rkeys` in pages of at most `limit`, with offset cursors */
+function fakePds(rkeys: string[]) {
+  const urls: URL[] = [];
+  return {
+    urls,
+    request: async (input: string): Promise<Response> => {
+      const url = new URL(input);
+      urls.push(url);
+      const offset = Number(url.searchParams.get("cursor") ?? 0);
+      const end = offset + Number(url.searchParams.get("limit"));
+      return Response.json({
+        records: rkeys.slice(offset, end).map((rkey) => ({
+          uri: `at://${DID}/${AVAST}/${rkey}`,
+          cid: `cid-${rkey}`,
+          value: { text: rkey },
+        })),
+        cursor: end < rkeys.length ? String(end) : undefined,
+      });
+    },
+  };
+}
+
+async function list(
+  rkeys: string[],
+  options: { pageSize?: number; maxRecords?: number },
+): Promise<{ rkeys: string[]; result: ListResult; limits: string[] }> {
+  const pds = fakePds(rkeys);
+  const records = iterateListRecords(PDS, DID, AVAST, { ...options, request: pds.request });
+  const listed: string[] = [];
+  let next = await records.next();
+  for (; !next.done; next = await records.next()) {
+    listed.push(next.value.uri.split("/").pop()!);
+  }
+  return {
+    rkeys: listed,
+    result: next.value,
+    limits: pds.urls.map((u) => u.searchParams.get("limit")!),
+  };
+}
+
+const RKEYS = ["a1", "a2", "a3", "a4", "a5"];
+
+describe("iterateListRecords", () => {
+  it("follows cursors to the last page", async () => {
+    const listed = await list(RKEYS, { pageSize: 2 });
+    expect(listed.rkeys).toEqual(RKEYS);
+    expect(listed.result).toEqual({ truncated: false });
+    expect(listed.limits).toEqual(["2", "2", "2"]);
+  });
+
+  it("stops at maxRecords and says whether pages were left", async () => {
+    const cut = await list(RKEYS, { pageSize: 2, maxRecords: 3 });
+    expect(cut.rkeys).toEqual(["a1", "a2", "a3"]);
+    expect(cut.result).toEqual({ truncated: true });
+    // The last page only asks for what is left
+    expect(cut.limits).toEqual(["2", "1"]);
+
+    const exact = await list(RKEYS, { pageSize: 2, maxRecords: 5 });
+    expect(exact.rkeys).toEqual(RKEYS);
+    expect(exact.result).toEqual({ truncated: false });
+  });
+});
+
+describe("Poller", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  /** Poll twice, dropping a1 from the PDS in between */
+  async function pollTwice(maxRecords: number): Promise<FirehoseEvent[]> {
+    vi.useFakeTimers();
+    const rkeys = ["a1", "a2", "a3", "a4"];
+    vi.stubGlobal("fetch", (url: string) => fakePds(rkeys).request(url));
+    const events: FirehoseEvent[] = [];
+    const poller = new Poller({
+      pdsEndpoint: PDS,
+      did: DID,
+      collections: [AVAST],
+      intervalMs: 1000,
+      maxRecords,
+      onEvent: (event) => events.push(event),
+    });
+    poller.start();
+    await vi.advanceTimersByTimeAsync(0);
+    rkeys.shift();
+    await vi.advanceTimersByTimeAsync(1000);
+    poller.stop();
+    return events;
+  }
+
+  it("detects deletes when the listing is complete", async () => {
+    const events = await pollTwice(10);
+    expect(events.map((e) => `${e.type} ${e.rkey}`)).toEqual([
+      "create a1",
+      "create a2",
+      "create a3",
+      "create a4",
+      "delete a1",
+    ]);
+  });
+
+  it("skips delete detection when the listing is cut off", async () => {
+    const events = await pollTwice(2);
+    // a1 is gone, but a cut-off listing cannot tell
+    expect(events.map((e) => `${e.type} ${e.rkey}`)).toEqual([
+      "create a1",
+      "create a2",
+      "create a3",
+    ]);
+  });
+});
+
+describe("LocalDataSource backfill", () => {
+  it("does not mark a cut-off listing backfilled", async () => {
+    const store = new RecordStore(":memory:");
+    const pds = fakePds(RKEYS);
+    const dataSource = new LocalDataSource(store, {
+      iterateRecords: (did, collection) =>
+        iterateListRecords(PDS, did, collection, {
+          pageSize: 2,
+          maxRecords: 3,
+          request: pds.request,
+        }),
+    });
+    const source = { alias: "a", collection: AVAST };
+
+    expect(await dataSource.fetchRecords(source, DID)).toHaveLength(3);
+    expect(store.isBackfilled(DID, AVAST)).toBe(false);
+    // The next read lists the collection again
+    await dataSource.fetchRecords(source, DID);
+    expect(pds.urls).toHaveLength(4);
+    store.close();
+  });
+});
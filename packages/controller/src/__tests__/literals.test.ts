@@ -0,0 +1,184 @@
+import { describe, it, expect } from "vitest";
+import type { Expression, Literal, Query } from "@avaast/shared";
+import { RecordStore } from "../store/record-store.js";
+import { LocalDataSource } from "../query/sources.js";
+import { QueryEngine } from "../query/engine.js";
+import { QueryAnalyzer } from "../query/analyzer.js";
+import { literalValue } from "../query/literals.js";
+
+const DID = "did:plc:ewvi7nxzyoun6zhxrhs64oiz";
+const AVAST = "chat.pirate.avast";
+
+const field = (source: string, name: string): Expression => ({
+  type: "fieldRef",
+  source,
+  field: name,
+});
+
+const AVASTS: Array<[rkey: string, value: Record<string, unknown>]> = [
+  ["a1", { text: "ahoy", ayes: 0, pinned: false, createdAt: "2026-01-01T00:00:00Z" }],
+  ["a2", { text: "arr", ayes: 2.5, pinned: true, createdAt: "2026-01-02T01:00:00+02:00" }],
+  ["a3", { text: "avast", ayes: 7, pinned: false, createdAt: "2026-01-03T00:00:00Z" }],
+  ["a4", { text: "yo", ayes: null, createdAt: "2026-01-04T00:00:00Z" }],
+];
+
+function engines(): { sql: QueryEngine; memory: QueryEngine } {
+  const store = new RecordStore(":memory:");
+  for (const [rkey, value] of AVASTS) {
+    store.putRecord(DID, AVAST, rkey, `cid-${rkey}`, value);
+  }
+  store.markBackfilled(DID, AVAST);
+  const dataSource = new LocalDataSource(store, {
+    async *iterateRecords() {
+      throw new Error("The mirror is already backfilled");
+    },
+  });
+  return {
+    sql: new QueryEngine({ dataSource, defaultDid: DID }),
+    memory: new QueryEngine({
+      dataSource: {
+        fetchRecords: (source, did) => dataSource.fetchRecords(source, did),
+      },
+      defaultDid: DID,
+    }),
+  };
+}
+
+/** Texts of the avasts matching `where`, checked against both engines */
+async function texts(where: Expression): Promise<unknown[]> {
+  const query: Query = {
+    select: [{ alias: "a.text", value: field("a", "text") }],
+    from: { alias: "a", collection: AVAST },
+    where,
+  };
+  const { sql, memory } = engines();
+  const pushed = await sql.execute(query);
+  const inMemory = await memory.execute(query);
+  expect(pushed.results).toEqual(inMemory.results);
+  return pushed.results.map((r) => (r as Record<string, unknown>)["a.text"]);
+}
+
+const lit = (literal: Omit<Literal, "type">): Expression => ({ type: "literal", ...literal });
+
+describe("literal values", () => {
+  it("read falsy values from whichever field is set", () => {
+    expect(literalValue({ type: "literal", booleanValue: false })).toBe(false);
+    expect(literalValue({ type: "literal", integerValue: 0 })).toBe(0);
+    expect(literalValue({ type: "literal", stringValue: "" })).toBe("");
+    expect(literalValue({ type: "literal", nullValue: true })).toBeNull();
+  });
+
+  it("parse floats and normalise datetimes", () => {
+    expect(literalValue({ type: "literal", floatValue: "-1.5e2" })).toBe(-150);
+    expect(literalValue({ type: "literal", floatValue: "NaN" })).toBeNull();
+    expect(literalValue({ type: "literal", datetimeValue: "2026-01-02T01:00:00+02:00" })).toBe(
+      "2026-01-01T23:00:00.000Z",
+    );
+    expect(
+      literalValue({
+        type: "literal",
+        arrayValue: [
+          { type: "literal", integerValue: 1 },
+          { type: "literal", floatValue: "2.5" },
+          { type: "literal", nullValue: true },
+        ],
+      }),
+    ).toEqual([1, 2.5, null]);
+  });
+});
+
+describe("literals in filters", () => {
+  it("match false and zero", async () => {
+    expect(
+      await texts({
+        type: "comparison",
+        op: "eq",
+        left: field("a", "pinned"),
+        right: lit({ booleanValue: false }),
+      }),
+    ).toEqual(["ahoy", "avast"]);
+    expect(
+      await texts({
+        type: "comparison",
+        op: "eq",
+        left: field("a", "ayes"),
+        right: lit({ integerValue: 0 }),
+      }),
+    ).toEqual(["ahoy"]);
+  });
+
+  it("match arrays with in and between", async () => {
+    expect(
+      await texts({
+        type: "comparison",
+        op: "in",
+        left: field("a", "ayes"),
+        right: lit({
+          arrayValue: [
+            { type: "literal", floatValue: "2.5" },
+            { type: "literal", integerValue: 7 },
+          ],
+        }),
+      }),
+    ).toEqual(["arr", "avast"]);
+    expect(
+      await texts({
+        type: "comparison",
+        op: "between",
+        // Untyped fields compare as text against the normalised bounds
+        left: field("a", "createdAt"),
+        right: lit({
+          arrayValue: [
+            { type: "literal", datetimeValue: "2026-01-01T23:00:00Z" },
+            { type: "literal", datetimeValue: "2026-01-03T12:00:00+02:00" },
+          ],
+        }),
+      }),
+    ).toEqual(["arr", "avast"]);
+  });
+
+  it("never match a null literal with eq", async () => {
+    expect(
+      await texts({
+        type: "comparison",
+        op: "eq",
+        left: field("a", "ayes"),
+        right: lit({ nullValue: true }),
+      }),
+    ).toEqual([]);
+  });
+});
+
+describe("literal analysis", () => {
+  it("report literals with no value, several values or unparseable values", () => {
+    const analyze = (where: Expression) =>
+      new QueryAnalyzer().analyze({
+        name: "texts",
+        query: {
+          select: [{ alias: "a.text", value: field("a", "text") }],
+          from: { alias: "a", collection: AVAST },
+          where,
+        },
+        outputSchema: [],
+        createdAt: "2026-01-01T00:00:00.000Z",
+      }).errors;
+    const eq = (right: Expression): Expression => ({
+      type: "comparison",
+      op: "eq",
+      left: field("a", "ayes"),
+      right,
+    });
+
+    expect(analyze(eq(lit({ integerValue: 0 })))).toEqual([]);
+    expect(analyze(eq(lit({})))).toEqual([expect.stringMatching(/literal has no value/)]);
+    expect(analyze(eq(lit({ integerValue: 0, booleanValue: false })))).toEqual([
+      expect.stringMatching(/more than one value: integerValue, booleanValue/),
+    ]);
+    expect(analyze(eq(lit({ floatValue: "1,5" })))).toEqual([
+      expect.stringMatching(/floatValue 1,5 is not a decimal number/),
+    ]);
+    expect(analyze(eq(lit({ datetimeValue: "tomorrow" })))).toEqual([
+      expect.stringMatching(/datetimeValue tomorrow is not an ISO 8601 datetime/),
+    ]);
+  });
+});
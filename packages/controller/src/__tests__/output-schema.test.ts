@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import type { OutputField, Query } from "@avaast/shared";
+import { applyOutputSchema, checkOutputSchema } from "../query/output-schema.js";
+
+const SCHEMA: OutputField[] = [
+  { name: "a.text", alias: "text", schema: { type: "string" } },
+  { name: "ayeCount", schema: { type: "integer" } },
+  { name: "a.createdAt", alias: "createdAt", schema: { type: "datetime" } },
+  {
+    name: "a.tags",
+    alias: "tags",
+    schema: { type: "array", items: { type: "string" } },
+  },
+  {
+    name: "a.author",
+    alias: "author",
+    schema: {
+      type: "object",
+      properties: [{ name: "verified", schema: { type: "boolean" } }],
+    },
+  },
+];
+
+describe("applyOutputSchema", () => {
+  it("renames, coerces and drops fields to match the schema", () => {
+    expect(
+      applyOutputSchema(
+        [
+          {
+            "a.text": 42,
+            ayeCount: "3",
+            "a.createdAt": "2026-01-01T01:00:00+01:00",
+            "a.tags": ["arr", 7],
+            "a.author": { verified: 1, handle: "jack" },
+            "a._uri": "at://did:plc:abc/chat.pirate.avast/1",
+          },
+        ],
+        SCHEMA,
+      ),
+    ).toEqual([
+      {
+        text: "42",
+        ayeCount: 3,
+        createdAt: "2026-01-01T00:00:00.000Z",
+        tags: ["arr", "7"],
+        author: { verified: true },
+      },
+    ]);
+  });
+
+  it("nulls values that cannot be coerced instead of failing the row", () => {
+    expect(
+      applyOutputSchema(
+        [{ "a.text": { nested: true }, ayeCount: 1.5, "a.createdAt": "soon" }],
+        SCHEMA,
+      ),
+    ).toEqual([{ text: null, ayeCount: null, createdAt: null }]);
+  });
+
+  it("reads datetimes as the datetime builtins do", () => {
+    const createdAt = (value: unknown) =>
+      applyOutputSchema([{ "a.createdAt": value }], SCHEMA)[0];
+    expect(createdAt("2026-01-01 12:00:00")).toEqual({ createdAt: "2026-01-01T12:00:00.000Z" });
+    expect(createdAt("2026-01-01")).toEqual({ createdAt: "2026-01-01T00:00:00.000Z" });
+    expect(createdAt(0)).toEqual({ createdAt: "1970-01-01T00:00:00.000Z" });
+    // Date accepts these, RFC 3339 does not
+    for (const loose of ["1", "March 3", "2026/01/01", "Thu, 01 Jan 2026 00:00:00 GMT"]) {
+      expect(createdAt(loose)).toEqual({ createdAt: null });
+    }
+    expect(createdAt(8.64e15 + 1)).toEqual({ createdAt: null });
+  });
+
+  it("leaves rows untouched without a schema", () => {
+    const rows = [{ anything: [1, 2] }];
+    expect(applyOutputSchema(rows, [])).toBe(rows);
+  });
+});
+
+describe("checkOutputSchema", () => {
+  it("reports unselected fields and evident type mismatches", () => {
+    const query: Query = {
+      select: [
+        { alias: "a.text", value: { type: "literal", integerValue: 1 } },
+        {
+          alias: "ayeCount",
+          value: {
+            type: "comparison",
+            op: "gt",
+            left: { type: "fieldRef", source: "a", field: "ayes" },
+            right: { type: "literal", integerValue: 0 },
+          },
+        },
+        {
+          alias: "a.createdAt",
+          value: { type: "fieldRef", source: "a", field: "createdAt" },
+        },
+      ],
+      from: { alias: "a", collection: "chat.pirate.avast" },
+    };
+    expect(checkOutputSchema(query, SCHEMA)).toEqual([
+      "Output field ayeCount is declared integer but the query selects boolean",
+      "Output field a.tags is not selected by the query",
+      "Output field a.author is not selected by the query",
+    ]);
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect } from "vitest";
+import type { Expression, Query } from "@avaast/shared";
+import { RecordStore } from "../store/record-store.js";
+import { LocalDataSource } from "../query/sources.js";
+import { QueryEngine } from "../query/engine.js";
+import { InvalidParamsError } from "../query/params.js";
+import { decodeCursor, encodeCursor } from "../query/pagination.js";
+
+const DID = "did:plc:ewvi7nxzyoun6zhxrhs64oiz";
+const AVAST = "chat.pirate.avast";
+
+const field = (source: string, name: string): Expression => ({
+  type: "fieldRef",
+  source,
+  field: name,
+});
+
+/** Avasts with runs of tied ranks, mixed types and nulls */
+const AVASTS: Array<[rkey: string, value: Record<string, unknown>]> = [
+  ["a1", { text: "one", rank: 2 }],
+  ["a2", { text: "two", rank: 1 }],
+  ["a3", { text: "three", rank: 2 }],
+  ["a4", { text: "four", rank: null }],
+  ["a5", { text: "five", rank: 2 }],
+  ["a6", { text: "six", rank: "x" }],
+  ["a7", { text: "seven", rank: 1 }],
+  ["a8", { text: "eight" }],
+  ["a9", { text: "nine", rank: false }],
+];
+
+function setup(): { store: RecordStore; sql: QueryEngine; memory: QueryEngine } {
+  const store = new RecordStore(":memory:");
+  for (const [rkey, value] of AVASTS) {
+    store.putRecord(DID, AVAST, rkey, `cid-${rkey}`, value);
+  }
+  store.markBackfilled(DID, AVAST);
+  const dataSource = new LocalDataSource(store, {
+    async *iterateRecords() {
+      throw new Error("The mirror is already backfilled");
+    },
+  });
+  return {
+    store,
+    sql: new QueryEngine({ dataSource, defaultDid: DID }),
+    memory: new QueryEngine({
+      dataSource: {
+        fetchRecords: (source, did) => dataSource.fetchRecords(source, did),
+      },
+      defaultDid: DID,
+    }),
+  };
+}
+
+function byRank(direction: "asc" | "desc", nulls?: "first" | "last"): Query {
+  return {
+    select: [
+      { alias: "a.text", value: field("a", "text") },
+      { alias: "a.rank", value: field("a", "rank") },
+    ],
+    from: { alias: "a", collection: AVAST },
+    orderBy: [{ value: field("a", "rank"), direction, nulls }],
+  };
+}
+
+/** Follow cursors to the last page, returning each page's texts */
+async function pages(engine: QueryEngine, query: Query, limit: number): Promise<string[][]> {
+  const texts: string[][] = [];
+  let cursor: string | undefined;
+  do {
+    const result = await engine.execute(query, {}, {
+      page: { limit, after: cursor ? decodeCursor(cursor) : undefined },
+    });
+    texts.push(result.results.map((r) => (r as Record<string, string>)["a.text"]!));
+    cursor = result.cursor;
+  } while (cursor);
+  return texts;
+}
+
+describe("keyset pagination", () => {
+  it("round-trips cursors and rejects malformed ones", () => {
+    const keys = [2, "x", null, true, { level: 1 }, `at://${DID}/${AVAST}/a1`];
+    expect(decodeCursor(encodeCursor({ keys }))).toEqual({ keys });
+
+    for (const cursor of ["not base64 json", encodeCursor({ keys }).slice(3), "e30"]) {
+      expect(() => decodeCursor(cursor)).toThrow(InvalidParamsError);
+    }
+  });
+
+  it("pages through ties in SQL and in memory alike", async () => {
+    const { sql, memory } = setup();
+    for (const direction of ["asc", "desc"] as const) {
+      for (const nulls of ["first", "last"] as const) {
+        const query = byRank(direction, nulls);
+        const pushed = await pages(sql, query, 2);
+        expect(pushed.flat()).toHaveLength(AVASTS.length);
+        expect(pushed.flat()).toEqual(
+          (await sql.execute(query)).results.map((r) => (r as Record<string, string>)["a.text"]),
+        );
+        expect(await pages(memory, query, 2)).toEqual(pushed);
+      }
+    }
+  });
+
+  it("keys groups on their groupBy keys", async () => {
+    const { sql, memory } = setup();
+    const query: Query = {
+      select: [
+        { alias: "a.rank", value: field("a", "rank") },
+        {
+          alias: "a.count",
+          value: { type: "builtinCall", name: "count", args: [field("a", "_uri")] },
+        },
+      ],
+      from: { alias: "a", collection: AVAST },
+      groupBy: [field("a", "rank")],
+      orderBy: [{ value: field("a", "count"), direction: "desc" }],
+    };
+    const ranks = async (engine: QueryEngine) => {
+      const all: unknown[] = [];
+      let cursor: string | undefined;
+      do {
+        const result = await engine.execute(query, {}, {
+          page: { limit: 2, after: cursor ? decodeCursor(cursor) : undefined },
+        });
+        all.push(...result.results.map((r) => (r as Record<string, unknown>)["a.rank"]));
+        cursor = result.cursor;
+      } while (cursor);
+      return all;
+    };
+    // Groups tied on their count follow their key; missing ranks group as null
+    expect(await ranks(sql)).toEqual([2, 1, null, false, "x"]);
+    expect(await ranks(memory)).toEqual([2, 1, null, false, "x"]);
+  });
+
+  it("pushes the cursor condition and page limit down to SQL", async () => {
+    const { sql } = setup();
+    const first = await sql.execute(byRank("asc"), {}, { page: { limit: 3 } });
+    const { plan } = await sql.explain(byRank("asc"), {}, {
+      page: { limit: 3, after: decodeCursor(first.cursor!) },
+    });
+    const step = plan.pipeline[0]!;
+    expect(step.type).toBe("sql");
+    expect(step.type === "sql" && step.sql).toMatch(/ WHERE .* IS NULL\).* LIMIT @p\d+$/);
+    // Row keys are selected only to build the cursor
+    expect(first.results[0]).toEqual({ "a.text": "nine", "a.rank": false });
+  });
+
+  it("neither repeats nor skips rows inserted or deleted between pages", async () => {
+    for (const engine of ["sql", "memory"] as const) {
+      const setupResult = setup();
+      const { store } = setupResult;
+      const query = byRank("asc");
+
+      const first = await setupResult[engine].execute(query, {}, { page: { limit: 3 } });
+      expect(first.results.map((r) => (r as Record<string, string>)["a.text"])).toEqual([
+        "nine",
+        "two",
+        "seven",
+      ]);
+
+      // Delete the page's last row and one before it, and add rows tied
+      // with and sorting before the cursor
+      store.deleteRecord(DID, AVAST, "a7");
+      store.deleteRecord(DID, AVAST, "a2");
+      store.putRecord(DID, AVAST, "a0", "cid-a0", { text: "zero", rank: 1 });
+      store.putRecord(DID, AVAST, "b1", "cid-b1", { text: "late", rank: 1 });
+      store.deleteRecord(DID, AVAST, "a3");
+
+      const second = await setupResult[engine].execute(query, {}, {
+        page: { limit: 10, after: decodeCursor(first.cursor!) },
+      });
+      expect(second.results.map((r) => (r as Record<string, string>)["a.text"])).toEqual([
+        "late",
+        "one",
+        "five",
+        "six",
+        "four",
+        "eight",
+      ]);
+      expect(second.cursor).toBeUndefined();
+    }
+  });
+
+  it("rejects cursors of another query", async () => {
+    const { memory } = setup();
+    await expect(
+      memory.execute(byRank("asc"), {}, { page: { limit: 2, after: { keys: [1] } } }),
+    ).rejects.toThrow(InvalidParamsError);
+  });
+});
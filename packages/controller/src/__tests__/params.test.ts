@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import type { QueryParameter } from "@avaast/shared";
+import { coerceParams, InvalidParamsError } from "../query/params.js";
+
+const DECLARED: QueryParameter[] = [
+  { name: "author", type: "string", required: true },
+  { name: "limit", type: "integer", defaultValue: "20" },
+  { name: "minScore", type: "float" },
+  { name: "includeReplies", type: "boolean", defaultValue: "false" },
+];
+
+describe("coerceParams", () => {
+  it("coerces values to their declared types and fills in defaults", () => {
+    expect(
+      coerceParams(DECLARED, { author: "did:plc:abc", minScore: "2.5" }),
+    ).toEqual({
+      author: "did:plc:abc",
+      limit: 20,
+      minScore: 2.5,
+      includeReplies: false,
+    });
+    expect(
+      coerceParams(DECLARED, { author: "x", limit: "-3", includeReplies: "true" }),
+    ).toMatchObject({ limit: -3, includeReplies: true });
+  });
+
+  it("rejects unknown, missing and malformed parameters", () => {
+    expect(() => coerceParams(DECLARED, { author: "x", page: "2" })).toThrow(
+      /Unknown parameter: page/,
+    );
+    expect(() => coerceParams(DECLARED, {})).toThrow(
+      /Missing required parameter: author/,
+    );
+    for (const [name, value] of [
+      ["limit", "1.5"],
+      ["limit", "9007199254740993"],
+      ["minScore", " "],
+      ["minScore", "Infinity"],
+      ["includeReplies", "yes"],
+    ]) {
+      expect(() => coerceParams(DECLARED, { author: "x", [name!]: value! })).toThrow(
+        InvalidParamsError,
+      );
+    }
+  });
+
+  it("passes every parameter through as a string without declarations", () => {
+    expect(coerceParams(undefined, { limit: "5" })).toEqual({ limit: "5" });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { RecordStore } from "../store/record-store.js";
+import { LocalDataSource } from "../query/sources.js";
+
+const DID = "did:plc:ewvi7nxzyoun6zhxrhs64oiz";
+const AVAST = "chat.pirate.avast";
+
+describe("RecordStore", () => {
+  const dirs: string[] = [];
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("forgets backfill marks when reopened", () => {
+    const dir = mkdtempSync(join(tmpdir(), "record-store-"));
+    dirs.push(dir);
+    const path = join(dir, "records.db");
+
+    const store = new RecordStore(path);
+    store.putRecord(DID, AVAST, "1", "cid1", { text: "Ahoy!" });
+    store.markBackfilled(DID, AVAST);
+    expect(store.isBackfilled(DID, AVAST)).toBe(true);
+    store.close();
+
+    const reopened = new RecordStore(path);
+    expect(reopened.isBackfilled(DID, AVAST)).toBe(false);
+    expect(reopened.listRecords(DID, AVAST)).toHaveLength(1);
+    reopened.close();
+  });
+
+  it("keeps updates and deletes applied during a backfill", () => {
+    const store = new RecordStore(":memory:");
+    const uri = (rkey: string) => `at://${DID}/${AVAST}/${rkey}`;
+
+    store.beginBackfill(DID, AVAST);
+    store.putRecords(DID, AVAST, [{ uri: uri("1"), cid: "old1", value: { text: "listed" } }]);
+    // Events newer than the pages still being listed
+    store.applyEvent({
+      type: "update",
+      did: DID,
+      collection: AVAST,
+      rkey: "1",
+      cid: "new1",
+      record: { text: "updated" },
+    });
+    store.applyEvent({ type: "delete", did: DID, collection: AVAST, rkey: "2" });
+    store.putRecords(DID, AVAST, [
+      { uri: uri("1"), cid: "old1", value: { text: "listed" } },
+      { uri: uri("2"), cid: "old2", value: { text: "deleted" } },
+      { uri: uri("3"), cid: "old3", value: { text: "untouched" } },
+    ]);
+    store.markBackfilled(DID, AVAST);
+
+    expect(store.listRecords(DID, AVAST)).toEqual([
+      { uri: uri("1"), cid: "new1", value: { text: "updated" } },
+      { uri: uri("3"), cid: "old3", value: { text: "untouched" } },
+    ]);
+
+    // Once backfilled, later listings are no longer filtered
+    store.beginBackfill(DID, AVAST);
+    store.putRecords(DID, AVAST, [{ uri: uri("2"), cid: "cid2", value: { text: "back" } }]);
+    store.markBackfilled(DID, AVAST);
+    expect(store.listRecords(DID, AVAST).map((r) => r.cid)).toEqual(["cid2"]);
+    store.close();
+  });
+});
+
+describe("LocalDataSource", () => {
+  it("follows a repo before listing it, keeping events newer than the listing", async () => {
+    const store = new RecordStore(":memory:");
+    const uri = (rkey: string) => `at://${DID}/${AVAST}/${rkey}`;
+    const calls: string[] = [];
+    let followed!: () => void;
+    const dataSource = new LocalDataSource(
+      store,
+      {
+        async *iterateRecords(did, collection) {
+          calls.push("list");
+          // An event of the followed repo arrives while it is listed
+          store.applyEvent({
+            type: "update",
+            did,
+            collection,
+            rkey: "1",
+            cid: "new1",
+            record: { text: "updated" },
+          });
+          yield { uri: uri("1"), cid: "old1", value: { text: "listed" } };
+        },
+      },
+      {
+        onBackfill: (did, collection) => {
+          calls.push(`follow ${did} ${collection}`);
+          return new Promise<void>((resolve) => {
+            followed = resolve;
+          });
+        },
+      },
+    );
+
+    const fetching = dataSource.fetchRecords({ alias: "a", collection: AVAST }, DID);
+    await vi.waitFor(() => expect(calls).toEqual([`follow ${DID} ${AVAST}`]));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(calls).toHaveLength(1);
+
+    followed();
+    expect(await fetching).toEqual([{ text: "updated", _uri: uri("1"), _cid: "new1" }]);
+    expect(calls).toEqual([`follow ${DID} ${AVAST}`, "list"]);
+    store.close();
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, afterEach } from "vitest";
+import type { SearchIndexRecord } from "@avaast/shared";
+import { SearchEngine } from "../search/engine.js";
+
+const DID = "did:plc:ewvi7nxzyoun6zhxrhs64oiz";
+const AVAST = "chat.pirate.avast";
+
+const AVASTS: Array<[rkey: string, value: Record<string, unknown>]> = [
+  ["a1", { text: "ahoy matey", author: "jack", rank: 2, createdAt: "2026-01-01T00:00:00Z" }],
+  ["a2", { text: "ahoy there", author: "anne", rank: 1, createdAt: "2026-01-02T00:00:00Z" }],
+  ["a3", { text: "ahoy ahoy", author: "jack", rank: "2", createdAt: "2026-01-03T00:00:00Z" }],
+  ["a4", { text: "avast ye", author: "jack", rank: 3, createdAt: "2026-01-04T00:00:00Z" }],
+  ["a5", { text: "ahoy again", author: "jack", ship: { name: "pearl" } }],
+];
+
+function index(fulltext: boolean): SearchIndexRecord {
+  return {
+    name: "avasts",
+    source: { alias: "a", collection: AVAST },
+    fields: [
+      { name: "text", path: "text", indexType: fulltext ? "fulltext" : "keyword" },
+      { name: "author", path: "author", indexType: "keyword" },
+      { name: "posted", path: "createdAt", indexType: "datetime" },
+    ],
+    parameters: [
+      { name: "q", type: "query" },
+      { name: "author", type: "filter" },
+      { name: "rank", type: "filter" },
+      { name: "posted", type: "filter" },
+      { name: "ship", type: "filter", field: "ship.name" },
+    ],
+    outputSchema: [],
+    createdAt: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+describe("SearchEngine filters", () => {
+  let engine: SearchEngine;
+
+  function indexed(fulltext: boolean): SearchEngine {
+    engine = new SearchEngine({ dbPath: ":memory:" });
+    engine.registerIndex("avasts", index(fulltext));
+    for (const [rkey, value] of AVASTS) {
+      engine
+        .getIndexer()
+        .onRecordChange(AVAST, `at://${DID}/${AVAST}/${rkey}`, `cid-${rkey}`, value, false);
+    }
+    return engine;
+  }
+
+  const texts = (results: unknown[]) =>
+    results.map((r) => (r as Record<string, unknown>).text).sort();
+
+  afterEach(() => {
+    engine.close();
+  });
+
+  it("page through the matches that pass the filters", async () => {
+    const search = indexed(true);
+    const all = await search.search({
+      indexName: "avasts",
+      query: "ahoy",
+      filters: { author: "jack" },
+    });
+    expect(texts(all.results)).toEqual(["ahoy again", "ahoy ahoy", "ahoy matey"]);
+    expect(all.totalCount).toBe(3);
+
+    const pages = [];
+    for (let offset = 0; offset < 3; offset++) {
+      const page = await search.search({
+        indexName: "avasts",
+        query: "ahoy",
+        filters: { author: "jack" },
+        limit: 1,
+        offset,
+      });
+      expect(page.results).toHaveLength(1);
+      expect(page.totalCount).toBe(3);
+      pages.push(...page.results);
+    }
+    expect(texts(pages)).toEqual(texts(all.results));
+  });
+
+  it("compare filter values as queries compare them", async () => {
+    const search = indexed(true);
+    const matching = async (filters: Record<string, string>) =>
+      texts((await search.search({ indexName: "avasts", query: "ahoy", filters })).results);
+
+    // "2" equals the number 2 as well as the string
+    expect(await matching({ rank: "2" })).toEqual(["ahoy ahoy", "ahoy matey"]);
+    // Datetime fields compare as instants
+    expect(await matching({ posted: "2026-01-02T00:00:00.000Z" })).toEqual(["ahoy there"]);
+    // A parameter's field may name a record path
+    expect(await matching({ ship: "pearl", author: "jack" })).toEqual(["ahoy again"]);
+    expect(await matching({ author: "davy" })).toEqual([]);
+  });
+
+  it("filter keyword searches too", async () => {
+    const search = indexed(false);
+    const { results, totalCount } = await search.search({
+      indexName: "avasts",
+      query: "ahoy",
+      filters: { author: "anne" },
+    });
+    expect(texts(results)).toEqual(["ahoy there"]);
+    expect(totalCount).toBe(1);
+  });
+
+  it("reject filters the index does not declare", async () => {
+    const search = indexed(true);
+    await expect(
+      search.search({ indexName: "avasts", query: "ahoy", filters: { sailor: "jack" } }),
+    ).rejects.toThrow("Unknown filter for index avasts: sailor");
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import type { Expression, Query, SetOperation } from "@avaast/shared";
+import { RecordStore } from "../store/record-store.js";
+import { LocalDataSource } from "../query/sources.js";
+import { QueryEngine } from "../query/engine.js";
+
+const DID = "did:plc:ewvi7nxzyoun6zhxrhs64oiz";
+const AVAST = "chat.pirate.avast";
+const AYE = "chat.pirate.aye";
+
+const field = (source: string, name: string): Expression => ({
+  type: "fieldRef",
+  source,
+  field: name,
+});
+
+function engine(): QueryEngine {
+  const store = new RecordStore(":memory:");
+  for (const [collection, records] of [
+    [AVAST, [["a1", { author: "jack" }], ["a2", { author: "anne" }], ["a3", { author: "jack" }]]],
+    [AYE, [["y1", { author: "anne" }], ["y2", { author: "mary" }], ["y3", { author: "mary" }]]],
+  ] as const) {
+    for (const [rkey, value] of records) {
+      store.putRecord(DID, collection, rkey, `cid-${rkey}`, value);
+    }
+    store.markBackfilled(DID, collection);
+  }
+  const dataSource = new LocalDataSource(store, {
+    async *iterateRecords() {
+      throw new Error("The mirror is already backfilled");
+    },
+  });
+  return new QueryEngine({ dataSource, defaultDid: DID });
+}
+
+/** Authors of avasts combined with authors of ayes */
+async function authors(
+  op: SetOperation["op"],
+  extra: Partial<Query> = {},
+): Promise<unknown[]> {
+  const { results } = await engine().execute({
+    select: [{ alias: "who.author", value: field("a", "author") }],
+    from: { alias: "a", collection: AVAST },
+    setOperations: [
+      {
+        op,
+        query: {
+          select: [{ alias: "author", value: field("y", "author") }],
+          from: { alias: "y", collection: AYE },
+        },
+      },
+    ],
+    ...extra,
+  });
+  // Columns take the first query's aliases
+  return results.map((r) => (r as Record<string, unknown>)["who.author"]);
+}
+
+describe("set operations", () => {
+  it("combine rows with union, unionAll, intersect and except", async () => {
+    expect(await authors("unionAll")).toEqual(["jack", "anne", "jack", "anne", "mary", "mary"]);
+    expect(await authors("union")).toEqual(["jack", "anne", "mary"]);
+    expect(await authors("intersect")).toEqual(["anne"]);
+    expect(await authors("except")).toEqual(["jack"]);
+  });
+
+  it("order and limit the combined result", async () => {
+    expect(
+      await authors("union", {
+        orderBy: [{ value: field("who", "author"), direction: "desc" }],
+        limit: 2,
+      }),
+    ).toEqual(["mary", "jack"]);
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect } from "vitest";
+import type { Expression, Query } from "@avaast/shared";
+import { RecordStore } from "../store/record-store.js";
+import { LocalDataSource } from "../query/sources.js";
+import { QueryEngine } from "../query/engine.js";
+
+const DID = "did:plc:ewvi7nxzyoun6zhxrhs64oiz";
+const AVAST = "chat.pirate.avast";
+const AYE = "chat.pirate.aye";
+
+const field = (source: string, name: string): Expression => ({
+  type: "fieldRef",
+  source,
+  field: name,
+});
+
+/** Avasts whose `rank` mixes types, nulls, ties and non-ASCII text */
+const AVASTS: Array<[rkey: string, value: Record<string, unknown>]> = [
+  ["a1", { text: "Ahoy", rank: 10 }],
+  ["a2", { text: "arr", rank: "9" }],
+  ["a3", { text: "Élan", rank: "Zed" }],
+  ["a4", { text: "zebra", rank: "zed" }],
+  ["a5", { text: "yo", rank: true }],
+  ["a6", { text: "ho", rank: null }],
+  ["a7", { text: "hey" }],
+  ["a8", { text: "tie", rank: 2 }],
+  ["a9", { text: "tie", rank: 2 }],
+  ["b1", { text: "😀", rank: "￿" }],
+  ["b2", { text: "obj", rank: { level: 1 } }],
+  ["b3", { text: "ten", rank: 10.5 }],
+  ["b4", { text: "grin", rank: "😀" }],
+];
+
+const AYES: Array<[rkey: string, value: Record<string, unknown>]> = [
+  ["y1", { avast: `at://${DID}/${AVAST}/a8`, weight: 3 }],
+  ["y2", { avast: `at://${DID}/${AVAST}/a1`, weight: 1 }],
+  ["y3", { avast: `at://${DID}/${AVAST}/a8`, weight: 3 }],
+  ["y4", { avast: `at://${DID}/${AVAST}/gone`, weight: 2 }],
+];
+
+function engines(): { sql: QueryEngine; memory: QueryEngine } {
+  const store = new RecordStore(":memory:");
+  for (const [collection, records] of [
+    [AVAST, AVASTS],
+    [AYE, AYES],
+  ] as const) {
+    for (const [rkey, value] of records) {
+      store.putRecord(DID, collection, rkey, `cid-${rkey}`, value);
+    }
+    store.markBackfilled(DID, collection);
+  }
+  const dataSource = new LocalDataSource(store, {
+    async *iterateRecords() {
+      throw new Error("The mirror is already backfilled");
+    },
+  });
+  return {
+    sql: new QueryEngine({ dataSource, defaultDid: DID }),
+    // Without querySql every step runs in memory
+    memory: new QueryEngine({
+      dataSource: {
+        fetchRecords: (source, did) => dataSource.fetchRecords(source, did),
+      },
+      defaultDid: DID,
+    }),
+  };
+}
+
+/** Run a query both ways, check it pushed down and return its results */
+async function bothWays(
+  query: Query,
+  params: Record<string, unknown> = {},
+): Promise<unknown[]> {
+  const { sql, memory } = engines();
+  const { plan } = await sql.explain(query, params);
+  expect(plan.pipeline.some((step) => step.type === "sql")).toBe(true);
+
+  const pushed = await sql.execute(query, params);
+  const inMemory = await memory.execute(query, params);
+  expect(pushed.results).toEqual(inMemory.results);
+  return pushed.results;
+}
+
+const TEXT_AND_RANK: Query["select"] = [
+  { alias: "a._uri", value: field("a", "_uri") },
+  { alias: "a.text", value: field("a", "text") },
+  { alias: "a.rank", value: field("a", "rank") },
+];
+
+describe("SQL pushdown", () => {
+  it("orders mixed types, nulls and ties the way the in-memory sort does", async () => {
+    for (const direction of ["asc", "desc"] as const) {
+      for (const nulls of ["first", "last"] as const) {
+        const results = await bothWays({
+          select: TEXT_AND_RANK,
+          from: { alias: "a", collection: AVAST },
+          orderBy: [{ value: field("a", "rank"), direction, nulls }],
+        });
+        expect(results).toHaveLength(AVASTS.length);
+      }
+    }
+
+    const ascending = await bothWays({
+      select: TEXT_AND_RANK,
+      from: { alias: "a", collection: AVAST },
+      orderBy: [{ value: field("a", "rank"), direction: "asc" }],
+    });
+    // Numbers, then strings by code point (objects as JSON text), then nulls
+    expect(ascending.map((r) => (r as Record<string, unknown>)["a.text"])).toEqual(
+      ["yo", "tie", "tie", "Ahoy", "ten", "arr", "Élan", "zebra", "obj", "😀", "grin", "ho", "hey"],
+    );
+  });
+
+  it("breaks ties by record order when only part of the query pushes down", async () => {
+    await bothWays({
+      select: TEXT_AND_RANK,
+      from: { alias: "a", collection: AVAST },
+      // `in` has no SQL translation, so the sort runs in memory on SQL rows
+      where: {
+        type: "comparison",
+        op: "in",
+        left: field("a", "text"),
+        right: {
+          type: "literal",
+          arrayValue: ["tie", "yo", "hey"].map((stringValue) => ({
+            type: "literal",
+            stringValue,
+          })),
+        },
+      },
+      orderBy: [{ value: field("a", "text"), direction: "asc" }],
+    });
+  });
+
+  it("agrees on filters, limits and parameters", async () => {
+    const results = await bothWays(
+      {
+        select: TEXT_AND_RANK,
+        from: { alias: "a", collection: AVAST },
+        where: {
+          type: "comparison",
+          op: "gte",
+          left: field("a", "rank"),
+          right: field("$params", "min"),
+        },
+        orderBy: [{ value: field("a", "text"), direction: "desc" }],
+        limit: 3,
+      },
+      { min: 2 },
+    );
+    expect(results).toHaveLength(3);
+  });
+
+  it("reads arithmetic operands as numbers", async () => {
+    const rank = field("a", "rank");
+    const one: Expression = { type: "literal", integerValue: 1 };
+    const two: Expression = { type: "literal", integerValue: 2 };
+    const results = await bothWays({
+      select: [
+        { alias: "a.text", value: field("a", "text") },
+        { alias: "a.next", value: { type: "arithmeticOp", op: "add", left: rank, right: one } },
+        { alias: "a.half", value: { type: "arithmeticOp", op: "divide", left: rank, right: two } },
+      ],
+      from: { alias: "a", collection: AVAST },
+      orderBy: [{ value: field("a", "_uri"), direction: "asc" }],
+    });
+    // Numeric strings and booleans count as numbers; other values make null
+    expect(results.slice(0, 5)).toEqual([
+      { "a.text": "Ahoy", "a.next": 11, "a.half": 5 },
+      { "a.text": "arr", "a.next": 10, "a.half": 4.5 },
+      { "a.text": "Élan", "a.next": null, "a.half": null },
+      { "a.text": "zebra", "a.next": null, "a.half": null },
+      { "a.text": "yo", "a.next": 2, "a.half": 0.5 },
+    ]);
+  });
+
+  it("agrees on outer joins and grouped counts", async () => {
+    for (const joinType of ["left", "right", "full"] as const) {
+      await bothWays({
+        select: [
+          { alias: "a.text", value: field("a", "text") },
+          { alias: "y.weight", value: field("y", "weight") },
+        ],
+        from: { alias: "a", collection: AVAST },
+        joins: [
+          {
+            joinType,
+            source: { alias: "y", collection: AYE },
+            on: {
+              type: "comparison",
+              op: "eq",
+              left: field("y", "avast"),
+              right: field("a", "_uri"),
+            },
+          },
+        ],
+      });
+    }
+
+    const grouped = await bothWays({
+      select: [
+        { alias: "y.weight", value: field("y", "weight") },
+        {
+          alias: "y.count",
+          value: { type: "builtinCall", name: "count", args: [field("y", "_uri")] },
+        },
+      ],
+      from: { alias: "y", collection: AYE },
+      groupBy: [field("y", "weight")],
+      orderBy: [{ value: field("y", "count"), direction: "asc" }],
+    });
+    // Groups tied on the count keep the order of their first record
+    expect(grouped).toEqual([
+      { "y.weight": 1, "y.count": 1 },
+      { "y.weight": 2, "y.count": 1 },
+      { "y.weight": 3, "y.count": 2 },
+    ]);
+  });
+});
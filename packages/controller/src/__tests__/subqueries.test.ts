@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { Expression, Query } from "@avaast/shared";
+import { RecordStore } from "../store/record-store.js";
+import { LocalDataSource } from "../query/sources.js";
+import { QueryEngine } from "../query/engine.js";
+
+const DID = "did:plc:ewvi7nxzyoun6zhxrhs64oiz";
+const AVAST = "chat.pirate.avast";
+const AYE = "chat.pirate.aye";
+
+const field = (source: string, name: string): Expression => ({
+  type: "fieldRef",
+  source,
+  field: name,
+});
+
+const uri = (rkey: string) => `at://${DID}/${AVAST}/${rkey}`;
+
+const AVASTS: Array<[rkey: string, value: Record<string, unknown>]> = [
+  ["a1", { author: "jack", text: "ahoy", createdAt: "2026-01-01T00:00:00Z" }],
+  ["a2", { author: "anne", text: "arr", createdAt: "2026-01-02T00:00:00Z" }],
+  ["a3", { author: "jack", text: "avast", createdAt: "2026-01-03T00:00:00Z" }],
+  ["a4", { author: "mary", text: "yo", createdAt: "2026-01-04T00:00:00Z" }],
+];
+
+const AYES: Array<[rkey: string, value: Record<string, unknown>]> = [
+  ["y1", { author: "anne", avast: uri("a1") }],
+  ["y2", { author: "anne", avast: uri("a3") }],
+  ["y3", { author: "jack", avast: uri("a2") }],
+  ["y4", { author: null, avast: uri("a3") }],
+];
+
+function engine(): QueryEngine {
+  const store = new RecordStore(":memory:");
+  for (const [collection, records] of [
+    [AVAST, AVASTS],
+    [AYE, AYES],
+  ] as const) {
+    for (const [rkey, value] of records) {
+      store.putRecord(DID, collection, rkey, `cid-${rkey}`, value);
+    }
+    store.markBackfilled(DID, collection);
+  }
+  const dataSource = new LocalDataSource(store, {
+    async *iterateRecords() {
+      throw new Error("The mirror is already backfilled");
+    },
+  });
+  return new QueryEngine({ dataSource, defaultDid: DID });
+}
+
+async function texts(query: Omit<Query, "select">): Promise<unknown[]> {
+  const { results } = await engine().execute({
+    select: [{ alias: "a.text", value: field("a", "text") }],
+    ...query,
+  });
+  return results.map((r) => (r as Record<string, unknown>)["a.text"]);
+}
+
+const AYERS: Query = {
+  select: [{ alias: "y.author", value: field("y", "author") }],
+  from: { alias: "y", collection: AYE },
+};
+
+describe("subqueries", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("match values of a nested query with in and notIn", async () => {
+    const where = (op: "in" | "notIn"): Expression => ({
+      type: "comparison",
+      op,
+      left: field("a", "author"),
+      right: { type: "subquery", query: AYERS },
+    });
+    expect(await texts({ from: { alias: "a", collection: AVAST }, where: where("in") })).toEqual([
+      "ahoy",
+      "arr",
+      "avast",
+    ]);
+    // An ayer without an author makes notIn unknown, as in SQL
+    expect(
+      await texts({ from: { alias: "a", collection: AVAST }, where: where("notIn") }),
+    ).toEqual([]);
+  });
+
+  it("read the enclosing row in a correlated exists", async () => {
+    const ayed: Expression = {
+      type: "exists",
+      query: {
+        ...AYERS,
+        where: {
+          type: "comparison",
+          op: "eq",
+          left: field("y", "avast"),
+          right: field("a", "_uri"),
+        },
+      },
+    };
+    expect(await texts({ from: { alias: "a", collection: AVAST }, where: ayed })).toEqual([
+      "ahoy",
+      "arr",
+      "avast",
+    ]);
+    expect(
+      await texts({
+        from: { alias: "a", collection: AVAST },
+        where: { type: "logicalOp", op: "not", operands: [ayed] },
+      }),
+    ).toEqual(["yo"]);
+  });
+
+  it("fetch a correlated query's sources once for all its keys", async () => {
+    const querySql = vi.spyOn(LocalDataSource.prototype, "querySql");
+    const fetchRecords = vi.spyOn(LocalDataSource.prototype, "fetchRecords");
+    const ayeReads = () =>
+      [
+        ...querySql.mock.calls.map(([sources]) => sources[0]),
+        ...fetchRecords.mock.calls.map(([source]) => source),
+      ].filter((source) => source?.collection === AYE).length;
+
+    const counted: Expression = {
+      type: "subquery",
+      query: {
+        select: [{ alias: "y.count", value: { type: "builtinCall", name: "count", args: [] } }],
+        from: { alias: "y", collection: AYE },
+        where: {
+          type: "comparison",
+          op: "eq",
+          left: field("y", "avast"),
+          right: field("a", "_uri"),
+        },
+        groupBy: [field("y", "avast")],
+      },
+    };
+    const { results } = await engine().execute({
+      select: [
+        { alias: "a.text", value: field("a", "text") },
+        { alias: "a.ayes", value: counted },
+      ],
+      from: { alias: "a", collection: AVAST },
+      orderBy: [{ value: field("a", "text"), direction: "asc" }],
+    });
+    expect(results).toEqual([
+      { "a.text": "ahoy", "a.ayes": [1] },
+      { "a.text": "arr", "a.ayes": [1] },
+      { "a.text": "avast", "a.ayes": [2] },
+      { "a.text": "yo", "a.ayes": [] },
+    ]);
+    // Four avasts, four keys, one read of the ayes
+    expect(ayeReads()).toBe(1);
+  });
+
+  it("read CTEs and derived tables as sources", async () => {
+    // The latest avast of each author, through a CTE numbering them
+    const { results } = await engine().execute({
+      with: [
+        {
+          name: "numbered",
+          query: {
+            select: [
+              { alias: "text", value: field("n", "text") },
+              {
+                alias: "position",
+                value: {
+                  type: "windowCall",
+                  name: "row_number",
+                  args: [],
+                  partitionBy: [field("n", "author")],
+                  orderBy: [{ value: field("n", "createdAt"), direction: "desc" }],
+                },
+              },
+            ],
+            from: { alias: "n", collection: AVAST },
+          },
+        },
+      ],
+      select: [{ alias: "latest.text", value: field("latest", "text") }],
+      from: {
+        alias: "latest",
+        query: {
+          select: [{ alias: "text", value: field("l", "text") }],
+          from: { alias: "l", cte: "numbered" },
+          where: {
+            type: "comparison",
+            op: "eq",
+            left: field("l", "position"),
+            right: { type: "literal", integerValue: 1 },
+          },
+        },
+      },
+      orderBy: [{ value: field("latest", "text"), direction: "asc" }],
+    });
+    expect(results).toEqual([
+      { "latest.text": "arr" },
+      { "latest.text": "avast" },
+      { "latest.text": "yo" },
+    ]);
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { createHash } from "node:crypto";
+import { P256Keypair, Secp256k1Keypair, type Keypair } from "@atproto/crypto";
+import * as dagCbor from "@ipld/dag-cbor";
+import { CID as IpldCid } from "multiformats/cid";
+import { create as digest } from "multiformats/hashes/digest";
+import { CID } from "../watcher/cbor.js";
+import type { FirehoseMessage } from "../watcher/firehose.js";
+import { CommitVerifier } from "../watcher/verify.js";
+import { PDS_COMMIT } from "./fixtures/pds-commit.js";
+
+const DID = "did:plc:ewvi7nxzyoun6zhxrhs64oiz";
+
+type Commit = FirehoseMessage & { type: "#commit" };
+
+function cidOf(bytes: Uint8Array): IpldCid {
+  return IpldCid.createV1(dagCbor.code, digest(0x12, createHash("sha256").update(bytes).digest()));
+}
+
+/** A CID, or its string form, as the watcher's CID */
+const watcherCid = (cid: IpldCid | string): CID =>
+  new CID((typeof cid === "string" ? IpldCid.parse(cid) : cid).bytes);
+
+/** A key pair's public key as a `publicKeyMultibase` */
+const multikey = (keypair: Keypair): string => keypair.did().slice("did:key:".length);
+
+/**
+ * A signed commit whose tree holds an avast at `aaa` and one at `ccc`,
+ * with the record block for `aaa`
+ */
+async function signedCommit(keypair: Keypair): Promise<{
+  message: Commit;
+  record: CID;
+}> {
+  const blocks = new Map<string, Uint8Array>();
+  const put = (value: unknown): IpldCid => {
+    const bytes = dagCbor.encode(value);
+    const cid = cidOf(bytes);
+    blocks.set(cid.toString(), bytes);
+    return cid;
+  };
+
+  const record = put({ $type: "chat.pirate.avast", text: "Ahoy!" });
+  const other = cidOf(dagCbor.encode({ $type: "chat.pirate.avast", text: "Arr" }));
+  const root = put({
+    l: null,
+    e: [
+      { p: 0, k: Buffer.from("chat.pirate.avast/aaa"), v: record, t: null },
+      { p: 18, k: Buffer.from("ccc"), v: other, t: null },
+    ],
+  });
+  const unsigned = { did: DID, version: 3, data: root, rev: "3lbqzydjdak2c", prev: null };
+  const commit = put({ ...unsigned, sig: await keypair.sign(dagCbor.encode(unsigned)) });
+
+  return {
+    record: watcherCid(record),
+    message: {
+      type: "#commit",
+      seq: 1,
+      repo: DID,
+      rev: "3lbqzydjdak2c",
+      time: "2026-01-01T00:00:00.000Z",
+      commit: watcherCid(commit),
+      tooBig: false,
+      ops: [],
+      blocks,
+    },
+  };
+}
+
+/** The commit in PDS_COMMIT as the firehose carries it, creating `path` */
+function pdsCommit(): Commit {
+  const blocks = new Map(
+    Object.entries(PDS_COMMIT.blocks).map(([cid, hex]) => [cid, Buffer.from(hex, "hex")]),
+  );
+  return {
+    type: "#commit",
+    seq: 1,
+    repo: PDS_COMMIT.repo,
+    rev: PDS_COMMIT.rev,
+    time: "2026-01-01T00:00:00.000Z",
+    commit: watcherCid(PDS_COMMIT.commit),
+    tooBig: false,
+    ops: [{ action: "create", path: PDS_COMMIT.path, cid: watcherCid(PDS_COMMIT.record) }],
+    blocks,
+  };
+}
+
+describe("CommitVerifier", () => {
+  let key: Keypair;
+  const verifier = new CommitVerifier({
+    resolveSigningKey: async () => multikey(key),
+  });
+
+  beforeAll(async () => {
+    key = await Secp256k1Keypair.create();
+  });
+
+  it("accepts a commit signed by a PDS", async () => {
+    const pds = new CommitVerifier({ resolveSigningKey: async () => PDS_COMMIT.signingKey });
+    await expect(pds.verify(pdsCommit())).resolves.toBeUndefined();
+  });
+
+  it("rejects a PDS commit with a changed signature or op", async () => {
+    const pds = new CommitVerifier({ resolveSigningKey: async () => PDS_COMMIT.signingKey });
+    const resigned = pdsCommit();
+    const commit = dagCbor.decode<{ sig: Uint8Array }>(resigned.blocks.get(PDS_COMMIT.commit)!);
+    commit.sig[0]! ^= 1;
+    const block = dagCbor.encode(commit);
+    resigned.commit = watcherCid(cidOf(block));
+    resigned.blocks.set(resigned.commit.toString(), block);
+    await expect(pds.verify(resigned)).rejects.toThrow(/invalid signature/);
+
+    const moved = pdsCommit();
+    moved.ops[0]!.path = "chat.pirate.avast/3lbqzyzzzzz2c";
+    await expect(pds.verify(moved)).rejects.toThrow(/signed tree/);
+  });
+
+  it("accepts a create and a delete proven by the signed tree", async () => {
+    const { message, record } = await signedCommit(key);
+    message.ops = [
+      { action: "create", path: "chat.pirate.avast/aaa", cid: record },
+      { action: "delete", path: "chat.pirate.avast/bbb", cid: null },
+    ];
+    await expect(verifier.verify(message)).resolves.toBeUndefined();
+  });
+
+  it("accepts P-256 signing keys", async () => {
+    const p256 = await P256Keypair.create();
+    const { message } = await signedCommit(p256);
+    const p256Verifier = new CommitVerifier({
+      resolveSigningKey: async () => multikey(p256),
+    });
+    await expect(p256Verifier.verify(message)).resolves.toBeUndefined();
+  });
+
+  it("rejects a commit signed by another key", async () => {
+    const { message } = await signedCommit(await Secp256k1Keypair.create());
+    await expect(verifier.verify(message)).rejects.toThrow(/invalid signature/);
+  });
+
+  it("rejects ops the signed tree does not hold", async () => {
+    const { message, record } = await signedCommit(key);
+    message.ops = [{ action: "create", path: "chat.pirate.avast/bbb", cid: record }];
+    await expect(verifier.verify(message)).rejects.toThrow(/signed tree/);
+
+    message.ops = [{ action: "delete", path: "chat.pirate.avast/ccc", cid: null }];
+    await expect(verifier.verify(message)).rejects.toThrow(/signed tree/);
+  });
+
+  it("rejects a tampered record block", async () => {
+    const { message, record } = await signedCommit(key);
+    message.ops = [{ action: "create", path: "chat.pirate.avast/aaa", cid: record }];
+    message.blocks.set(
+      record.toString(),
+      dagCbor.encode({ $type: "chat.pirate.avast", text: "Walk the plank" }),
+    );
+    await expect(verifier.verify(message)).rejects.toThrow(/does not match its CID/);
+  });
+
+  it("rejects ops whose MST blocks are missing", async () => {
+    const { message, record } = await signedCommit(key);
+    message.ops = [{ action: "create", path: "chat.pirate.avast/aaa", cid: record }];
+    // Keep only the commit and record blocks, dropping the MST root
+    for (const cid of message.blocks.keys()) {
+      if (cid !== message.commit.toString() && cid !== record.toString()) {
+        message.blocks.delete(cid);
+      }
+    }
+    await expect(verifier.verify(message)).rejects.toThrow(/missing from the proof/);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Watcher } from "../watcher/index.js";
+import type { FirehoseEvent } from "../watcher/firehose.js";
+
+const DID = "did:plc:ewvi7nxzyoun6zhxrhs64oiz";
+const OTHER = "did:plc:vwzwgnygau7ed7b7wt5ux7y2";
+const PDS = "https://pds.test";
+const OTHER_PDS = "https://other.test";
+const AVAST = "chat.pirate.avast";
+
+/** A WebSocket the test drives, standing in for a PDS firehose */
+class FakeSocket {
+  static sockets: FakeSocket[] = [];
+  binaryType = "blob";
+  private listeners = new Map<string, Array<(event?: unknown) => void>>();
+
+  constructor(readonly url: string) {
+    FakeSocket.sockets.push(this);
+  }
+
+  addEventListener(type: string, listener: (event?: unknown) => void): void {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+  }
+
+  emit(type: string, event?: unknown): void {
+    for (const listener of this.listeners.get(type) ?? []) listener(event);
+  }
+
+  close(): void {}
+}
+
+/** PLC and the PDSs: OTHER is hosted on OTHER_PDS and holds one avast */
+async function fetchStub(input: string | URL): Promise<Response> {
+  const url = new URL(input);
+  if (url.host === "plc.directory") {
+    const did = url.pathname.slice(1);
+    return Response.json({
+      id: did,
+      service: [
+        {
+          id: "#atproto_pds",
+          type: "AtprotoPersonalDataServer",
+          serviceEndpoint: did === OTHER ? OTHER_PDS : PDS,
+        },
+      ],
+    });
+  }
+  const repo = url.searchParams.get("repo");
+  const collection = url.searchParams.get("collection");
+  const records =
+    url.origin === OTHER_PDS && repo === OTHER && collection === AVAST
+      ? [{ uri: `at://${OTHER}/${AVAST}/a1`, cid: "bafyavast", value: { text: "Ahoy!" } }]
+      : [];
+  return Response.json({ records });
+}
+
+describe("Watcher", () => {
+  let events: FirehoseEvent[];
+  let watcher: Watcher;
+
+  beforeEach(() => {
+    FakeSocket.sockets = [];
+    events = [];
+    vi.stubGlobal("WebSocket", FakeSocket);
+    vi.stubGlobal("fetch", vi.fn(fetchStub));
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    vi.unstubAllGlobals();
+  });
+
+  const create = (useFirehose: boolean) =>
+    new Watcher({
+      pdsEndpoint: PDS,
+      watchDid: DID,
+      dbPath: ":memory:",
+      useFirehose,
+      pollIntervalMs: 60_000,
+      backfill: false,
+      onEvent: (event) => events.push(event),
+    });
+
+  it("resolves watchRepo once the added repo's PDS firehose is connected", async () => {
+    watcher = create(true);
+    void watcher.start();
+    await vi.waitFor(() => expect(FakeSocket.sockets).toHaveLength(1));
+
+    let watched = false;
+    const watching = watcher.watchRepo(OTHER, AVAST).then(() => {
+      watched = true;
+    });
+    await vi.waitFor(() => expect(FakeSocket.sockets).toHaveLength(2));
+    const socket = FakeSocket.sockets[1]!;
+    expect(new URL(socket.url).host).toBe("other.test");
+    expect(watched).toBe(false);
+
+    socket.emit("open");
+    await watching;
+    expect(watched).toBe(true);
+
+    // Another collection of the repo reuses the connected subscription
+    await watcher.watchRepo(OTHER, "chat.pirate.aye");
+    expect(FakeSocket.sockets).toHaveLength(2);
+  });
+
+  it("polls added repos on their own PDS", async () => {
+    watcher = create(false);
+    await watcher.start();
+    await watcher.watchRepo(OTHER, AVAST);
+
+    await vi.waitFor(() =>
+      expect(events).toEqual([
+        {
+          type: "create",
+          collection: AVAST,
+          rkey: "a1",
+          did: OTHER,
+          cid: "bafyavast",
+          record: { text: "Ahoy!" },
+        },
+      ]),
+    );
+    const urls = vi.mocked(fetch).mock.calls.map(([url]) => String(url));
+    expect(urls).toContain(
+      `${OTHER_PDS}/xrpc/com.atproto.repo.listRecords?repo=${encodeURIComponent(OTHER)}&collection=${AVAST}&limit=100`,
+    );
+  });
+});
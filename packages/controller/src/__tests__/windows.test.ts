@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import type { Expression, Query, WindowCall } from "@avaast/shared";
+import { RecordStore } from "../store/record-store.js";
+import { LocalDataSource } from "../query/sources.js";
+import { QueryEngine } from "../query/engine.js";
+
+const DID = "did:plc:ewvi7nxzyoun6zhxrhs64oiz";
+const AVAST = "chat.pirate.avast";
+
+const field = (source: string, name: string): Expression => ({
+  type: "fieldRef",
+  source,
+  field: name,
+});
+
+const AVASTS: Array<[rkey: string, value: Record<string, unknown>]> = [
+  ["a1", { author: "jack", text: "ahoy", ayes: 3 }],
+  ["a2", { author: "anne", text: "arr", ayes: 5 }],
+  ["a3", { author: "jack", text: "avast", ayes: 3 }],
+  ["a4", { author: "jack", text: "yo", ayes: 1 }],
+  ["a5", { text: "anon", ayes: 2 }],
+  ["a6", { author: null, text: "nobody", ayes: null }],
+];
+
+function engine(): QueryEngine {
+  const store = new RecordStore(":memory:");
+  for (const [rkey, value] of AVASTS) {
+    store.putRecord(DID, AVAST, rkey, `cid-${rkey}`, value);
+  }
+  store.markBackfilled(DID, AVAST);
+  const dataSource = new LocalDataSource(store, {
+    async *iterateRecords() {
+      throw new Error("The mirror is already backfilled");
+    },
+  });
+  return new QueryEngine({ dataSource, defaultDid: DID });
+}
+
+function perAuthor(
+  name: string,
+  args: Expression[] = [],
+): WindowCall {
+  return {
+    type: "windowCall",
+    name,
+    args,
+    partitionBy: [field("a", "author")],
+    orderBy: [{ value: field("a", "ayes"), direction: "desc" }],
+  };
+}
+
+async function windowed(select: Query["select"]): Promise<unknown[]> {
+  const { results } = await engine().execute({
+    select: [{ alias: "a.text", value: field("a", "text") }, ...select],
+    from: { alias: "a", collection: AVAST },
+  });
+  return results;
+}
+
+describe("window calls", () => {
+  it("rank peers alike and number every row", async () => {
+    expect(
+      await windowed([
+        { alias: "w.row", value: perAuthor("row_number") },
+        { alias: "w.rank", value: perAuthor("rank") },
+        { alias: "w.dense", value: perAuthor("dense_rank") },
+      ]),
+    ).toEqual([
+      { "a.text": "ahoy", "w.row": 1, "w.rank": 1, "w.dense": 1 },
+      { "a.text": "arr", "w.row": 1, "w.rank": 1, "w.dense": 1 },
+      { "a.text": "avast", "w.row": 2, "w.rank": 1, "w.dense": 1 },
+      { "a.text": "yo", "w.row": 3, "w.rank": 3, "w.dense": 2 },
+      // A missing author partitions with a null one, as in SQL
+      { "a.text": "anon", "w.row": 1, "w.rank": 1, "w.dense": 1 },
+      { "a.text": "nobody", "w.row": 2, "w.rank": 2, "w.dense": 2 },
+    ]);
+  });
+
+  it("add peers to running totals together and skip nulls", async () => {
+    expect(
+      await windowed([
+        { alias: "w.sum", value: perAuthor("sum", [field("a", "ayes")]) },
+        { alias: "w.count", value: perAuthor("count", [field("a", "ayes")]) },
+        { alias: "w.rows", value: perAuthor("count") },
+      ]),
+    ).toEqual([
+      { "a.text": "ahoy", "w.sum": 6, "w.count": 2, "w.rows": 2 },
+      { "a.text": "arr", "w.sum": 5, "w.count": 1, "w.rows": 1 },
+      { "a.text": "avast", "w.sum": 6, "w.count": 2, "w.rows": 2 },
+      { "a.text": "yo", "w.sum": 7, "w.count": 3, "w.rows": 3 },
+      { "a.text": "anon", "w.sum": 2, "w.count": 1, "w.rows": 1 },
+      { "a.text": "nobody", "w.sum": 2, "w.count": 1, "w.rows": 2 },
+    ]);
+  });
+
+  it("read neighbouring rows with lag and lead, or a default", async () => {
+    const text = field("a", "text");
+    expect(
+      await windowed([
+        { alias: "w.prev", value: perAuthor("lag", [text]) },
+        {
+          alias: "w.next",
+          value: perAuthor("lead", [
+            text,
+            { type: "literal", integerValue: 2 },
+            { type: "literal", stringValue: "-" },
+          ]),
+        },
+      ]),
+    ).toEqual([
+      { "a.text": "ahoy", "w.prev": null, "w.next": "yo" },
+      { "a.text": "arr", "w.prev": null, "w.next": "-" },
+      { "a.text": "avast", "w.prev": "ahoy", "w.next": "-" },
+      { "a.text": "yo", "w.prev": "avast", "w.next": "-" },
+      { "a.text": "anon", "w.prev": null, "w.next": "-" },
+      { "a.text": "nobody", "w.prev": "anon", "w.next": "-" },
+    ]);
+  });
+});
@@ -5,12 +5,15 @@ export interface DependencyNode {
   ref: ResourceRef;
   kind: "computed" | "function" | "searchIndex" | "subscription";
   dependencies: Dependency[];
+  /** The resource's record, when the resolver has it */
+  record?: unknown;
 }
 
 export interface DependencyGraph {
   endpoints: DeployedEndpoint[];
   nodes: Map<string, DependencyNode>; // keyed by "did:cid"
   order: string[]; // topological order for resolution
+  cycles: string[][]; // each as the keys along the cycle, first key repeated last
 }
 
 export function refKey(ref: ResourceRef): string {
@@ -58,15 +61,20 @@ export class DependencyGraphBuilder {
     const tempMarked = new Set<string>();
     const permMarked = new Set<string>();
     const sorted: string[] = [];
+    const path: string[] = [];
+    const cycles: string[][] = [];
 
     const visit = (key: string) => {
       if (permMarked.has(key)) return;
       if (tempMarked.has(key)) {
-        this.logger.warn(`Circular dependency detected at ${key}`);
+        const cycle = [...path.slice(path.indexOf(key)), key];
+        this.logger.warn(`Circular dependency detected: ${cycle.join(" -> ")}`);
+        cycles.push(cycle);
         return;
       }
 
       tempMarked.add(key);
+      path.push(key);
       const node = nodes.get(key);
       if (node) {
         for (const dep of node.dependencies) {
@@ -75,6 +83,7 @@ export class DependencyGraphBuilder {
           }
         }
       }
+      path.pop();
       tempMarked.delete(key);
       permMarked.add(key);
       sorted.push(key);
@@ -88,7 +97,7 @@ export class DependencyGraphBuilder {
       `Dependency graph: ${nodes.size} nodes, ${endpoints.length} endpoints, resolution order: ${sorted.length} steps`
     );
 
-    return { endpoints, nodes, order: sorted };
+    return { endpoints, nodes, order: sorted, cycles };
   }
 
   validate(graph: DependencyGraph): string[] {
@@ -102,6 +111,11 @@ export class DependencyGraphBuilder {
       }
     }
 
+    // A computed view cannot read itself, directly or through others
+    for (const cycle of graph.cycles) {
+      errors.push(`Circular dependency: ${cycle.join(" -> ")}`);
+    }
+
     // Check all dependency refs are in the graph
     for (const [key, node] of graph.nodes) {
       for (const dep of node.dependencies) {
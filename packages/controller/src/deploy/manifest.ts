@@ -4,9 +4,11 @@ import type {
   DeployedEndpoint,
   Dependency,
   DeployRecord,
+  ComputedRecord,
 } from "@avaast/shared";
 import type { DeployManifest, ResolvedResource } from "@avaast/shared";
 import { DependencyGraphBuilder, refKey, type DependencyNode } from "./dependency-graph.js";
+import { QueryAnalyzer, type AnalyzerOptions } from "../query/analyzer.js";
 
 export interface RecordFetcher {
   getRecord(did: string, collection: string, rkey: string): Promise<{ uri: string; cid: string; value: unknown }>;
@@ -16,6 +18,12 @@ export interface RecordFetcher {
 export class ManifestBuilder {
   private logger = createLogger("manifest-builder");
   private graphBuilder = new DependencyGraphBuilder();
+  private analyzer = new QueryAnalyzer();
+  private analyzerOptions: AnalyzerOptions;
+
+  constructor(analyzerOptions: AnalyzerOptions = {}) {
+    this.analyzerOptions = analyzerOptions;
+  }
 
   async build(
     deployRef: ResourceRef,
@@ -30,6 +38,7 @@ export class ManifestBuilder {
 
     // Validate
     const errors = this.graphBuilder.validate(graph);
+    errors.push(...this.analyzeQueries(graph.nodes.values()));
     if (errors.length > 0) {
       throw new Error(`Deploy validation failed:\n${errors.join("\n")}`);
     }
@@ -78,4 +87,19 @@ export class ManifestBuilder {
 
     return manifest;
   }
+
+  /** Type-check the query of every computed resource in the graph */
+  private analyzeQueries(nodes: Iterable<DependencyNode>): string[] {
+    const errors: string[] = [];
+    for (const node of nodes) {
+      if (node.kind !== "computed" || !node.record) continue;
+      const computed = node.record as ComputedRecord;
+      const result = this.analyzer.analyze(computed, this.analyzerOptions);
+      for (const warning of result.warnings) {
+        this.logger.warn(`${computed.name}: ${warning}`);
+      }
+      errors.push(...result.errors.map((e) => `${computed.name}: ${e}`));
+    }
+    return errors;
+  }
 }
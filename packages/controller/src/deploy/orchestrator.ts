@@ -10,17 +10,22 @@ export interface OrchestratorOptions {
   fetcher: RecordFetcher;
   onDeployStateChange?: DeployEventHandler;
   nodeResolver: (ref: ResourceRef) => DependencyNode | undefined;
+  /** Fail deploys whose computed queries cannot satisfy their outputSchema */
+  strictOutputSchema?: boolean;
   maxActiveDeploys?: number;
 }
 
 export class DeployOrchestrator {
   private logger = createLogger("deploy-orchestrator");
   private deploys = new Map<string, DeployStatus>();
-  private manifestBuilder = new ManifestBuilder();
+  private manifestBuilder: ManifestBuilder;
   private options: OrchestratorOptions;
 
   constructor(options: OrchestratorOptions) {
     this.options = options;
+    this.manifestBuilder = new ManifestBuilder({
+      strictOutputSchema: options.strictOutputSchema,
+    });
   }
 
   async processDeploy(deployRef: ResourceRef, deployRecord: DeployRecord): Promise<void> {
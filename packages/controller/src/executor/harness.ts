@@ -5,8 +5,11 @@
 export function generateHarness(controllerBaseUrl: string): string {
   return `
 // AVaaSt Function Harness - runs inside Deno subprocess
-// Receives: { code: string, input: Record<string, unknown>, dependencies: DependencyConfig[], callerDid?: string, authToken?: string }
-// Returns: { output: Record<string, unknown> } or { error: { code: string, message: string } }
+// Receives: { code: string, input: Record<string, unknown>, dependencies: DependencyConfig[], callerDid?: string, authToken?: string, timeoutMs: number }
+//   or, for a batch, the same with inputs: Record<string, unknown>[] in place of input and budgetMs: number
+// Returns: { output: Record<string, unknown> }, for a batch { results: ({ output } | { error })[] }
+//   with each input timed out on its own and none started once budgetMs is spent,
+//   or { error: { code: string, message: string } }
 
 const decoder = new TextDecoder();
 const encoder = new TextEncoder();
@@ -127,6 +130,18 @@ function createCollectionHandle(collection, writeMode, callerDid, authToken) {
   return handle;
 }
 
+function withTimeout(promise, timeoutMs) {
+  let timer;
+  const timeout = new Promise((_, reject) => {
+    timer = setTimeout(() => {
+      const err = new Error("Timed out after " + timeoutMs + "ms");
+      err.code = "TIMEOUT";
+      reject(err);
+    }, timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
 function buildDeps(dependencies, callerDid, authToken, writeMode) {
   const deps = {};
   for (const dep of dependencies) {
@@ -143,7 +158,8 @@ function buildDeps(dependencies, callerDid, authToken, writeMode) {
 
 async function main() {
   const request = await readStdin();
-  const { code, input, dependencies, callerDid, authToken, writeMode } = request;
+  const { code, input, inputs, dependencies, callerDid, authToken, writeMode, timeoutMs, budgetMs } = request;
+  const started = Date.now();
 
   try {
     // Write code to a temp file and import it
@@ -157,9 +173,28 @@ async function main() {
     }
 
     const deps = buildDeps(dependencies || [], callerDid, authToken, writeMode);
-    const output = await fn(input, deps);
 
-    await Deno.writeAll(Deno.stdout, encoder.encode(JSON.stringify({ output: output || {} })));
+    if (Array.isArray(inputs)) {
+      // Batched invocation: one process, one call per input, results in order;
+      // a failing input does not stop the others
+      const results = [];
+      for (const batchInput of inputs) {
+        const remaining = (budgetMs ?? Infinity) - (Date.now() - started);
+        if (remaining <= 0) {
+          results.push({ error: { code: "TIMEOUT", message: "Batch time budget of " + budgetMs + "ms spent" } });
+          continue;
+        }
+        try {
+          results.push({ output: (await withTimeout(fn(batchInput, deps), Math.min(timeoutMs, remaining))) || {} });
+        } catch (err) {
+          results.push({ error: { code: err.code || "EXECUTION_ERROR", message: err.message || String(err) } });
+        }
+      }
+      await Deno.writeAll(Deno.stdout, encoder.encode(JSON.stringify({ results })));
+    } else {
+      const output = await fn(input, deps);
+      await Deno.writeAll(Deno.stdout, encoder.encode(JSON.stringify({ output: output || {} })));
+    }
     await Deno.remove(tempFile);
   } catch (err) {
     await Deno.writeAll(Deno.stdout, encoder.encode(JSON.stringify({
@@ -1,4 +1,4 @@
-export { FunctionPool, type PoolOptions, type FunctionExecRequest, type FunctionExecResult, type FunctionExecError } from "./pool.js";
+export { FunctionPool, type PoolOptions, type FunctionExecRequest, type FunctionExecResult, type FunctionExecError, type FunctionBatchRequest, type FunctionBatchItem, type FunctionBatchResult } from "./pool.js";
 export { buildSandboxConfig, type SandboxConfig } from "./sandbox.js";
 export { buildDependencyHandles, type DependencyHandles, type DependencyResolver } from "./dependencies.js";
 export { generateHarness } from "./harness.js";
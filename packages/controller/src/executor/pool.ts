@@ -21,6 +21,31 @@ export interface FunctionExecResult {
   durationMs: number;
 }
 
+/**
+ * Runs the function once per input, in sandbox processes of up to
+ * `maxBatchSize` inputs each
+ */
+export interface FunctionBatchRequest extends Omit<FunctionExecRequest, "input"> {
+  inputs: Array<Record<string, unknown>>;
+  /**
+   * When the batch must be done, in epoch milliseconds. Inputs not run by
+   * then fail with DEADLINE_EXCEEDED or TIMEOUT.
+   */
+  deadline?: number;
+}
+
+/** The outcome of one batch input: its output, or why it failed */
+export interface FunctionBatchItem {
+  output?: Record<string, unknown>;
+  error?: { code: string; message: string };
+}
+
+export interface FunctionBatchResult {
+  /** One per input, in order */
+  results: FunctionBatchItem[];
+  durationMs: number;
+}
+
 export interface FunctionExecError {
   code: string;
   message: string;
@@ -30,17 +55,43 @@ export interface FunctionExecError {
 export interface PoolOptions {
   maxProcesses: number;
   controllerBaseUrl: string;
+  /** Applies to each input of a batch on its own */
   functionTimeout: number;
   functionMemoryLimit: number;
   workDir: string;
+  /** Inputs run per sandbox process; larger batches are split */
+  maxBatchSize?: number;
+  /**
+   * Bound on one sandbox process running a chunk, in milliseconds. Inputs
+   * the chunk has not started by then fail with TIMEOUT.
+   */
+  maxChunkTimeout?: number;
+}
+
+const DEFAULT_MAX_BATCH_SIZE = 50;
+const DEFAULT_MAX_CHUNK_TIMEOUT = 60_000;
+/** Time a chunk's process gets beyond its budget to start and report */
+const PROCESS_GRACE_MS = 1000;
+
+type PoolRequest = FunctionExecRequest | FunctionBatchRequest;
+
+interface HarnessResult {
+  output?: Record<string, unknown>;
+  results?: FunctionBatchItem[];
+  error?: { code: string; message: string };
+}
+
+interface ProcessResult {
+  result: HarnessResult;
+  durationMs: number;
 }
 
 export class FunctionPool {
   private logger = createLogger("function-pool");
   private activeCount = 0;
   private queue: Array<{
-    request: FunctionExecRequest;
-    resolve: (result: FunctionExecResult) => void;
+    request: PoolRequest;
+    resolve: (result: ProcessResult) => void;
     reject: (error: FunctionExecError) => void;
   }> = [];
   private options: PoolOptions;
@@ -59,6 +110,46 @@ export class FunctionPool {
   }
 
   async execute(request: FunctionExecRequest): Promise<FunctionExecResult> {
+    const { result, durationMs } = await this.schedule(request);
+    return { output: result.output ?? {}, durationMs };
+  }
+
+  /**
+   * Run a batch split into chunks of `maxBatchSize`, which are scheduled
+   * like single executions. A failed or timed-out input only fails its own
+   * item; a chunk whose process fails as a whole fails each of its items.
+   * Each chunk runs within `maxChunkTimeout` and the batch's deadline.
+   */
+  async executeBatch(request: FunctionBatchRequest): Promise<FunctionBatchResult> {
+    const startTime = Date.now();
+    const size = this.options.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+    const chunks: Array<Array<Record<string, unknown>>> = [];
+    for (let i = 0; i < request.inputs.length; i += size) {
+      chunks.push(request.inputs.slice(i, i + size));
+    }
+
+    const results = await Promise.all(
+      chunks.map(async (inputs): Promise<FunctionBatchItem[]> => {
+        try {
+          const { result } = await this.schedule({ ...request, inputs });
+          const items = result.results ?? [];
+          if (items.length === inputs.length) return items;
+          return inputs.map(() => ({
+            error: {
+              code: "BATCH_ERROR",
+              message: `Expected ${inputs.length} results, got ${items.length}`,
+            },
+          }));
+        } catch (err) {
+          const { code, message } = err as FunctionExecError;
+          return inputs.map(() => ({ error: { code, message } }));
+        }
+      })
+    );
+    return { results: results.flat(), durationMs: Date.now() - startTime };
+  }
+
+  private schedule(request: PoolRequest): Promise<ProcessResult> {
     return new Promise((resolve, reject) => {
       if (this.activeCount < this.options.maxProcesses) {
         this.runProcess(request, resolve, reject);
@@ -70,8 +161,8 @@ export class FunctionPool {
   }
 
   private async runProcess(
-    request: FunctionExecRequest,
-    resolve: (result: FunctionExecResult) => void,
+    request: PoolRequest,
+    resolve: (result: ProcessResult) => void,
     reject: (error: FunctionExecError) => void
   ): Promise<void> {
     this.activeCount++;
@@ -83,13 +174,27 @@ export class FunctionPool {
     });
 
     try {
+      // A chunk that waited in the queue past its batch's deadline is not run
+      if (
+        "inputs" in request &&
+        request.deadline !== undefined &&
+        startTime >= request.deadline
+      ) {
+        reject({
+          code: "DEADLINE_EXCEEDED",
+          message: "The batch deadline passed before this chunk started",
+          durationMs: 0,
+        });
+        return;
+      }
+
       const result = await this.spawnDeno(request, sandboxConfig);
       const durationMs = Date.now() - startTime;
 
       if (result.error) {
         reject({ ...result.error, durationMs });
       } else {
-        resolve({ output: result.output ?? {}, durationMs });
+        resolve({ result, durationMs });
       }
     } catch (err) {
       const durationMs = Date.now() - startTime;
@@ -112,19 +217,26 @@ export class FunctionPool {
   }
 
   private spawnDeno(
-    request: FunctionExecRequest,
+    request: PoolRequest,
     sandbox: SandboxConfig
-  ): Promise<{ output?: Record<string, unknown>; error?: { code: string; message: string } }> {
+  ): Promise<HarnessResult> {
     return new Promise((resolve, reject) => {
       if (!this.harnessPath) {
         reject(new Error("Pool not initialized"));
         return;
       }
 
+      // The harness times out each batch input and starts none once the
+      // chunk's budget is spent; the process timeout backs that up
+      const budgetMs =
+        "inputs" in request ? this.chunkBudget(request, sandbox) : undefined;
       const args = ["run", ...sandbox.denoFlags, this.harnessPath];
       const child = spawn("deno", args, {
         stdio: ["pipe", "pipe", "pipe"],
-        timeout: sandbox.timeoutMs,
+        timeout:
+          budgetMs === undefined
+            ? sandbox.timeoutMs
+            : budgetMs + PROCESS_GRACE_MS,
       });
 
       const stdout: Buffer[] = [];
@@ -168,11 +280,14 @@ export class FunctionPool {
       // Send the request to stdin
       const payload = JSON.stringify({
         code: request.code,
-        input: request.input,
+        input: "input" in request ? request.input : undefined,
+        inputs: "inputs" in request ? request.inputs : undefined,
         dependencies: request.dependencies,
         callerDid: request.callerDid,
         authToken: request.authToken,
         writeMode: request.writeMode,
+        timeoutMs: sandbox.timeoutMs,
+        budgetMs,
       });
 
       child.stdin?.write(payload);
@@ -180,6 +295,20 @@ export class FunctionPool {
     });
   }
 
+  /** The time a chunk may take: its inputs' timeouts, within both bounds */
+  private chunkBudget(
+    request: FunctionBatchRequest,
+    sandbox: SandboxConfig
+  ): number {
+    const items = Math.max(request.inputs.length, 1);
+    const budget = Math.min(
+      sandbox.timeoutMs * items,
+      this.options.maxChunkTimeout ?? DEFAULT_MAX_CHUNK_TIMEOUT
+    );
+    if (request.deadline === undefined) return budget;
+    return Math.max(Math.min(budget, request.deadline - Date.now()), 0);
+  }
+
   get stats() {
     return {
       active: this.activeCount,
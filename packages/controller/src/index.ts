@@ -1,29 +1,99 @@
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { createLogger } from "@avaast/shared";
 import type {
   ResourceRef,
   DeployRecord,
   AppViewRecord,
   ComputedRecord,
+  FunctionRecord,
   DeployedEndpoint,
   TrafficRule,
   QueryRequest,
   QueryResponse,
+  QueryExplainResponse,
 } from "@avaast/shared";
 import type { DeployManifest, DeployState } from "@avaast/shared";
-import { Watcher, type FirehoseEvent } from "./watcher/index.js";
+import {
+  Watcher,
+  iterateListRecords,
+  type FirehoseEvent,
+} from "./watcher/index.js";
 import { DeployOrchestrator } from "./deploy/orchestrator.js";
+import type { RecordFetcher } from "./deploy/manifest.js";
 import { refKey, type DependencyNode } from "./deploy/dependency-graph.js";
 import { QueryEngine } from "./query/engine.js";
-import { PdsDataSource } from "./query/sources.js";
-import { ControllerServer, type QueryResolver } from "./server.js";
+import { LocalDataSource, type RecordLister } from "./query/sources.js";
+import {
+  PoolFunctionInvoker,
+  type ResolvedFunction,
+} from "./query/functions.js";
+import { coerceParams } from "./query/params.js";
+import {
+  queryCollections,
+  openCollections,
+  computedDependencies,
+} from "./query/subqueries.js";
+import {
+  readPageParams,
+  PAGE_PARAMETERS,
+  type PageRequest,
+} from "./query/pagination.js";
+import { applyOutputSchema } from "./query/output-schema.js";
+import { FunctionPool } from "./executor/pool.js";
+import { RecordStore } from "./store/record-store.js";
+import {
+  ControllerServer,
+  type QueryResolver,
+  type ExplainResolver,
+} from "./server.js";
 
 export { Watcher, type FirehoseEvent } from "./watcher/index.js";
 export { JetstreamClient } from "./watcher/jetstream.js";
 export { PdsResolver } from "./watcher/pds-resolver.js";
+export {
+  CommitVerifier,
+  CommitVerificationError,
+} from "./watcher/verify.js";
+export {
+  iterateListRecords,
+  listAllRecords,
+  type ListedRecord,
+  type ListRecordsOptions,
+  type ListResult,
+} from "./watcher/list-records.js";
 export { QueryEngine, type QueryEngineOptions } from "./query/engine.js";
-export { PdsDataSource, type DataSourceAdapter } from "./query/sources.js";
+export {
+  PdsDataSource,
+  LocalDataSource,
+  type LocalDataSourceOptions,
+  type DataSourceAdapter,
+  type RecordLister,
+} from "./query/sources.js";
+export {
+  PoolFunctionInvoker,
+  type FunctionInvoker,
+  type InvokeOptions,
+  type ResolvedFunction,
+} from "./query/functions.js";
+export { coerceParams, InvalidParamsError } from "./query/params.js";
+export {
+  applyOutputSchema,
+  checkOutputSchema,
+} from "./query/output-schema.js";
+export {
+  QueryAnalyzer,
+  type AnalyzerOptions,
+  type AnalysisResult,
+} from "./query/analyzer.js";
+export { RecordStore, type StoredRecord } from "./store/record-store.js";
+export { FunctionPool } from "./executor/pool.js";
 export { DeployOrchestrator } from "./deploy/orchestrator.js";
-export { ControllerServer, type QueryResolver } from "./server.js";
+export {
+  ControllerServer,
+  type QueryResolver,
+  type ExplainResolver,
+} from "./server.js";
 
 const logger = createLogger("controller");
 
@@ -35,6 +105,26 @@ export interface ControllerOptions {
   controllerPort?: number;
   gatewayUrl?: string;
   extraCollections?: string[];
+  /** Upper bound on records listed from the PDS per collection */
+  maxRecordsPerCollection?: number;
+  /**
+   * Fail deploys at BUILDING when a computed record's select list cannot
+   * satisfy its `outputSchema`. Results are coerced to the schema either way.
+   */
+  strictOutputSchema?: boolean;
+  /** Verify firehose commit signatures and MST proofs before applying them */
+  verifyCommits?: boolean;
+  /** Replay the watched repo's existing records on startup via sync.getRepo */
+  backfill?: boolean;
+  /** Function sandbox settings, matching the `execution` config section */
+  execution?: {
+    maxFunctionProcesses?: number;
+    functionTimeout?: number;
+    functionMemoryLimit?: number;
+    workDir?: string;
+    /** Bound on one query execution, function calls included, in ms */
+    queryTimeout?: number;
+  };
 }
 
 /**
@@ -42,6 +132,7 @@ export interface ControllerOptions {
  *
  * On event from Jetstream/Watcher:
  * - dev.avaas.computed create → store in computedRecords map
+ * - dev.avaas.function create → store in functionRecords map
  * - dev.avaas.deploy create → fetch record, process deploy
  * - dev.avaas.appView create/update → extract deploy refs, process, register on gateway
  */
@@ -50,11 +141,18 @@ export class Controller {
   private watcher: Watcher;
   private orchestrator: DeployOrchestrator;
   private queryEngine: QueryEngine;
+  private recordStore: RecordStore;
+  private functionPool: FunctionPool;
+  private fetcher: RecordFetcher;
   private server: ControllerServer;
   private options: ControllerOptions;
 
   /** Stored computed records keyed by CID */
   private computedRecords = new Map<string, ComputedRecord>();
+  /** Stored function records keyed by CID */
+  private functionRecords = new Map<string, FunctionRecord>();
+  /** Function source code keyed by function record CID */
+  private functionCode = new Map<string, string>();
   /** Current app view traffic rules */
   private currentTrafficRules: TrafficRule[] = [];
   /** Current app view endpoints */
@@ -63,53 +161,79 @@ export class Controller {
   constructor(options: ControllerOptions) {
     this.options = options;
 
-    // Build the PDS data source for queries
-    const pdsDataSource = new PdsDataSource({
-      listRecords: async (did: string, collection: string, limit?: number) => {
-        const pdsUrl = options.pdsEndpoint;
-        const url = `${pdsUrl}/xrpc/com.atproto.repo.listRecords?repo=${encodeURIComponent(did)}&collection=${encodeURIComponent(collection)}&limit=${limit ?? 100}`;
+    // Queries read from the local record mirror, backfilled from the PDS;
+    // other repos are listed from their own PDS, resolved from their DID
+    const lister: RecordLister = {
+      iterateRecords: (did: string, collection: string) =>
+        did === options.watchDid
+          ? iterateListRecords(options.pdsEndpoint, did, collection, {
+              maxRecords: options.maxRecordsPerCollection,
+            })
+          : this.watcher.getResolver().iterateRecords(did, collection, {
+              maxRecords: options.maxRecordsPerCollection,
+            }),
+    };
+    this.recordStore = new RecordStore(options.dbPath ?? ":memory:");
+
+    this.fetcher = {
+      getRecord: async (did, collection, rkey) => {
+        const url = `${options.pdsEndpoint}/xrpc/com.atproto.repo.getRecord?repo=${encodeURIComponent(did)}&collection=${encodeURIComponent(collection)}&rkey=${encodeURIComponent(rkey)}`;
+        const resp = await fetch(url);
+        if (!resp.ok) throw new Error(`getRecord failed: ${resp.status}`);
+        return resp.json() as Promise<{ uri: string; cid: string; value: unknown }>;
+      },
+      getBlob: async (did, cid) => {
+        const url = `${options.pdsEndpoint}/xrpc/com.atproto.sync.getBlob?did=${encodeURIComponent(did)}&cid=${encodeURIComponent(cid)}`;
         const resp = await fetch(url);
-        if (!resp.ok) throw new Error(`listRecords failed: ${resp.status}`);
-        const data = (await resp.json()) as {
-          records: Array<{ uri: string; cid: string; value: unknown }>;
-        };
-        return data.records;
+        if (!resp.ok) throw new Error(`getBlob failed: ${resp.status}`);
+        return new Uint8Array(await resp.arrayBuffer());
       },
+    };
+
+    const controllerPort = options.controllerPort ?? 3001;
+    this.functionPool = new FunctionPool({
+      maxProcesses: options.execution?.maxFunctionProcesses ?? 4,
+      controllerBaseUrl: `http://localhost:${controllerPort}`,
+      functionTimeout: options.execution?.functionTimeout ?? 30000,
+      functionMemoryLimit: options.execution?.functionMemoryLimit ?? 128,
+      workDir: options.execution?.workDir ?? join(tmpdir(), "avaast-functions"),
     });
 
     this.queryEngine = new QueryEngine({
-      dataSource: pdsDataSource,
+      dataSource: new LocalDataSource(this.recordStore, lister, {
+        // Follow a repo's live events before its records are listed
+        onBackfill: (did, collection) => this.watcher.watchRepo(did, collection),
+      }),
       defaultDid: options.watchDid,
+      queryTimeout: options.execution?.queryTimeout,
+      resolveComputed: (ref) => this.computedRecords.get(ref.cid),
+      functionInvoker: new PoolFunctionInvoker({
+        pool: this.functionPool,
+        resolveFunction: (ref) => this.resolveFunction(ref),
+      }),
     });
 
     this.orchestrator = new DeployOrchestrator({
-      fetcher: {
-        getRecord: async (did, collection, rkey) => {
-          const url = `${options.pdsEndpoint}/xrpc/com.atproto.repo.getRecord?repo=${encodeURIComponent(did)}&collection=${encodeURIComponent(collection)}&rkey=${encodeURIComponent(rkey)}`;
-          const resp = await fetch(url);
-          if (!resp.ok) throw new Error(`getRecord failed: ${resp.status}`);
-          return resp.json() as Promise<{ uri: string; cid: string; value: unknown }>;
-        },
-        getBlob: async (did, cid) => {
-          const url = `${options.pdsEndpoint}/xrpc/com.atproto.sync.getBlob?did=${encodeURIComponent(did)}&cid=${encodeURIComponent(cid)}`;
-          const resp = await fetch(url);
-          if (!resp.ok) throw new Error(`getBlob failed: ${resp.status}`);
-          return new Uint8Array(await resp.arrayBuffer());
-        },
-      },
+      fetcher: this.fetcher,
       onDeployStateChange: (ref, state, manifest) => {
         this.onDeployStateChange(ref, state, manifest);
       },
       nodeResolver: (ref) => this.resolveNode(ref),
+      strictOutputSchema: options.strictOutputSchema,
     });
 
     const queryResolver: QueryResolver = async (req: QueryRequest) => {
       return this.resolveQuery(req);
     };
 
+    const explainResolver: ExplainResolver = async (req: QueryRequest) => {
+      return this.resolveExplain(req);
+    };
+
     this.server = new ControllerServer({
-      port: options.controllerPort ?? 3001,
+      port: controllerPort,
       queryResolver,
+      explainResolver,
       getDeployStatus: () => this.orchestrator.getAllDeploys(),
     });
 
@@ -119,12 +243,17 @@ export class Controller {
       dbPath: options.dbPath ?? ":memory:",
       jetstreamUrl: options.jetstreamUrl,
       extraCollections: options.extraCollections,
+      maxRecordsPerCollection: options.maxRecordsPerCollection,
+      verifyCommits: options.verifyCommits,
+      backfill: options.backfill,
       onEvent: (event) => this.handleEvent(event),
+      onBackfillResume: () => this.restoreFromMirror(),
       onError: (err) => this.logger.error("Watcher error", err),
     });
   }
 
   async start(): Promise<void> {
+    await this.functionPool.init();
     await this.server.start();
     await this.watcher.start();
     this.logger.info("Controller started");
@@ -133,6 +262,7 @@ export class Controller {
   async stop(): Promise<void> {
     this.watcher.stop();
     await this.server.stop();
+    this.recordStore.close();
     this.logger.info("Controller stopped");
   }
 
@@ -142,6 +272,15 @@ export class Controller {
   }
 
   private handleEvent(event: FirehoseEvent): void {
+    this.recordStore.applyEvent(event);
+
+    // Other repos only feed the mirror; deploys come from the watched repo
+    if (event.did !== this.options.watchDid) return;
+    this.applyResource(event);
+  }
+
+  /** Take in a record of the watched repo */
+  private applyResource(event: FirehoseEvent): void {
     this.logger.info(
       `Event: ${event.type} ${event.collection} ${event.rkey}`,
     );
@@ -149,14 +288,21 @@ export class Controller {
     switch (event.collection) {
       case "dev.avaas.computed":
         if (event.type === "create" && event.record && event.cid) {
-          this.computedRecords.set(
-            event.cid,
-            event.record as ComputedRecord,
-          );
+          const computed = event.record as ComputedRecord;
+          this.computedRecords.set(event.cid, computed);
+          this.watcher.watchCollections(queryCollections(computed.query));
+          this.watcher.watchOpenCollections(openCollections(computed.query));
           this.logger.info(`Stored computed record: ${event.cid}`);
         }
         break;
 
+      case "dev.avaas.function":
+        if (event.type === "create" && event.record && event.cid) {
+          this.functionRecords.set(event.cid, event.record as FunctionRecord);
+          this.logger.info(`Stored function record: ${event.cid}`);
+        }
+        break;
+
       case "dev.avaas.deploy":
         if (event.type === "create" && event.record) {
           const deployRef: ResourceRef = {
@@ -181,7 +327,42 @@ export class Controller {
     }
   }
 
-  private async handleAppView(event: FirehoseEvent): void {
+  /**
+   * Rebuild what earlier runs took in from the watched repo, when its
+   * backfill does not deliver those records again: computed and function
+   * records, app views, and the deploys they route traffic to. Deploys no
+   * app view routes to are not processed again.
+   */
+  private restoreFromMirror(): void {
+    const did = this.options.watchDid;
+    const routed = new Set<string>();
+    for (const appView of this.recordStore.listRecords(did, "dev.avaas.appView")) {
+      for (const rule of (appView.value as AppViewRecord).trafficRules ?? []) {
+        routed.add(refKey(rule.deploy));
+      }
+    }
+
+    const restore = (collection: string, keep = (_ref: ResourceRef) => true) => {
+      for (const record of this.recordStore.listRecords(did, collection)) {
+        if (!keep({ did, cid: record.cid })) continue;
+        this.applyResource({
+          type: "create",
+          collection,
+          rkey: record.uri.slice(record.uri.lastIndexOf("/") + 1),
+          did,
+          cid: record.cid,
+          record: record.value,
+        });
+      }
+    };
+    restore("dev.avaas.computed");
+    restore("dev.avaas.function");
+    restore("dev.avaas.deploy", (ref) => routed.has(refKey(ref)));
+    restore("dev.avaas.appView");
+    this.logger.info(`Restored the resources of ${did} from the record mirror`);
+  }
+
+  private async handleAppView(event: FirehoseEvent): Promise<void> {
     const appView = event.record as AppViewRecord;
     const deployRefs = this.orchestrator.processAppView(appView);
 
@@ -214,11 +395,25 @@ export class Controller {
     this.logger.info(`Deploy ${refKey(ref)} → ${state}`);
 
     if (state === "ACTIVE" && manifest) {
-      this.currentEndpoints = manifest.endpoints;
+      this.currentEndpoints = manifest.endpoints.map((e) =>
+        this.describeEndpoint(e),
+      );
       await this.registerOnGateway();
     }
   }
 
+  /** Attach the parameters a computed endpoint accepts to its metadata */
+  private describeEndpoint(endpoint: DeployedEndpoint): DeployedEndpoint {
+    if (endpoint.kind !== "computed") return endpoint;
+    const computed = this.computedRecords.get(endpoint.ref.cid);
+    if (!computed) return endpoint;
+    const parameters = computed.pagination
+      ? [...(computed.parameters ?? []), ...PAGE_PARAMETERS]
+      : computed.parameters;
+    if (!parameters) return endpoint;
+    return { ...endpoint, parameters };
+  }
+
   private async registerOnGateway(): Promise<void> {
     const gatewayUrl = this.options.gatewayUrl;
     if (!gatewayUrl) return;
@@ -255,50 +450,124 @@ export class Controller {
       return {
         ref,
         kind: "computed",
-        dependencies: [],
+        dependencies: computedDependencies(computed.query),
+        record: computed,
+      };
+    }
+    const fn = this.functionRecords.get(ref.cid);
+    if (fn) {
+      return {
+        ref,
+        kind: "function",
+        dependencies: fn.dependencies ?? [],
+        record: fn,
       };
     }
     return undefined;
   }
 
-  private async resolveQuery(req: QueryRequest): Promise<QueryResponse> {
-    // Look up the computed record by the deploy ref's CID
-    const manifest = this.orchestrator.getManifest(req.deployRef);
-    let query: ComputedRecord["query"] | undefined;
-
-    if (manifest) {
-      // Find the endpoint matching the request
-      const endpoint = manifest.endpoints.find(
-        (e) => e.name === req.endpointName,
-      );
-      if (endpoint) {
-        const computed = this.computedRecords.get(endpoint.ref.cid);
-        if (computed) {
-          query = computed.query;
-        }
-      }
+  private async resolveFunction(
+    ref: ResourceRef,
+  ): Promise<ResolvedFunction | undefined> {
+    const record = this.functionRecords.get(ref.cid);
+    if (!record) return undefined;
+
+    let code = this.functionCode.get(ref.cid);
+    if (code === undefined) {
+      const blob = await this.fetcher.getBlob(ref.did, record.code.ref.$link);
+      code = new TextDecoder().decode(blob);
+      this.functionCode.set(ref.cid, code);
     }
+    return { record, code };
+  }
 
-    // Fallback: search all computed records
-    if (!query) {
-      for (const computed of this.computedRecords.values()) {
-        if (computed.name === req.endpointName) {
-          query = computed.query;
-          break;
-        }
-      }
+  /**
+   * Find the computed record behind an endpoint: the one the deploy's
+   * manifest points at, or failing that any computed record of that name.
+   */
+  private findComputed(
+    deployRef: ResourceRef,
+    endpointName: string,
+  ): ComputedRecord | undefined {
+    const manifest = this.orchestrator.getManifest(deployRef);
+    const endpoint = manifest?.endpoints.find((e) => e.name === endpointName);
+    if (endpoint) {
+      const computed = this.computedRecords.get(endpoint.ref.cid);
+      if (computed) return computed;
     }
 
-    if (!query) {
+    for (const computed of this.computedRecords.values()) {
+      if (computed.name === endpointName) return computed;
+    }
+    return undefined;
+  }
+
+  private async resolveQuery(req: QueryRequest): Promise<QueryResponse> {
+    const computed = this.findComputed(req.deployRef, req.endpointName);
+    if (!computed) {
       throw new Error(`No query found for endpoint: ${req.endpointName}`);
     }
 
+    const { params, page } = this.readParams(computed, req.params);
     const start = Date.now();
-    const result = await this.queryEngine.execute(query, req.params);
+    const result = await this.queryEngine.execute(computed.query, params, {
+      cacheTtl: computed.cacheTtl,
+      version: refKey(req.deployRef),
+      page,
+      outputSchema: computed.outputSchema,
+    });
     return {
-      results: result.results,
+      results: applyOutputSchema(result.results, computed.outputSchema),
       cached: result.cached,
       durationMs: Date.now() - start,
+      cursor: result.cursor,
+    };
+  }
+
+  /**
+   * Split request params into the page of a paginated endpoint and the
+   * record's own parameters, coerced to their declared types.
+   */
+  private readParams(
+    computed: ComputedRecord,
+    raw: Record<string, string>,
+  ): { params: Record<string, unknown>; page?: PageRequest } {
+    if (!computed.pagination) {
+      return { params: coerceParams(computed.parameters, raw) };
+    }
+    const { page, params } = readPageParams(
+      computed.pagination,
+      computed.query,
+      raw,
+    );
+    return { params: coerceParams(computed.parameters, params), page };
+  }
+
+  private async resolveExplain(
+    req: QueryRequest,
+  ): Promise<QueryExplainResponse> {
+    const computed = this.findComputed(req.deployRef, req.endpointName);
+    if (!computed) {
+      throw new Error(`No query found for endpoint: ${req.endpointName}`);
+    }
+
+    const { params, page } = this.readParams(computed, req.params);
+    const start = Date.now();
+    const explanation = await this.queryEngine.explain(computed.query, params, {
+      cacheTtl: computed.cacheTtl,
+      version: refKey(req.deployRef),
+      page,
+      outputSchema: computed.outputSchema,
+    });
+    const sqlStep = explanation.plan.pipeline.find((s) => s.type === "sql");
+
+    return {
+      sources: explanation.plan.sources.map((s) => s.source),
+      steps: explanation.steps,
+      sql: sqlStep?.type === "sql" ? sqlStep.sql : undefined,
+      cacheHit: explanation.cacheHit,
+      rowCount: explanation.rowCount,
+      durationMs: Date.now() - start,
     };
   }
 }
@@ -0,0 +1,566 @@
+import type {
+  BuiltinCall,
+  ComputedRecord,
+  Expression,
+  FieldRef,
+  Literal,
+  Query,
+} from "@avaast/shared";
+import { checkOutputSchema } from "./output-schema.js";
+import { PAGE_PARAMETERS } from "./pagination.js";
+import {
+  EXTRACT_PARTS,
+  TRUNCATE_UNITS,
+  parseDatetime,
+  parseInterval,
+} from "./datetime.js";
+import { isDecimal, literalFields, literalValue } from "./literals.js";
+import { patternError } from "./comparison.js";
+import { parseJsonPath } from "./arrays.js";
+import { defaultBuiltins, type BuiltinRegistry } from "./builtins.js";
+import {
+  childExpressions,
+  isCollectionSource,
+  querySources,
+} from "./subqueries.js";
+
+export interface AnalyzerOptions {
+  /** Report outputSchema mismatches as errors instead of warnings */
+  strictOutputSchema?: boolean;
+}
+
+export interface AnalysisResult {
+  errors: string[];
+  warnings: string[];
+}
+
+/** Accepted argument counts for each window function: [min, max] */
+const WINDOW_ARITY: Record<string, [number, number]> = {
+  row_number: [0, 0],
+  rank: [0, 0],
+  dense_rank: [0, 0],
+  lag: [1, 3],
+  lead: [1, 3],
+  sum: [1, 1],
+  count: [0, 1],
+};
+
+const SET_OPERATIONS = new Set(["union", "unionAll", "intersect", "except"]);
+
+/** What a query, possibly nested in another, may reference */
+interface QueryScope {
+  /** Prefix locating the query in error messages */
+  path: string;
+  /** Source aliases of enclosing queries, for correlated subqueries */
+  outerAliases: Set<string>;
+  /** CTE names declared so far by this query and enclosing ones */
+  ctes: Set<string>;
+}
+
+/** Where in the query an expression appears, and what it may reference */
+interface Clause {
+  name: string;
+  /** Source aliases visible to field refs */
+  aliases: Set<string>;
+  ctes: Set<string>;
+  /** Join conditions cannot call functions or run subqueries */
+  join?: boolean;
+  /** Whether aggregates are meaningful here */
+  aggregates: boolean;
+  /** ORDER BY resolves field refs against select aliases instead */
+  selectAliases?: Set<string>;
+  /** Whether window calls are allowed here */
+  windows?: boolean;
+  /** Set in select and having of a grouped query */
+  grouping?: Grouping;
+}
+
+/**
+ * The groupBy expressions of a grouped query, and its sources, whose fields
+ * must be grouped by or aggregated
+ */
+interface Grouping {
+  keys: Set<string>;
+  sources: Set<string>;
+}
+
+/**
+ * QueryAnalyzer checks a computed record's query before it is deployed, so
+ * mistakes surface as a FAILED deploy instead of a runtime error on the
+ * first request. Every problem found is reported, not just the first.
+ */
+export class QueryAnalyzer {
+  private builtins: BuiltinRegistry;
+
+  /** Builtin calls are checked against `builtins`, the standard ones by default */
+  constructor(builtins: BuiltinRegistry = defaultBuiltins) {
+    this.builtins = builtins;
+  }
+
+  analyze(computed: ComputedRecord, options: AnalyzerOptions = {}): AnalysisResult {
+    const errors: string[] = [];
+    const query = computed.query;
+    const declaredParams = computed.parameters
+      ? new Set(computed.parameters.map((p) => p.name))
+      : undefined;
+
+    this.checkQuery(
+      query,
+      { path: "", outerAliases: new Set(), ctes: new Set() },
+      declaredParams,
+      errors,
+    );
+
+    // Pages are keyed on orderBy and take over the limit/cursor params
+    if (computed.pagination) {
+      if (!query.orderBy?.length) {
+        errors.push("pagination requires the query to have an orderBy");
+      }
+      for (const param of PAGE_PARAMETERS) {
+        if (declaredParams?.has(param.name)) {
+          errors.push(`parameter ${param.name} is reserved for pagination`);
+        }
+      }
+    }
+
+    const schemaProblems = checkOutputSchema(query, computed.outputSchema);
+    return options.strictOutputSchema
+      ? { errors: [...errors, ...schemaProblems], warnings: [] }
+      : { errors, warnings: schemaProblems };
+  }
+
+  private checkQuery(
+    query: Query,
+    scope: QueryScope,
+    declaredParams: Set<string> | undefined,
+    errors: string[],
+  ): void {
+    const { path } = scope;
+    const grouped = Boolean(query.groupBy?.length);
+    const grouping: Grouping | undefined = grouped
+      ? {
+          keys: new Set(query.groupBy!.map((e) => JSON.stringify(e))),
+          sources: new Set(querySources(query).map((s) => s.alias)),
+        }
+      : undefined;
+    const check = (expr: Expression, clause: Clause) =>
+      this.checkExpression(expr, clause, declaredParams, errors, false);
+
+    // CTEs see the ones declared before them, but no enclosing rows
+    const ctes = new Set(scope.ctes);
+    for (const cte of query.with ?? []) {
+      this.checkQuery(
+        cte.query,
+        { path: `${path}with ${cte.name}: `, outerAliases: new Set(), ctes },
+        declaredParams,
+        errors,
+      );
+      if (ctes.has(cte.name) && !scope.ctes.has(cte.name)) {
+        errors.push(`${path}Duplicate CTE name: ${cte.name}`);
+      }
+      ctes.add(cte.name);
+    }
+
+    // Sources: aliases must be unique, and a join's `on` only sees the
+    // sources joined before it
+    const aliases = new Set<string>(scope.outerAliases);
+    for (const [i, source] of querySources(query).entries()) {
+      if (scope.outerAliases.has(source.alias)) {
+        errors.push(
+          `${path}Source alias ${source.alias} shadows an enclosing query's source`,
+        );
+      } else if (aliases.has(source.alias)) {
+        errors.push(`${path}Duplicate source alias: ${source.alias}`);
+      }
+      // An unnest source reads the sources before it, like a join's `on`
+      const before = new Set(aliases);
+      aliases.add(source.alias);
+      const join = i > 0 ? query.joins![i - 1]! : undefined;
+
+      if (isCollectionSource(source)) {
+        const repos = [source.did, source.dids, source.allRepos, source.graph];
+        if (repos.filter((r) => r !== undefined && r !== false).length > 1) {
+          errors.push(
+            `${path}Source ${source.alias} needs at most one of did, dids, allRepos or graph`,
+          );
+        } else if (source.dids?.length === 0) {
+          errors.push(`${path}Source ${source.alias}: dids is empty`);
+        } else if (source.graph?.field === "") {
+          errors.push(`${path}Source ${source.alias}: graph field is empty`);
+        }
+      } else {
+        const kinds = [source.query, source.cte, source.computed, source.unnest];
+        if (kinds.filter(Boolean).length !== 1) {
+          errors.push(
+            `${path}Source ${source.alias} needs exactly one of collection, query, cte, computed or unnest`,
+          );
+        } else if (source.unnest) {
+          check(source.unnest, {
+            name: `${path}unnest ${source.alias}`,
+            aliases: before,
+            ctes,
+            aggregates: false,
+          });
+          if (join?.joinType === "right" || join?.joinType === "full") {
+            errors.push(
+              `${path}Source ${source.alias}: unnest cannot be ${join.joinType} joined`,
+            );
+          }
+        } else if (source.cte && !ctes.has(source.cte)) {
+          errors.push(`${path}Source ${source.alias}: unknown CTE ${source.cte}`);
+        } else if (source.query) {
+          this.checkQuery(
+            source.query,
+            { path: `${path}from ${source.alias}: `, outerAliases: new Set(), ctes },
+            declaredParams,
+            errors,
+          );
+        }
+      }
+
+      if (join && join.joinType !== "cross") {
+        check(join.on, {
+          name: `${path}join ${source.alias}`,
+          aliases: new Set(aliases),
+          ctes,
+          aggregates: false,
+          join: true,
+        });
+      }
+    }
+
+    if (query.where) {
+      check(query.where, { name: `${path}where`, aliases, ctes, aggregates: false });
+    }
+    for (const expr of query.groupBy ?? []) {
+      check(expr, { name: `${path}groupBy`, aliases, ctes, aggregates: false });
+    }
+    if (query.having) {
+      check(query.having, {
+        name: `${path}having`,
+        aliases,
+        ctes,
+        aggregates: grouped,
+        grouping,
+      });
+    }
+
+    const selectAliases = new Set<string>();
+    for (const field of query.select) {
+      if (selectAliases.has(field.alias)) {
+        errors.push(`${path}Duplicate select alias: ${field.alias}`);
+      }
+      selectAliases.add(field.alias);
+      check(field.value, {
+        name: `${path}select ${field.alias}`,
+        aliases,
+        ctes,
+        aggregates: grouped,
+        windows: true,
+        grouping,
+      });
+    }
+
+    for (const clause of query.orderBy ?? []) {
+      check(clause.value, {
+        name: `${path}orderBy`,
+        aliases,
+        ctes,
+        aggregates: false,
+        selectAliases,
+      });
+    }
+
+    // Set operations match columns by position, so every query must
+    // select the same aliases in the same order
+    const columns = query.select.map((f) => f.alias);
+    for (const [i, operation] of (query.setOperations ?? []).entries()) {
+      const name = `${path}${operation.op} ${i + 1}`;
+      if (!SET_OPERATIONS.has(operation.op)) {
+        errors.push(`${name}: unknown set operation ${operation.op}`);
+      }
+      this.checkQuery(
+        operation.query,
+        { path: `${name}: `, outerAliases: scope.outerAliases, ctes },
+        declaredParams,
+        errors,
+      );
+      const operandColumns = operation.query.select.map((f) => f.alias);
+      if (operandColumns.join(",") !== columns.join(",")) {
+        errors.push(
+          `${name}: selects (${operandColumns.join(", ")}) but the first query selects (${columns.join(", ")})`,
+        );
+      }
+    }
+  }
+
+  private checkExpression(
+    expr: Expression,
+    clause: Clause,
+    declaredParams: Set<string> | undefined,
+    errors: string[],
+    inAggregate: boolean,
+  ): void {
+    const recurse = (e: Expression, aggregate = inAggregate) =>
+      this.checkExpression(e, clause, declaredParams, errors, aggregate);
+
+    // An expression grouped by has one value per group, and was checked
+    // under groupBy
+    if (!inAggregate && clause.grouping?.keys.has(JSON.stringify(expr))) return;
+
+    switch (expr.type) {
+      case "fieldRef":
+        if (expr.source === "$params") {
+          if (declaredParams && !declaredParams.has(expr.field)) {
+            errors.push(
+              `${clause.name}: parameter ${expr.field} is not declared in parameters`,
+            );
+          }
+        } else if (clause.selectAliases) {
+          if (!resolvesToSelectAlias(expr, clause.selectAliases)) {
+            errors.push(
+              `${clause.name}: ${expr.source}.${expr.field} does not match any select alias`,
+            );
+          }
+        } else if (!clause.aliases.has(expr.source)) {
+          errors.push(`${clause.name}: unknown source alias ${expr.source}`);
+        } else if (!inAggregate && clause.grouping?.sources.has(expr.source)) {
+          errors.push(
+            `${clause.name}: ${expr.source}.${expr.field} is neither grouped nor aggregated`,
+          );
+        }
+        break;
+
+      case "literal": {
+        const problem = literalError(expr);
+        if (problem) errors.push(`${clause.name}: ${problem}`);
+        break;
+      }
+
+      case "comparison":
+        recurse(expr.left);
+        if (expr.right) {
+          recurse(expr.right);
+        } else if (expr.op !== "isNull" && expr.op !== "isNotNull") {
+          errors.push(`${clause.name}: ${expr.op} comparison needs a right operand`);
+        }
+        if (expr.right?.type === "literal" && expr.right.stringValue !== undefined) {
+          const problem = patternError(expr.op, expr.right.stringValue);
+          if (problem) errors.push(`${clause.name}: ${problem}`);
+        } else if (expr.op === "regex" && expr.right) {
+          // Only literal patterns can be checked before they run
+          errors.push(`${clause.name}: regex pattern must be a string literal`);
+        }
+        break;
+
+      case "logicalOp":
+        if (expr.op === "not" && expr.operands.length !== 1) {
+          errors.push(`${clause.name}: not takes exactly one operand`);
+        }
+        expr.operands.forEach((o) => recurse(o));
+        break;
+
+      case "arithmeticOp":
+        recurse(expr.left);
+        recurse(expr.right);
+        break;
+
+      case "builtinCall": {
+        const arity = this.builtins.get(expr.name)?.arity;
+        if (!arity) {
+          errors.push(`${clause.name}: unknown builtin ${expr.name}`);
+        } else if (expr.args.length < arity[0] || expr.args.length > arity[1]) {
+          errors.push(
+            `${clause.name}: ${expr.name} takes ${formatArity(arity)}, got ${expr.args.length}`,
+          );
+        }
+        const argError = literalArgError(expr);
+        if (argError) errors.push(`${clause.name}: ${argError}`);
+        const aggregate = this.builtins.isAggregate(expr.name);
+        if (aggregate) {
+          if (inAggregate) {
+            errors.push(`${clause.name}: aggregate ${expr.name} cannot be nested`);
+          } else if (!clause.aggregates) {
+            errors.push(
+              `${clause.name}: aggregate ${expr.name} is only allowed in select or having of a query with groupBy`,
+            );
+          }
+        }
+        const modifiers = [
+          expr.distinct ? "distinct" : undefined,
+          expr.filter ? "filter" : undefined,
+          expr.orderBy ? "orderBy" : undefined,
+        ].filter((m) => m !== undefined);
+        if (modifiers.length > 0 && !aggregate) {
+          errors.push(
+            `${clause.name}: ${modifiers.join(", ")} only applies to aggregates, not ${expr.name}`,
+          );
+        }
+        // An aggregate's filter and ordering read each group member
+        childExpressions(expr).forEach((a) =>
+          recurse(a, inAggregate || aggregate),
+        );
+        break;
+      }
+
+      case "functionCall":
+        if (clause.join) {
+          errors.push(`${clause.name}: function calls are not supported in join conditions`);
+        }
+        expr.args.forEach((a) => recurse(a));
+        break;
+
+      case "caseExpression":
+        for (const branch of expr.branches) {
+          recurse(branch.when);
+          recurse(branch.then);
+        }
+        if (expr.elseValue) recurse(expr.elseValue);
+        break;
+
+      case "subquery":
+      case "exists":
+        if (clause.join) {
+          errors.push(`${clause.name}: subqueries are not supported in join conditions`);
+        }
+        if (expr.type === "subquery" && expr.query.select.length !== 1) {
+          errors.push(`${clause.name}: subquery must select exactly one column`);
+        }
+        // Nested queries may refer to the sources of the enclosing ones
+        this.checkQuery(
+          expr.query,
+          {
+            path: `${clause.name}: ${expr.type}: `,
+            outerAliases: clause.aliases,
+            ctes: clause.ctes,
+          },
+          declaredParams,
+          errors,
+        );
+        break;
+
+      case "windowCall": {
+        const arity = WINDOW_ARITY[expr.name];
+        if (!arity) {
+          errors.push(`${clause.name}: unknown window function ${expr.name}`);
+        } else if (expr.args.length < arity[0] || expr.args.length > arity[1]) {
+          errors.push(
+            `${clause.name}: ${expr.name} takes ${formatArity(arity)}, got ${expr.args.length}`,
+          );
+        }
+        if (!clause.windows || inAggregate) {
+          errors.push(
+            `${clause.name}: window function ${expr.name} is only allowed in select, outside aggregates and other windows`,
+          );
+        }
+        // The window's own expressions see the rows before projection, and
+        // may aggregate when the query is grouped
+        const inner: Clause = { ...clause, windows: false };
+        const recurseWindow = (e: Expression) =>
+          this.checkExpression(e, inner, declaredParams, errors, inAggregate);
+        expr.args.forEach(recurseWindow);
+        expr.partitionBy?.forEach(recurseWindow);
+        expr.orderBy?.forEach((o) => recurseWindow(o.value));
+        break;
+      }
+
+      default:
+        errors.push(
+          `${clause.name}: unknown expression type ${(expr as { type: string }).type}`,
+        );
+    }
+  }
+}
+
+/**
+ * ORDER BY runs on projected rows, where `source.field` resolves if some
+ * select alias equals it or one of its dotted prefixes.
+ */
+function resolvesToSelectAlias(
+  expr: FieldRef,
+  selectAliases: Set<string>,
+): boolean {
+  const parts = `${expr.source}.${expr.field}`.split(".");
+  for (let i = parts.length; i >= 1; i--) {
+    if (selectAliases.has(parts.slice(0, i).join("."))) return true;
+  }
+  return false;
+}
+
+/** Check that a literal sets exactly one value, and that it parses */
+function literalError(literal: Literal): string | undefined {
+  const fields = literalFields(literal);
+  if (fields.length !== 1) {
+    return fields.length === 0
+      ? "literal has no value"
+      : `literal sets more than one value: ${fields.join(", ")}`;
+  }
+  if (literal.floatValue !== undefined && !isDecimal(literal.floatValue)) {
+    return `floatValue ${literal.floatValue} is not a decimal number`;
+  }
+  if (
+    literal.datetimeValue !== undefined &&
+    parseDatetime(literal.datetimeValue) === undefined
+  ) {
+    return `datetimeValue ${literal.datetimeValue} is not an ISO 8601 datetime`;
+  }
+  if (literal.nullValue !== undefined && literal.nullValue !== true) {
+    return "nullValue must be true";
+  }
+  for (const element of literal.arrayValue ?? []) {
+    const problem = literalError(element);
+    if (problem) return `arrayValue: ${problem}`;
+  }
+  return undefined;
+}
+
+/**
+ * Check the literal datetime units, intervals, JSON paths and percentile
+ * fractions of builtins
+ */
+function literalArgError(expr: BuiltinCall): string | undefined {
+  const literal = (i: number) => {
+    const arg = expr.args[i];
+    return arg?.type === "literal" ? arg.stringValue : undefined;
+  };
+  switch (expr.name) {
+    case "date_trunc":
+    case "extract": {
+      const allowed: readonly string[] =
+        expr.name === "date_trunc" ? TRUNCATE_UNITS : EXTRACT_PARTS;
+      const unit = literal(0);
+      return unit !== undefined && !allowed.includes(unit)
+        ? `${expr.name} unit must be one of ${allowed.join(", ")}, got ${unit}`
+        : undefined;
+    }
+    case "date_add":
+    case "date_sub": {
+      const interval = literal(1);
+      return interval !== undefined && !parseInterval(interval)
+        ? `${expr.name} interval ${interval} is not an ISO 8601 duration`
+        : undefined;
+    }
+    case "json_extract": {
+      const path = literal(1);
+      return path !== undefined && !parseJsonPath(path)
+        ? `json_extract path ${path} is not a JSON path such as $.a[0].b`
+        : undefined;
+    }
+    case "percentile": {
+      const arg = expr.args[1];
+      if (arg?.type !== "literal") return undefined;
+      const fraction = literalValue(arg);
+      return typeof fraction === "number" && fraction >= 0 && fraction <= 1
+        ? undefined
+        : `percentile fraction must be a number from 0 to 1, got ${JSON.stringify(fraction)}`;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function formatArity([min, max]: [number, number]): string {
+  if (min === max) return `${min} argument${min === 1 ? "" : "s"}`;
+  if (max === Infinity) return `at least ${min} argument${min === 1 ? "" : "s"}`;
+  return `${min} to ${max} arguments`;
+}
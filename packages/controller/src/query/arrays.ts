@@ -0,0 +1,78 @@
+const PATH_SEGMENT = /^(?:\.([A-Za-z_$][\w$]*)|\[(-?\d+)\]|\["((?:[^"\\]|\\.)*)"\])/;
+
+/**
+ * Split a JSON path such as `$.features[0].tag` or `$["$type"]` into keys
+ * and array indices. Negative indices count from the end. Undefined when
+ * the path is malformed.
+ */
+export function parseJsonPath(path: string): Array<string | number> | undefined {
+  if (!path.startsWith("$")) return undefined;
+  const segments: Array<string | number> = [];
+  let rest = path.slice(1);
+  while (rest.length > 0) {
+    const match = PATH_SEGMENT.exec(rest);
+    if (!match) return undefined;
+    if (match[1] !== undefined) {
+      segments.push(match[1]);
+    } else if (match[2] !== undefined) {
+      segments.push(Number(match[2]));
+    } else {
+      segments.push(JSON.parse(`"${match[3]}"`) as string);
+    }
+    rest = rest.slice(match[0].length);
+  }
+  return segments;
+}
+
+/**
+ * The value at a JSON path, or null when the path is malformed or leads
+ * nowhere. Strings holding JSON are parsed first.
+ */
+export function extractJsonPath(value: unknown, path: string): unknown {
+  const segments = parseJsonPath(path);
+  if (!segments) return null;
+  let current = value;
+  if (typeof current === "string") {
+    try {
+      current = JSON.parse(current);
+    } catch {
+      return null;
+    }
+  }
+  for (const segment of segments) {
+    if (typeof segment === "number") {
+      current = Array.isArray(current) ? elementAt(current, segment) : null;
+    } else if (
+      current !== null &&
+      typeof current === "object" &&
+      !Array.isArray(current)
+    ) {
+      current = (current as Record<string, unknown>)[segment];
+    } else {
+      return null;
+    }
+    if (current === undefined) return null;
+  }
+  return current;
+}
+
+/** Zero-based element of an array, counting from the end when negative */
+function elementAt(array: unknown[], index: number): unknown {
+  return array[index < 0 ? array.length + index : index] ?? null;
+}
+
+/**
+ * The element at a one-based position, as in SQL; negative positions count
+ * from the end. Null when out of range.
+ */
+export function arrayElement(array: unknown[], position: number): unknown {
+  if (!Number.isInteger(position) || position === 0) return null;
+  return elementAt(array, position > 0 ? position - 1 : position);
+}
+
+/** Equality for array elements: objects and arrays compare by content */
+export function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,326 @@
+import { arrayElement, extractJsonPath, sameValue } from "./arrays.js";
+import { toTruth } from "./comparison.js";
+import { isDecimal } from "./literals.js";
+import {
+  addInterval,
+  extractPart,
+  formatDatetime,
+  parseDatetime,
+  parseInterval,
+  toIsoString,
+  truncateDatetime,
+} from "./datetime.js";
+
+/**
+ * A builtin function callable from expressions. `evaluate` receives the
+ * evaluated arguments. Aggregates also define `aggregate`, used when the
+ * row is a group: it receives the first argument's value for each member
+ * and the remaining arguments evaluated once, against the group row.
+ */
+export interface Builtin {
+  /** Accepted argument counts: [min, max] */
+  arity: [number, number];
+  evaluate(args: unknown[]): unknown;
+  aggregate?(values: unknown[], args: unknown[]): unknown;
+}
+
+/**
+ * The builtins an ExpressionRuntime can call, by name. The analyzer checks
+ * calls against the same registry, so a builtin registered here is both
+ * accepted at deploy and evaluated at run time.
+ */
+export class BuiltinRegistry {
+  private builtins = new Map<string, Builtin>();
+
+  constructor(builtins: Record<string, Builtin> = {}) {
+    for (const [name, builtin] of Object.entries(builtins)) {
+      this.register(name, builtin);
+    }
+  }
+
+  register(name: string, builtin: Builtin): this {
+    this.builtins.set(name, builtin);
+    return this;
+  }
+
+  get(name: string): Builtin | undefined {
+    return this.builtins.get(name);
+  }
+
+  isAggregate(name: string): boolean {
+    return this.builtins.get(name)?.aggregate !== undefined;
+  }
+
+  names(): string[] {
+    return Array.from(this.builtins.keys());
+  }
+}
+
+function isPresent(value: unknown): boolean {
+  return value !== null && value !== undefined;
+}
+
+function datetimeOrNull(ms: number | undefined): string | null {
+  return ms === undefined ? null : toIsoString(ms);
+}
+
+/**
+ * An aggregate that, outside a group, applies to the elements of an array
+ * argument, and otherwise returns its argument unchanged
+ */
+function aggregate(
+  arity: [number, number],
+  combine: (values: unknown[], args: unknown[]) => unknown,
+): Builtin {
+  return {
+    arity,
+    evaluate: ([v, ...args]) => (Array.isArray(v) ? combine(v, args) : v),
+    aggregate: combine,
+  };
+}
+
+/** The values that are numbers or strings holding one, as numbers */
+function numbers(values: unknown[]): number[] {
+  return values.flatMap((v) =>
+    typeof v === "number" && !Number.isNaN(v)
+      ? [v]
+      : typeof v === "string" && isDecimal(v)
+        ? [Number(v)]
+        : [],
+  );
+}
+
+/**
+ * The continuous percentile `fraction` of the values, interpolating
+ * between the two nearest; null without values or a fraction in [0, 1]
+ */
+function percentile(values: unknown[], fraction: unknown): number | null {
+  const p = Number(fraction);
+  const sorted = numbers(values).sort((a, b) => a - b);
+  if (sorted.length === 0 || !(p >= 0 && p <= 1)) return null;
+  const position = p * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (position - lower);
+}
+
+/** Standard deviation of a sample (`n - 1`) or of a whole population */
+function stddev(values: unknown[], population: boolean): number | null {
+  const nums = numbers(values);
+  const n = nums.length;
+  if (n === 0 || (!population && n === 1)) return null;
+  const mean = nums.reduce((a, b) => a + b, 0) / n;
+  const squares = nums.reduce((a, b) => a + (b - mean) ** 2, 0);
+  return Math.sqrt(squares / (population ? n : n - 1));
+}
+
+/** `and` or `or` of the non-null values; null when there are none */
+function every(values: unknown[], all: boolean): boolean | null {
+  const truths = values.map(toTruth).filter((t) => t !== null);
+  if (truths.length === 0) return null;
+  return all ? truths.every(Boolean) : truths.some(Boolean);
+}
+
+function shift(sign: 1 | -1): Builtin {
+  return {
+    arity: [2, 2],
+    evaluate: ([t, duration]) => {
+      const ms = parseDatetime(t);
+      const interval = parseInterval(duration);
+      if (ms === undefined || !interval) return null;
+      return toIsoString(addInterval(ms, interval, sign));
+    },
+  };
+}
+
+const STANDARD_BUILTINS: Record<string, Builtin> = {
+  // Aggregates; outside a group they apply to their argument alone
+  // Without an argument, count counts rows
+  count: {
+    arity: [0, 1],
+    evaluate: ([v]) => (Array.isArray(v) ? v.length : 1),
+    aggregate: (values) => values.filter(isPresent).length,
+  },
+  sum: {
+    arity: [1, 1],
+    evaluate: ([v]) =>
+      Array.isArray(v) ? (v as number[]).reduce((a, b) => a + b, 0) : v,
+    aggregate: (values) =>
+      (values as number[]).reduce((a, b) => a + (Number(b) || 0), 0),
+  },
+  avg: {
+    arity: [1, 1],
+    evaluate: ([v]) =>
+      Array.isArray(v)
+        ? (v as number[]).reduce((a, b) => a + b, 0) / v.length
+        : v,
+    aggregate: (values) => {
+      const nums = values.filter(isPresent);
+      return nums.length === 0
+        ? null
+        : nums.reduce((a: number, b) => a + Number(b), 0) / nums.length;
+    },
+  },
+  min: {
+    arity: [1, 1],
+    evaluate: ([v]) => (Array.isArray(v) ? Math.min(...(v as number[])) : v),
+    aggregate: (values) => {
+      const nums = values.filter(isPresent);
+      return nums.length === 0 ? null : Math.min(...nums.map(Number));
+    },
+  },
+  max: {
+    arity: [1, 1],
+    evaluate: ([v]) => (Array.isArray(v) ? Math.max(...(v as number[])) : v),
+    aggregate: (values) => {
+      const nums = values.filter(isPresent);
+      return nums.length === 0 ? null : Math.max(...nums.map(Number));
+    },
+  },
+  array_agg: {
+    arity: [1, 1],
+    evaluate: ([v]) => [v ?? null],
+    aggregate: (values) => values.map((v) => v ?? null),
+  },
+  string_agg: {
+    arity: [2, 2],
+    evaluate: ([v]) => (isPresent(v) ? String(v) : null),
+    aggregate: (values, [separator]) => {
+      const strings = values.filter(isPresent);
+      return strings.length === 0
+        ? null
+        : strings.map(String).join(String(separator ?? ""));
+    },
+  },
+  median: aggregate([1, 1], (values) => percentile(values, 0.5)),
+  percentile: aggregate([2, 2], (values, [fraction]) =>
+    percentile(values, fraction),
+  ),
+  stddev: aggregate([1, 1], (values) => stddev(values, false)),
+  stddev_pop: aggregate([1, 1], (values) => stddev(values, true)),
+  bool_and: aggregate([1, 1], (values) => every(values, true)),
+  bool_or: aggregate([1, 1], (values) => every(values, false)),
+  // The value of the group's first or last row, in the call's `orderBy`
+  first: aggregate([1, 1], (values) => values[0] ?? null),
+  last: aggregate([1, 1], (values) => values[values.length - 1] ?? null),
+
+  // Strings
+  concat: {
+    arity: [1, Infinity],
+    evaluate: (args) => args.map(String).join(""),
+  },
+  lower: {
+    arity: [1, 1],
+    evaluate: ([s]) => String(s ?? "").toLowerCase(),
+  },
+  upper: {
+    arity: [1, 1],
+    evaluate: ([s]) => String(s ?? "").toUpperCase(),
+  },
+  trim: {
+    arity: [1, 1],
+    evaluate: ([s]) => String(s ?? "").trim(),
+  },
+  length: {
+    arity: [1, 1],
+    evaluate: ([s]) => String(s ?? "").length,
+  },
+  substring: {
+    arity: [2, 3],
+    evaluate: ([s, start, end]) =>
+      String(s ?? "").substring(
+        Number(start) || 0,
+        end !== undefined ? Number(end) : undefined,
+      ),
+  },
+
+  // Math
+  abs: { arity: [1, 1], evaluate: ([n]) => Math.abs(Number(n)) },
+  round: { arity: [1, 1], evaluate: ([n]) => Math.round(Number(n)) },
+  floor: { arity: [1, 1], evaluate: ([n]) => Math.floor(Number(n)) },
+  ceil: { arity: [1, 1], evaluate: ([n]) => Math.ceil(Number(n)) },
+
+  coalesce: {
+    arity: [1, Infinity],
+    evaluate: (args) => args.find(isPresent) ?? null,
+  },
+
+  // Arrays and JSON (see arrays.ts)
+  array_length: {
+    arity: [1, 1],
+    evaluate: ([a]) => (Array.isArray(a) ? a.length : null),
+  },
+  contains: {
+    arity: [2, 2],
+    evaluate: ([a, v]) =>
+      Array.isArray(a) ? a.some((element) => sameValue(element, v)) : null,
+  },
+  element_at: {
+    arity: [2, 2],
+    evaluate: ([a, n]) =>
+      Array.isArray(a) ? arrayElement(a, Number(n)) : null,
+  },
+  json_extract: {
+    arity: [2, 2],
+    evaluate: ([v, path]) => extractJsonPath(v, String(path)),
+  },
+
+  // Datetimes (see datetime.ts)
+  now: { arity: [0, 0], evaluate: () => new Date().toISOString() },
+  date_trunc: {
+    arity: [2, 2],
+    evaluate: ([unit, t]) => {
+      const ms = parseDatetime(t);
+      return datetimeOrNull(
+        ms === undefined ? undefined : truncateDatetime(ms, String(unit)),
+      );
+    },
+  },
+  date_add: shift(1),
+  date_sub: shift(-1),
+  extract: {
+    arity: [2, 2],
+    evaluate: ([part, t]) => {
+      const ms = parseDatetime(t);
+      return ms === undefined ? null : (extractPart(ms, String(part)) ?? null);
+    },
+  },
+  date_diff: {
+    arity: [2, 2],
+    evaluate: ([a, b]) => {
+      const end = parseDatetime(a);
+      const start = parseDatetime(b);
+      return end === undefined || start === undefined
+        ? null
+        : (end - start) / 1000;
+    },
+  },
+  age: {
+    arity: [1, 1],
+    evaluate: ([t]) => {
+      const ms = parseDatetime(t);
+      return ms === undefined ? null : (Date.now() - ms) / 1000;
+    },
+  },
+  parse_datetime: {
+    arity: [1, 1],
+    evaluate: ([t]) => datetimeOrNull(parseDatetime(t)),
+  },
+  format_datetime: {
+    arity: [1, 2],
+    evaluate: ([t, pattern]) => {
+      const ms = parseDatetime(t);
+      return ms === undefined
+        ? null
+        : formatDatetime(ms, pattern === undefined ? undefined : String(pattern));
+    },
+  },
+};
+
+/** A new registry holding the standard builtins, for a host to extend */
+export function createBuiltinRegistry(): BuiltinRegistry {
+  return new BuiltinRegistry(STANDARD_BUILTINS);
+}
+
+/** The standard builtins, used wherever no other registry is given */
+export const defaultBuiltins = createBuiltinRegistry();
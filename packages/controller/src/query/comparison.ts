@@ -0,0 +1,414 @@
+import type { Comparison, LogicalOp } from "@avaast/shared";
+import { sameValue } from "./arrays.js";
+import { isDecimal } from "./literals.js";
+import { parseDatetime } from "./datetime.js";
+
+/**
+ * The comparison model shared by the query engine, SQL pushdown (through
+ * the SQL function below) and subscription filters.
+ *
+ * Comparisons are three-valued, as in SQL: a null or missing operand makes
+ * the result unknown (`null`) rather than false, except for `isNull` and
+ * `isNotNull`. `and`, `or` and `not` propagate unknown the SQL way, and
+ * filters keep only rows whose condition is true.
+ *
+ * Before comparing, booleans count as 1 and 0 (as SQLite stores them) and
+ * a string holding a decimal number compared with a number is read as that
+ * number, so `"5"` equals `5`. Other values of different types are never
+ * equal; numbers order before strings. Objects and arrays are equal by
+ * content and have no order. Arithmetic reads its operands the same way
+ * (see `toNumber`).
+ */
+export type Truth = boolean | null;
+
+export type ComparisonOp = Comparison["op"];
+
+const PATTERN_OPS = new Set<ComparisonOp>(["like", "ilike", "regex"]);
+
+/** Name of the SQL function SqlCompiler emits for comparisons */
+export const SQL_COMPARE_FUNCTION = "avaas_compare";
+
+/** Name of the SQL function SqlCompiler wraps arithmetic operands in */
+export const SQL_NUMBER_FUNCTION = "avaas_number";
+
+export interface CompareOptions {
+  /** Compare as instants (see datetime.ts); unparseable values are null */
+  datetime?: boolean;
+}
+
+export function compareValues(
+  op: ComparisonOp,
+  left: unknown,
+  right: unknown,
+  options: CompareOptions = {},
+): Truth {
+  if (op === "isNull") return isMissing(left);
+  if (op === "isNotNull") return !isMissing(left);
+
+  const read =
+    options.datetime && !PATTERN_OPS.has(op)
+      ? (v: unknown) => parseDatetime(v) ?? null
+      : (v: unknown) => v;
+  const a = read(left);
+  if (isMissing(a)) return null;
+
+  switch (op) {
+    case "in":
+    case "notIn": {
+      if (!Array.isArray(right)) return null;
+      let unknown = false;
+      for (const element of right) {
+        const equal = equals(a, read(element));
+        if (equal === true) return op === "in";
+        if (equal === null) unknown = true;
+      }
+      return unknown ? null : op === "notIn";
+    }
+    case "between": {
+      if (!Array.isArray(right)) return null;
+      return and([
+        () => compareValues("gte", a, read(right[0])),
+        () => compareValues("lte", a, read(right[1])),
+      ]);
+    }
+    default:
+      break;
+  }
+
+  const b = read(right);
+  if (isMissing(b)) return null;
+
+  switch (op) {
+    case "eq":
+      return equals(a, b);
+    case "neq": {
+      const equal = equals(a, b);
+      return equal === null ? null : !equal;
+    }
+    case "gt":
+    case "gte":
+    case "lt":
+    case "lte": {
+      const order = compareOrder(a, b);
+      if (order === null) return null;
+      if (op === "gt") return order > 0;
+      if (op === "gte") return order >= 0;
+      if (op === "lt") return order < 0;
+      return order <= 0;
+    }
+    case "like":
+    case "ilike": {
+      if (typeof b !== "string" || typeof a === "object") return null;
+      return likePattern(b, op === "ilike").test(String(a));
+    }
+    case "regex": {
+      if (typeof b !== "string" || typeof a === "object") return null;
+      const pattern = compileRegex(b);
+      return pattern ? pattern.test(String(a)) : null;
+    }
+    default:
+      throw new Error(`Unknown comparison op: ${op}`);
+  }
+}
+
+/**
+ * `and`/`or`/`not` over operands, evaluated lazily: `and` stops at the
+ * first false and `or` at the first true. Non-boolean values count by
+ * their truthiness, and null or missing ones as unknown.
+ */
+export function logicalTruth<T>(
+  op: LogicalOp["op"],
+  operands: T[],
+  evaluate: (operand: T) => unknown,
+): Truth {
+  switch (op) {
+    case "and":
+      return and(operands.map((o) => () => evaluate(o)));
+    case "or": {
+      let unknown = false;
+      for (const operand of operands) {
+        const value = toTruth(evaluate(operand));
+        if (value === true) return true;
+        if (value === null) unknown = true;
+      }
+      return unknown ? null : false;
+    }
+    case "not": {
+      const value = toTruth(evaluate(operands[0]!));
+      return value === null ? null : !value;
+    }
+    default:
+      throw new Error(`Unknown logical op: ${op}`);
+  }
+}
+
+export function toTruth(value: unknown): Truth {
+  return isMissing(value) ? null : Boolean(value);
+}
+
+/**
+ * The comparison model as a SQLite function:
+ * `avaas_compare(op, left, right, datetime)` returns 1, 0 or NULL.
+ */
+export function sqlCompare(
+  op: unknown,
+  left: unknown,
+  right: unknown,
+  datetime: unknown,
+): number | null {
+  const result = compareValues(op as ComparisonOp, left, right, {
+    datetime: datetime === 1,
+  });
+  return result === null ? null : Number(result);
+}
+
+/**
+ * An arithmetic operand as a number: booleans as 1/0 and strings holding a
+ * decimal number as that number. Anything else is null, so `"1" + 2` is 3
+ * and `"ahoy" + 2` is null. As a SQLite function, `avaas_number(value)`.
+ */
+export function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isNaN(value) ? null : value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "string" && isDecimal(value)) return Number(value);
+  return null;
+}
+
+/** Whether a comparison pattern is valid for its op */
+export function patternError(op: ComparisonOp, pattern: string): string | undefined {
+  if (op === "regex") {
+    const hazard = regexHazard(pattern);
+    if (hazard) return `regular expression ${pattern} ${hazard}`;
+    if (!compileRegex(pattern)) return `invalid regular expression ${pattern}`;
+  }
+  if ((op === "like" || op === "ilike") && /\\$/.test(pattern.replace(/\\\\/g, ""))) {
+    return `${op} pattern ${pattern} ends with an unfinished escape`;
+  }
+  return undefined;
+}
+
+function isMissing(value: unknown): value is null | undefined {
+  return value === null || value === undefined;
+}
+
+/** Three-valued `and` of lazily evaluated operands */
+function and(operands: Array<() => unknown>): Truth {
+  let unknown = false;
+  for (const operand of operands) {
+    const value = toTruth(operand());
+    if (value === false) return false;
+    if (value === null) unknown = true;
+  }
+  return unknown ? null : true;
+}
+
+/** Booleans as 1/0, and numeric strings as numbers when `other` is a number */
+function coerce(value: unknown, other: unknown): unknown {
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (
+    typeof value === "string" &&
+    (typeof other === "number" || typeof other === "boolean") &&
+    isDecimal(value)
+  ) {
+    return Number(value);
+  }
+  return value;
+}
+
+function equals(left: unknown, right: unknown): Truth {
+  if (isMissing(left) || isMissing(right)) return null;
+  const a = coerce(left, right);
+  const b = coerce(right, left);
+  if (typeof a === "object" || typeof b === "object") return sameValue(a, b);
+  return a === b;
+}
+
+/**
+ * The order ORDER BY sorts non-null values in, shared by the in-memory sort
+ * and SQL pushdown. It is SQLite's own order of the values SqlCompiler reads
+ * out of records, so a pushed-down ORDER BY needs no function of its own:
+ * numbers (booleans as 1 and 0) before strings, strings by code point as in
+ * SQLite's binary collation, and objects and arrays as their JSON text,
+ * which is how SQLite reads them. Unlike comparisons, a sort never reads
+ * strings as numbers, as that would not be one consistent order.
+ */
+export function sortOrder(left: unknown, right: unknown): number {
+  const a = sortValue(left);
+  const b = sortValue(right);
+  if (typeof a !== typeof b) return typeof a === "number" ? -1 : 1;
+  return compareOrder(a, b) ?? 0;
+}
+
+function sortValue(value: unknown): number | string {
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "number" || typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+/** Negative, zero or positive; null when the values have no order */
+function compareOrder(left: unknown, right: unknown): number | null {
+  const a = coerce(left, right);
+  const b = coerce(right, left);
+  const rank = (v: unknown) =>
+    typeof v === "number" ? 0 : typeof v === "string" ? 1 : undefined;
+  const ra = rank(a);
+  const rb = rank(b);
+  if (ra === undefined || rb === undefined) return null;
+  if (ra !== rb) return ra - rb;
+  if (typeof a === "number") {
+    if (Number.isNaN(a) || Number.isNaN(b)) return null;
+    return a - (b as number);
+  }
+  return compareText(a as string, b as string);
+}
+
+/**
+ * Strings by code point, as SQLite's default collation orders their UTF-8
+ * bytes. UTF-16 code units differ from that only for surrogates, which
+ * encode code points above every other unit.
+ */
+function compareText(a: string, b: string): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    const x = a.charCodeAt(i);
+    const y = b.charCodeAt(i);
+    if (x === y) continue;
+    const xSurrogate = x >= 0xd800 && x <= 0xdfff;
+    const ySurrogate = y >= 0xd800 && y <= 0xdfff;
+    if (xSurrogate !== ySurrogate) return xSurrogate ? 1 : -1;
+    return x - y;
+  }
+  return a.length - b.length;
+}
+
+const likeCache = new Map<string, RegExp>();
+
+/**
+ * A regex for a LIKE pattern: `%` matches any run of characters, `_` one
+ * character, and `\` makes the next character literal. Everything else,
+ * regex metacharacters included, matches itself.
+ */
+function likePattern(pattern: string, ignoreCase: boolean): RegExp {
+  const key = `${ignoreCase ? "i" : "s"}:${pattern}`;
+  let regex = likeCache.get(key);
+  if (!regex) {
+    let source = "";
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i]!;
+      if (char === "\\" && i + 1 < pattern.length) {
+        source += escapeRegex(pattern[++i]!);
+      } else if (char === "%") {
+        source += "[\\s\\S]*";
+      } else if (char === "_") {
+        source += "[\\s\\S]";
+      } else {
+        source += escapeRegex(char);
+      }
+    }
+    regex = new RegExp(`^${source}$`, ignoreCase ? "iu" : "u");
+    cacheRegex(likeCache, key, regex);
+  }
+  return regex;
+}
+
+const regexCache = new Map<string, RegExp | null>();
+
+/** Null for patterns that do not parse or that regexHazard refuses */
+function compileRegex(pattern: string): RegExp | null {
+  let regex = regexCache.get(pattern);
+  if (regex === undefined) {
+    try {
+      regex = regexHazard(pattern) ? null : new RegExp(pattern, "u");
+    } catch {
+      regex = null;
+    }
+    cacheRegex(regexCache, pattern, regex);
+  }
+  return regex;
+}
+
+const MAX_REGEX_LENGTH = 256;
+
+/**
+ * Why a regex could take exponential time to backtrack, or undefined.
+ * JavaScript regexes backtrack, so patterns longer than MAX_REGEX_LENGTH,
+ * backreferences, and groups repeated by `*`, `+` or `{}` that hold a
+ * quantifier or an alternation (`(a+)+`, `(a|aa)*`) are refused.
+ */
+function regexHazard(pattern: string): string | undefined {
+  if (pattern.length > MAX_REGEX_LENGTH) {
+    return `is longer than ${MAX_REGEX_LENGTH} characters`;
+  }
+  // Whether each open group holds a quantifier or alternation
+  const groups: boolean[] = [];
+  const mark = () => {
+    if (groups.length > 0) groups[groups.length - 1] = true;
+  };
+  let closedComplex = false;
+  let quantified = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+    const afterComplex = closedComplex;
+    const afterQuantifier = quantified;
+    closedComplex = false;
+    quantified = false;
+    switch (char) {
+      case "\\":
+        if (/[1-9k]/.test(pattern[++i] ?? "")) return "uses a backreference";
+        break;
+      case "[":
+        for (i++; i < pattern.length && pattern[i] !== "]"; i++) {
+          if (pattern[i] === "\\") i++;
+        }
+        break;
+      case "(":
+        groups.push(false);
+        // Skip the `?:`, `?=`, `?!`, `?<=`, `?<!` or `?<name>` of the group
+        if (pattern[i + 1] === "?") {
+          i += 2;
+          if (pattern[i] === "<" && pattern[i + 1] !== "=" && pattern[i + 1] !== "!") {
+            while (i < pattern.length && pattern[i] !== ">") i++;
+          } else if (pattern[i] === "<") {
+            i++;
+          }
+        }
+        break;
+      case ")":
+        closedComplex = groups.pop() ?? false;
+        if (closedComplex) mark();
+        break;
+      case "|":
+        mark();
+        break;
+      case "*":
+      case "+":
+      case "{":
+        if (afterComplex) return "repeats a group holding a quantifier or alternation";
+        if (char === "{") while (i < pattern.length && pattern[i] !== "}") i++;
+        mark();
+        quantified = true;
+        break;
+      case "?":
+        // A `?` after a quantifier makes it lazy
+        if (!afterQuantifier) mark();
+        quantified = true;
+        break;
+      default:
+        break;
+    }
+  }
+  return undefined;
+}
+
+const REGEX_CACHE_SIZE = 500;
+
+function cacheRegex<T>(cache: Map<string, T>, key: string, value: T): void {
+  if (cache.size >= REGEX_CACHE_SIZE) {
+    cache.delete(cache.keys().next().value!);
+  }
+  cache.set(key, value);
+}
+
+function escapeRegex(char: string): string {
+  return char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
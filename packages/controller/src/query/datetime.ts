@@ -0,0 +1,249 @@
+import type { Expression, OutputField, SelectField } from "@avaast/shared";
+
+/** Builtins whose result is a datetime */
+export const DATETIME_BUILTINS = new Set([
+  "now",
+  "date_trunc",
+  "date_add",
+  "date_sub",
+  "parse_datetime",
+]);
+
+export const TRUNCATE_UNITS = [
+  "second",
+  "minute",
+  "hour",
+  "day",
+  "week",
+  "month",
+  "year",
+] as const;
+
+export const EXTRACT_PARTS = [
+  "year",
+  "month",
+  "day",
+  "hour",
+  "minute",
+  "second",
+  "dow",
+  "doy",
+  "epoch",
+] as const;
+
+const ISO_8601 =
+  /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+const DURATION =
+  /^P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i;
+
+const MS_PER_DAY = 86_400_000;
+
+/**
+ * Milliseconds since the epoch for an ISO 8601 string or an epoch
+ * millisecond number; undefined for anything else. Times without a zone
+ * are UTC, as SQLite reads them.
+ */
+export function parseDatetime(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value !== "string") return undefined;
+  const text = value.trim();
+  const match = ISO_8601.exec(text);
+  if (!match) return undefined;
+  // Date.parse reads date-times without a zone as local time
+  const iso = text.replace(" ", "T");
+  const ms = Date.parse(iso.length > 10 && !match[1] ? `${iso}Z` : iso);
+  return Number.isNaN(ms) ? undefined : ms;
+}
+
+export function toIsoString(ms: number): string {
+  return new Date(ms).toISOString();
+}
+
+/**
+ * An ISO 8601 duration such as `PT24H` or `P1M2D`. Years and months are
+ * kept apart from the fixed-length remainder, since their length depends
+ * on the date they are added to.
+ */
+export interface Interval {
+  months: number;
+  ms: number;
+}
+
+export function parseInterval(value: unknown): Interval | undefined {
+  if (typeof value !== "string") return undefined;
+  const match = DURATION.exec(value.trim());
+  if (!match || value.trim() === "P" || /T$/i.test(value.trim())) {
+    return undefined;
+  }
+  const [years, months, weeks, days, hours, minutes, seconds] = match
+    .slice(1)
+    .map((part) => Number(part ?? 0));
+  return {
+    months: years! * 12 + months!,
+    ms:
+      (weeks! * 7 + days!) * MS_PER_DAY +
+      hours! * 3_600_000 +
+      minutes! * 60_000 +
+      Math.round(seconds! * 1000),
+  };
+}
+
+/**
+ * Add an interval `sign` times. Adding months keeps the day of the month,
+ * clamped to the last day of a shorter month.
+ */
+export function addInterval(ms: number, interval: Interval, sign: 1 | -1): number {
+  let result = ms;
+  if (interval.months) {
+    const date = new Date(ms);
+    const day = date.getUTCDate();
+    date.setUTCDate(1);
+    date.setUTCMonth(date.getUTCMonth() + sign * interval.months);
+    const lastDay = new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0),
+    ).getUTCDate();
+    date.setUTCDate(Math.min(day, lastDay));
+    result = date.getTime();
+  }
+  return result + sign * interval.ms;
+}
+
+/** Round down to the start of a unit, in UTC. Weeks start on Monday. */
+export function truncateDatetime(ms: number, unit: string): number | undefined {
+  const date = new Date(ms);
+  switch (unit) {
+    case "second":
+      date.setUTCMilliseconds(0);
+      break;
+    case "minute":
+      date.setUTCSeconds(0, 0);
+      break;
+    case "hour":
+      date.setUTCMinutes(0, 0, 0);
+      break;
+    case "day":
+      date.setUTCHours(0, 0, 0, 0);
+      break;
+    case "week":
+      date.setUTCHours(0, 0, 0, 0);
+      date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+      break;
+    case "month":
+      date.setUTCHours(0, 0, 0, 0);
+      date.setUTCDate(1);
+      break;
+    case "year":
+      date.setUTCHours(0, 0, 0, 0);
+      date.setUTCMonth(0, 1);
+      break;
+    default:
+      return undefined;
+  }
+  return date.getTime();
+}
+
+/** A numeric part of a datetime, in UTC. `dow` counts from Sunday = 0. */
+export function extractPart(ms: number, part: string): number | undefined {
+  const date = new Date(ms);
+  switch (part) {
+    case "year":
+      return date.getUTCFullYear();
+    case "month":
+      return date.getUTCMonth() + 1;
+    case "day":
+      return date.getUTCDate();
+    case "hour":
+      return date.getUTCHours();
+    case "minute":
+      return date.getUTCMinutes();
+    case "second":
+      return date.getUTCSeconds();
+    case "dow":
+      return date.getUTCDay();
+    case "doy":
+      return (
+        Math.floor(
+          (ms - Date.UTC(date.getUTCFullYear(), 0, 1)) / MS_PER_DAY,
+        ) + 1
+      );
+    case "epoch":
+      return ms / 1000;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Format a datetime in UTC with strftime directives: `%Y %m %d %H %M %S`,
+ * `%f` (seconds with milliseconds), `%j` (day of year), `%w` (day of week)
+ * and `%%`. Without a pattern the result is ISO 8601.
+ */
+export function formatDatetime(ms: number, pattern?: string): string {
+  if (pattern === undefined) return toIsoString(ms);
+  const date = new Date(ms);
+  const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+  return pattern.replace(/%([YmdHMSfjw%])/g, (_, directive: string) => {
+    switch (directive) {
+      case "Y":
+        return pad(date.getUTCFullYear(), 4);
+      case "m":
+        return pad(date.getUTCMonth() + 1);
+      case "d":
+        return pad(date.getUTCDate());
+      case "H":
+        return pad(date.getUTCHours());
+      case "M":
+        return pad(date.getUTCMinutes());
+      case "S":
+        return pad(date.getUTCSeconds());
+      case "f":
+        return `${pad(date.getUTCSeconds())}.${pad(date.getUTCMilliseconds(), 3)}`;
+      case "j":
+        return pad(extractPart(ms, "doy")!, 3);
+      case "w":
+        return String(date.getUTCDay());
+      default:
+        return "%";
+    }
+  });
+}
+
+/**
+ * The record fields a query or subscription reads as datetimes: those it
+ * selects, as-is, into an output field declared `datetime`. Keys are
+ * `alias.field`.
+ */
+export function datetimeFields(
+  select: SelectField[],
+  outputSchema: OutputField[] | undefined,
+): Set<string> {
+  const fields = new Set<string>();
+  const selected = new Map(select.map((f) => [f.alias, f.value]));
+  for (const field of outputSchema ?? []) {
+    const value = selected.get(field.name);
+    if (field.schema.type === "datetime" && value?.type === "fieldRef") {
+      fields.add(`${value.source}.${value.field}`);
+    }
+  }
+  return fields;
+}
+
+/** Whether an expression holds a datetime, so comparisons on it compare instants */
+export function isDatetime(
+  expr: Expression,
+  fields: ReadonlySet<string>,
+): boolean {
+  switch (expr.type) {
+    case "fieldRef":
+      return fields.has(`${expr.source}.${expr.field}`);
+    case "builtinCall":
+      return DATETIME_BUILTINS.has(expr.name);
+    case "literal":
+      return expr.datetimeValue !== undefined;
+    default:
+      return false;
+  }
+}
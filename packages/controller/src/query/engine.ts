@@ -2,20 +2,128 @@ import { createLogger } from "@avaast/shared";
 import type {
   Query,
   Expression,
-  Comparison,
-  LogicalOp,
-  ArithmeticOp,
-  BuiltinCall,
+  FunctionCall,
+  FieldRef,
+  ResourceRef,
+  WindowCall,
+  QuerySource,
+  Source,
+  SubquerySource,
+  ComputedRecord,
+  OutputField,
 } from "@avaast/shared";
-import { QueryPlanner, type QueryPlan, type PipelineStep } from "./planner.js";
+import {
+  QueryPlanner,
+  type QueryPlan,
+  type PipelineStep,
+  type OrderClause,
+} from "./planner.js";
 import { QueryCache } from "./cache.js";
-import type { DataSourceAdapter } from "./sources.js";
+import { supportsSql, type DataSourceAdapter } from "./sources.js";
+import type { FunctionInvoker } from "./functions.js";
+import { coerceParams, InvalidParamsError } from "./params.js";
+import { applyOutputSchema } from "./output-schema.js";
+import {
+  isCollectionSource,
+  correlatedRefs,
+  childExpressions,
+} from "./subqueries.js";
+import { isDecimal } from "./literals.js";
+import { compareValues } from "./comparison.js";
+import { datetimeFields } from "./datetime.js";
+import { defaultBuiltins, type BuiltinRegistry } from "./builtins.js";
+import {
+  ExpressionRuntime,
+  compareKeys,
+  type EvalScope,
+  type HostExpression,
+} from "./runtime.js";
+import {
+  encodeCursor,
+  type CursorPosition,
+  type PageRequest,
+} from "./pagination.js";
 
 type Row = Record<string, unknown>;
 
+/** Outer field refs of each nested query, computed on first use */
+const correlationRefs = new WeakMap<Query, FieldRef[]>();
+
 export interface QueryEngineOptions {
   dataSource: DataSourceAdapter;
   defaultDid?: string;
+  functionInvoker?: FunctionInvoker;
+  /** Look up computed records used as sources */
+  resolveComputed?: (ref: ResourceRef) => ComputedRecord | undefined;
+  /** Builtins expressions may call; the standard ones by default */
+  builtins?: BuiltinRegistry;
+  /**
+   * Bound on one execution in milliseconds, nested queries and computed
+   * sources included. Checked before each pipeline step and passed to
+   * function calls as their deadline.
+   */
+  queryTimeout?: number;
+}
+
+const DEFAULT_QUERY_TIMEOUT_MS = 60_000;
+
+/**
+ * Per-execution state threaded through expression evaluation.
+ * Function calls are resolved in batches ahead of each pipeline step and
+ * looked up here by `functionCallKey` during synchronous evaluation.
+ * Window calls are computed by the window step, per call and row, and
+ * nested queries ahead of each step, per query and correlation key.
+ */
+export interface EvalContext extends EvalScope {
+  functionResults: Map<string, unknown>;
+  windowResults: Map<WindowCall, Map<Row, unknown>>;
+  subqueryResults: Map<Query, Map<string, Row[]>>;
+  /** Rows of the CTEs in scope, by name */
+  ctes: Map<string, Row[]>;
+  /** Output of computed records used as sources, by ref key */
+  computedResults: Map<string, Row[]>;
+  /**
+   * Records read by collection sources, and rows by SQL statement and
+   * params, so a nested query run for each correlation key fetches once
+   */
+  fetched: Map<Source | string, Row[]>;
+  /** Computed records being evaluated, outermost first */
+  computing: string[];
+  /** Computed sources add their datetime output fields as they load */
+  datetimeFields: Set<string>;
+  /** When the execution must be done, in epoch milliseconds */
+  deadline: number;
+}
+
+/** What one pipeline step did during an explained execution */
+export interface StepTrace {
+  step: PipelineStep;
+  /** Rows flowing out of the step */
+  rows: number;
+  durationMs: number;
+}
+
+export interface ExecuteOptions {
+  cacheTtl?: number;
+  version?: string;
+  page?: PageRequest;
+  /** Fields selected into datetime output fields compare as instants */
+  outputSchema?: OutputField[];
+}
+
+export interface QueryResult {
+  results: unknown[];
+  cached: boolean;
+  /** Cursor for the page after this one, when paginating */
+  cursor?: string;
+}
+
+export interface QueryExplanation {
+  plan: QueryPlan;
+  steps: StepTrace[];
+  /** Whether a cached result existed; explain always executes the plan */
+  cacheHit: boolean;
+  rowCount: number;
 }
 
 export class QueryEngine {
@@ -24,35 +132,90 @@ export class QueryEngine {
   private cache = new QueryCache();
   private dataSource: DataSourceAdapter;
   private defaultDid?: string;
+  private functionInvoker?: FunctionInvoker;
+  private resolveComputed?: (ref: ResourceRef) => ComputedRecord | undefined;
+  private builtins: BuiltinRegistry;
+  private queryTimeout: number;
+  private runtime: ExpressionRuntime<EvalContext>;
 
   constructor(options: QueryEngineOptions) {
     this.dataSource = options.dataSource;
     this.defaultDid = options.defaultDid;
+    this.functionInvoker = options.functionInvoker;
+    this.resolveComputed = options.resolveComputed;
+    this.builtins = options.builtins ?? defaultBuiltins;
+    this.queryTimeout = options.queryTimeout ?? DEFAULT_QUERY_TIMEOUT_MS;
+    this.runtime = new ExpressionRuntime<EvalContext>({
+      builtins: this.builtins,
+      evaluateHost: (expr, row, ctx) => this.evaluateHost(expr, row, ctx),
+    });
   }
 
   async execute(
     query: Query,
-    params: Record<string, string> = {},
-    options?: { cacheTtl?: number; version?: string },
-  ): Promise<{ results: unknown[]; cached: boolean }> {
-    const cacheKey = this.buildCacheKey(query, params);
+    params: Record<string, unknown> = {},
+    options?: ExecuteOptions,
+  ): Promise<QueryResult> {
+    const cacheKey = this.buildCacheKey(query, params, options?.page);
     const version = options?.version ?? "default";
 
     if (options?.cacheTtl) {
-      const cached = this.cache.get<unknown[]>(cacheKey, version);
+      const cached = this.cache.get<Omit<QueryResult, "cached">>(
+        cacheKey,
+        version,
+      );
       if (cached) {
-        return { results: cached, cached: true };
+        return { ...cached, cached: true };
       }
     }
 
-    const plan = this.planner.plan(query);
-    const results = await this.executePlan(plan, params);
+    const ctx = await this.enterQuery(
+      query,
+      this.createContext(
+        params,
+        datetimeFields(query.select, options?.outputSchema),
+      ),
+    );
+    const plan = this.planQuery(query, ctx, options?.page);
+    const { rows, cursor } = await this.executePlan(plan, ctx);
+    const result = { results: rows as unknown[], cursor };
 
     if (options?.cacheTtl) {
-      this.cache.set(cacheKey, results, options.cacheTtl, version);
+      this.cache.set(cacheKey, result, options.cacheTtl, version);
     }
 
-    return { results, cached: false };
+    return { ...result, cached: false };
+  }
+
+  /**
+   * Plan and execute a query while recording row counts and timings for
+   * each pipeline step. The cache is consulted but neither read from nor
+   * written to, so the trace always reflects a full execution.
+   */
+  async explain(
+    query: Query,
+    params: Record<string, unknown> = {},
+    options?: ExecuteOptions,
+  ): Promise<QueryExplanation> {
+    const cacheHit = options?.cacheTtl
+      ? this.cache.get(
+          this.buildCacheKey(query, params, options.page),
+          options.version ?? "default",
+        ) !== undefined
+      : false;
+
+    const ctx = await this.enterQuery(
+      query,
+      this.createContext(
+        params,
+        datetimeFields(query.select, options?.outputSchema),
+      ),
+    );
+    const plan = this.planQuery(query, ctx, options?.page);
+    const steps: StepTrace[] = [];
+    const { rows } = await this.executePlan(plan, ctx, steps);
+
+    return { plan, steps, cacheHit, rowCount: rows.length };
   }
 
   invalidateCache(prefix?: string): void {
@@ -63,75 +226,300 @@ export class QueryEngine {
     }
   }
 
+  /**
+   * Sources backed by the record mirror run as much of the query as
+   * possible in SQLite.
+   */
+  private planQuery(
+    query: Query,
+    ctx: EvalContext,
+    page?: PageRequest,
+  ): QueryPlan {
+    return this.planner.plan(query, {
+      pushdown: supportsSql(this.dataSource),
+      defaultDid: this.defaultDid,
+      page,
+      datetimeFields: ctx.datetimeFields,
+    });
+  }
+
+  private createContext(
+    params: Record<string, unknown>,
+    datetimes: Set<string> = new Set(),
+  ): EvalContext {
+    return {
+      params,
+      functionResults: new Map(),
+      windowResults: new Map(),
+      subqueryResults: new Map(),
+      ctes: new Map(),
+      computedResults: new Map(),
+      fetched: new Map(),
+      computing: [],
+      datetimeFields: datetimes,
+      deadline: Date.now() + this.queryTimeout,
+    };
+  }
+
+  private checkDeadline(ctx: EvalContext): void {
+    if (Date.now() >= ctx.deadline) {
+      throw new Error(`Query exceeded its ${this.queryTimeout}ms time limit`);
+    }
+  }
+
+  /**
+   * Bring a query's CTEs into scope. Each is evaluated once, in order, so
+   * it can read the CTEs declared before it and those of enclosing queries.
+   */
+  private async enterQuery(
+    query: Query,
+    ctx: EvalContext,
+  ): Promise<EvalContext> {
+    if (!query.with?.length) return ctx;
+    const scoped: EvalContext = { ...ctx, ctes: new Map(ctx.ctes) };
+    for (const cte of query.with) {
+      scoped.ctes.set(cte.name, await this.runQuery(cte.query, scoped));
+    }
+    return scoped;
+  }
+
+  /** Execute a nested query in the context of the query enclosing it */
+  private async runQuery(query: Query, ctx: EvalContext): Promise<Row[]> {
+    const scoped = await this.enterQuery(query, ctx);
+    const { rows } = await this.executePlan(
+      this.planQuery(query, scoped),
+      scoped,
+    );
+    return rows;
+  }
+
+  private async loadSource(
+    source: QuerySource,
+    ctx: EvalContext,
+  ): Promise<Row[]> {
+    const rows = isCollectionSource(source)
+      ? await this.collectionRows(source, ctx)
+      : await this.derivedRows(source, ctx);
+    return rows.map((r) => this.aliasRow(source.alias, r));
+  }
+
+  private async collectionRows(source: Source, ctx: EvalContext): Promise<Row[]> {
+    let rows = ctx.fetched.get(source);
+    if (!rows) {
+      rows = (await this.dataSource.fetchRecords(source, this.defaultDid)) as Row[];
+      ctx.fetched.set(source, rows);
+    }
+    return rows;
+  }
+
+  private async derivedRows(
+    source: SubquerySource,
+    ctx: EvalContext,
+  ): Promise<Row[]> {
+    if (source.query) return this.runQuery(source.query, ctx);
+    if (source.computed) {
+      return this.computedRows(source.computed, source.alias, ctx);
+    }
+    if (source.cte) {
+      const rows = ctx.ctes.get(source.cte);
+      if (!rows) throw new Error(`Unknown CTE: ${source.cte}`);
+      return rows;
+    }
+    if (source.unnest) {
+      // As the primary source, there is no row to read fields from
+      await this.resolveFunctionCalls([source.unnest], [{}], ctx);
+      return unnestRows(this.evaluateExpression(source.unnest, {}, ctx));
+    }
+    throw new Error(
+      `Source ${source.alias} has no collection, query, cte, computed or unnest`,
+    );
+  }
+
+  /**
+   * Rows of another computed record, shaped by its outputSchema as its
+   * endpoint would return them without params. Within one execution each
+   * record runs once; across executions its results are cached under the
+   * record's own cacheTtl, so every view reading it shares them. Its
+   * datetime output fields compare as datetimes under `alias`.
+   */
+  private async computedRows(
+    ref: ResourceRef,
+    alias: string,
+    ctx: EvalContext,
+  ): Promise<Row[]> {
+    const key = `${ref.did}:${ref.cid}`;
+    if (ctx.computing.includes(key)) {
+      throw new Error(
+        `Circular computed source: ${[...ctx.computing, key].join(" -> ")}`,
+      );
+    }
+    const record = this.resolveComputed?.(ref);
+    if (!record) throw new Error(`Unknown computed source: ${key}`);
+    for (const field of record.outputSchema) {
+      if (field.schema.type === "datetime") {
+        ctx.datetimeFields.add(`${alias}.${field.name}`);
+      }
+    }
+
+    const known = ctx.computedResults.get(key);
+    if (known) return known;
+
+    // The record runs as its own query: none of the enclosing params,
+    // CTEs or rows are visible to it
+    const params = coerceParams(record.parameters, {});
+    const cacheKey = this.buildCacheKey(record.query, params);
+    let results = record.cacheTtl
+      ? this.cache.get<Omit<QueryResult, "cached">>(cacheKey, key)?.results
+      : undefined;
+    if (!results) {
+      const inner: EvalContext = {
+        ...this.createContext(
+          params,
+          datetimeFields(record.query.select, record.outputSchema),
+        ),
+        computedResults: ctx.computedResults,
+        computing: [...ctx.computing, key],
+        deadline: ctx.deadline,
+      };
+      results = await this.runQuery(record.query, inner);
+      if (record.cacheTtl) {
+        this.cache.set(cacheKey, { results }, record.cacheTtl, key);
+      }
+    }
+
+    const rows = applyOutputSchema(results, record.outputSchema) as Row[];
+    ctx.computedResults.set(key, rows);
+    return rows;
+  }
+
   private async executePlan(
     plan: QueryPlan,
-    params: Record<string, string>,
-  ): Promise<unknown[]> {
+    ctx: EvalContext,
+    trace?: StepTrace[],
+  ): Promise<{ rows: Row[]; cursor?: string }> {
     const datasets = new Map<string, Row[]>();
+    const params = ctx.params;
     let rows: Row[] = [];
+    let cursor: string | undefined;
 
     for (const step of plan.pipeline) {
+      this.checkDeadline(ctx);
+      const stepStart = performance.now();
+
       switch (step.type) {
         case "fetch": {
           const sourcePlan = plan.sources.find((s) => s.alias === step.alias);
           if (!sourcePlan) throw new Error(`Unknown source: ${step.alias}`);
-          const records = await this.dataSource.fetchRecords(
-            sourcePlan.source,
-            this.defaultDid,
-          );
-          const aliasedRows = records.map((r) =>
-            this.aliasRow(step.alias, r as Row),
-          );
+          const aliasedRows = await this.loadSource(sourcePlan.source, ctx);
           datasets.set(step.alias, aliasedRows);
           rows = aliasedRows;
           break;
         }
 
+        case "sql": {
+          if (!supportsSql(this.dataSource)) {
+            throw new Error("Data source does not support SQL queries");
+          }
+          const sqlParams: Record<string, unknown> = {};
+          step.params.forEach((p, i) => {
+            const value = p.kind === "param" ? params[p.name] : p.value;
+            // SQLite has no boolean type; records store them as 1/0 too
+            sqlParams[`p${i}`] =
+              typeof value === "boolean" ? Number(value) : (value ?? null);
+          });
+          const statement = JSON.stringify([step.sql, sqlParams]);
+          let sqlRows = ctx.fetched.get(statement);
+          if (!sqlRows) {
+            sqlRows = await this.dataSource.querySql(
+              plan.sources.map((s) => s.source).filter(isCollectionSource),
+              this.defaultDid,
+              step.sql,
+              sqlParams,
+            );
+            ctx.fetched.set(statement, sqlRows);
+          }
+          rows =
+            step.output === "projected"
+              ? sqlRows.map((r) => this.parseProjectedRow(r, step.jsonColumns))
+              : sqlRows.map((r) => this.aliasSqlRow(r, step.aliases));
+          break;
+        }
+
         case "join": {
           const sourcePlan = plan.sources.find((s) => s.alias === step.alias);
           if (!sourcePlan) throw new Error(`Unknown source: ${step.alias}`);
-          const rightRecords = await this.dataSource.fetchRecords(
-            sourcePlan.source,
-            this.defaultDid,
-          );
-          const rightRows = rightRecords.map((r) =>
-            this.aliasRow(step.alias, r as Row),
-          );
-          datasets.set(step.alias, rightRows);
+          const source = sourcePlan.source;
+          if (!isCollectionSource(source) && source.unnest) {
+            rows = await this.performUnnest(rows, source, step, ctx);
+            datasets.set(step.alias, []);
+            break;
+          }
+          const rightRows = await this.loadSource(source, ctx);
+          if (containsFunctionCall(step.on)) {
+            throw new Error(
+              "Function calls are not supported in join conditions",
+            );
+          }
+          if (containsSubquery(step.on)) {
+            throw new Error("Subqueries are not supported in join conditions");
+          }
           rows = this.performJoin(
             rows,
             rightRows,
             step.joinType,
             step.on,
-            params,
+            { left: new Set(datasets.keys()), right: step.alias },
+            ctx,
           );
+          datasets.set(step.alias, rightRows);
           break;
         }
 
         case "filter":
+          await this.resolveFunctionCalls([step.expression], rows, ctx);
           rows = rows.filter((row) =>
-            this.evaluateExpression(step.expression, row, params),
+            this.evaluateExpression(step.expression, row, ctx),
           );
           break;
 
         case "group":
-          rows = this.performGroupBy(rows, step.expressions, params);
+          await this.resolveFunctionCalls(step.expressions, rows, ctx);
+          rows = this.performGroupBy(rows, step.expressions, ctx);
           break;
 
         case "having":
+          await this.resolveFunctionCalls([step.expression], rows, ctx);
           rows = rows.filter((row) =>
-            this.evaluateExpression(step.expression, row, params),
+            this.evaluateExpression(step.expression, row, ctx),
           );
           break;
 
+        case "window":
+          await this.resolveFunctionCalls(step.calls, rows, ctx);
+          for (const call of step.calls) {
+            ctx.windowResults.set(call, this.performWindow(rows, call, ctx));
+          }
+          break;
+
+        case "setOperation": {
+          const operand = await this.runQuery(step.query, ctx);
+          rows = this.performSetOperation(rows, operand, step);
+          break;
+        }
+
         case "select":
+          await this.resolveFunctionCalls(
+            step.fields.map((f) => f.value),
+            rows,
+            ctx,
+          );
           rows = rows.map((row) => {
             const result: Row = {};
             for (const field of step.fields) {
               result[field.alias] = this.evaluateExpression(
                 field.value,
                 row,
-                params,
+                ctx,
               );
             }
             return result;
@@ -143,7 +531,12 @@ export class QueryEngine {
           break;
 
         case "orderBy":
-          rows = this.performOrderBy(rows, step.clauses, params);
+          await this.resolveFunctionCalls(
+            step.clauses.map((c) => c.value),
+            rows,
+            ctx,
+          );
+          rows = this.performOrderBy(rows, step.clauses, ctx);
           break;
 
         case "limit":
@@ -152,10 +545,20 @@ export class QueryEngine {
             (step.offset ?? 0) + step.limit,
           );
           break;
+
+        case "page":
+          ({ rows, cursor } = this.performPage(rows, step, ctx));
+          break;
       }
+
+      trace?.push({
+        step,
+        rows: rows.length,
+        durationMs: performance.now() - stepStart,
+      });
     }
 
-    return rows;
+    return { rows, cursor };
   }
 
   private aliasRow(alias: string, row: Row): Row {
@@ -166,270 +569,255 @@ export class QueryEngine {
     return result;
   }
 
-  evaluateExpression(
+  /**
+   * Rebuild an aliased row from SQL "rows" output. Aliases whose uri is
+   * NULL are unmatched sides of an outer join and are left out, as in
+   * `performJoin`.
+   */
+  private aliasSqlRow(row: Row, aliases: string[]): Row {
+    let result: Row = {};
+    for (const alias of aliases) {
+      const uri = row[`${alias}.uri`];
+      if (uri === null || uri === undefined) continue;
+      const record = {
+        ...(JSON.parse(row[`${alias}.value`] as string) as Row),
+        _uri: uri,
+        _cid: row[`${alias}.cid`] ?? "",
+      };
+      result = { ...result, ...this.aliasRow(alias, record) };
+    }
+    return result;
+  }
+
+  /** Record fields selected as-is come back as JSON text, or NULL if absent */
+  private parseProjectedRow(row: Row, jsonColumns: string[]): Row {
+    const result: Row = { ...row };
+    for (const column of jsonColumns) {
+      const value = row[column];
+      result[column] =
+        value === null || value === undefined
+          ? undefined
+          : JSON.parse(value as string);
+    }
+    return result;
+  }
+
+  /**
+   * Resolve every function call reachable from `expressions` over `rows`
+   * before synchronous evaluation. Nested calls are resolved innermost first,
+   * and each function is invoked once with all distinct argument lists that
+   * are not already in the context.
+   */
+  private async resolveFunctionCalls(
+    expressions: Expression[],
+    rows: Row[],
+    ctx: EvalContext,
+  ): Promise<void> {
+    for (const expr of expressions) {
+      if (containsFunctionCall(expr) || containsSubquery(expr)) {
+        await this.resolveExpressionCalls(expr, rows, ctx);
+      }
+    }
+  }
+
+  private async resolveExpressionCalls(
     expr: Expression,
-    row: Row,
-    params: Record<string, string>,
-  ): unknown {
+    rows: Row[],
+    ctx: EvalContext,
+  ): Promise<void> {
     switch (expr.type) {
-      case "fieldRef": {
-        if (expr.source === "$params") {
-          return params[expr.field];
+      case "functionCall": {
+        for (const arg of expr.args) {
+          await this.resolveExpressionCalls(arg, rows, ctx);
         }
-        const key = `${expr.source}.${expr.field}`;
-        return this.getNestedValue(row, key);
+        await this.invokeFunctionCall(expr, rows, ctx);
+        break;
+      }
+      case "builtinCall": {
+        // Aggregate arguments, filters and orderings are evaluated against
+        // each group member
+        const argRows =
+          this.builtins.isAggregate(expr.name) && rows.some((r) => r._group)
+            ? rows.flatMap((r) => (r._group as Row[] | undefined) ?? [r])
+            : rows;
+        for (const arg of childExpressions(expr)) {
+          await this.resolveExpressionCalls(arg, argRows, ctx);
+        }
+        break;
       }
-
-      case "literal":
-        return expr.stringValue ?? expr.integerValue ?? expr.booleanValue ?? null;
-
       case "comparison":
-        return this.evaluateComparison(expr, row, params);
-
+        await this.resolveExpressionCalls(expr.left, rows, ctx);
+        if (expr.right) await this.resolveExpressionCalls(expr.right, rows, ctx);
+        break;
       case "logicalOp":
-        return this.evaluateLogical(expr, row, params);
-
+        for (const operand of expr.operands) {
+          await this.resolveExpressionCalls(operand, rows, ctx);
+        }
+        break;
       case "arithmeticOp":
-        return this.evaluateArithmetic(expr, row, params);
-
-      case "builtinCall":
-        return this.evaluateBuiltin(expr, row, params);
-
-      case "functionCall":
-        // Function calls are async - would need special handling in a real impl
-        throw new Error(
-          "Function calls in expressions not yet supported in sync evaluation",
-        );
-
-      case "caseExpression": {
+        await this.resolveExpressionCalls(expr.left, rows, ctx);
+        await this.resolveExpressionCalls(expr.right, rows, ctx);
+        break;
+      case "caseExpression":
         for (const branch of expr.branches) {
-          if (this.evaluateExpression(branch.when, row, params)) {
-            return this.evaluateExpression(branch.then, row, params);
-          }
+          await this.resolveExpressionCalls(branch.when, rows, ctx);
+          await this.resolveExpressionCalls(branch.then, rows, ctx);
         }
-        return expr.elseValue
-          ? this.evaluateExpression(expr.elseValue, row, params)
-          : null;
-      }
+        if (expr.elseValue) {
+          await this.resolveExpressionCalls(expr.elseValue, rows, ctx);
+        }
+        break;
+      case "windowCall":
+        for (const e of windowExpressions(expr)) {
+          await this.resolveExpressionCalls(e, rows, ctx);
+        }
+        break;
+      case "subquery":
+      case "exists":
+        await this.resolveSubquery(expr.query, rows, ctx);
+        break;
+    }
+  }
 
-      default:
-        throw new Error(
-          `Unknown expression type: ${(expr as { type: string }).type}`,
-        );
+  /**
+   * Run a nested query once for each distinct set of values it reads from
+   * the rows of the enclosing query. An uncorrelated query runs once. The
+   * runs share the context's fetched rows: the sources and SQL statement
+   * of a correlated query are the same for every key, which only its
+   * in-memory filters read.
+   */
+  private async resolveSubquery(
+    query: Query,
+    rows: Row[],
+    ctx: EvalContext,
+  ): Promise<void> {
+    let results = ctx.subqueryResults.get(query);
+    if (!results) {
+      results = new Map();
+      ctx.subqueryResults.set(query, results);
+    }
+    for (const row of rows) {
+      const key = this.correlationKey(query, row, ctx);
+      if (results.has(key)) continue;
+      // The nested query sees this row, and through it the enclosing ones
+      const outer = ctx.outer ? { ...ctx.outer, ...row } : row;
+      results.set(key, await this.runQuery(query, { ...ctx, outer }));
     }
   }
 
-  private evaluateComparison(
-    expr: Comparison,
-    row: Row,
-    params: Record<string, string>,
-  ): boolean {
-    const left = this.evaluateExpression(expr.left, row, params);
-    const right = expr.right
-      ? this.evaluateExpression(expr.right, row, params)
-      : null;
-
-    switch (expr.op) {
-      case "eq":
-        return left === right;
-      case "neq":
-        return left !== right;
-      case "gt":
-        return (left as number) > (right as number);
-      case "gte":
-        return (left as number) >= (right as number);
-      case "lt":
-        return (left as number) < (right as number);
-      case "lte":
-        return (left as number) <= (right as number);
-      case "like":
-        return (
-          typeof left === "string" &&
-          typeof right === "string" &&
-          new RegExp(
-            "^" + right.replace(/%/g, ".*").replace(/_/g, ".") + "$",
-          ).test(left)
-        );
-      case "in":
-        return Array.isArray(right) && right.includes(left);
-      case "notIn":
-        return Array.isArray(right) && !right.includes(left);
-      case "isNull":
-        return left === null || left === undefined;
-      case "isNotNull":
-        return left !== null && left !== undefined;
-      case "between":
-        return (
-          Array.isArray(right) &&
-          (left as number) >= (right[0] as number) &&
-          (left as number) <= (right[1] as number)
-        );
-      default:
-        throw new Error(`Unknown comparison op: ${expr.op}`);
+  private correlationKey(query: Query, row: Row, ctx: EvalContext): string {
+    let refs = correlationRefs.get(query);
+    if (!refs) {
+      refs = correlatedRefs(query);
+      correlationRefs.set(query, refs);
     }
+    return JSON.stringify(
+      refs.map((r) => this.evaluateExpression(r, row, ctx) ?? null),
+    );
   }
 
-  private evaluateLogical(
-    expr: LogicalOp,
-    row: Row,
-    params: Record<string, string>,
-  ): boolean {
-    switch (expr.op) {
-      case "and":
-        return expr.operands.every((op) =>
-          this.evaluateExpression(op, row, params),
-        );
-      case "or":
-        return expr.operands.some((op) =>
-          this.evaluateExpression(op, row, params),
-        );
-      case "not":
-        return !this.evaluateExpression(expr.operands[0]!, row, params);
-      default:
-        throw new Error(`Unknown logical op: ${expr.op}`);
+  private subqueryRows(query: Query, row: Row, ctx: EvalContext): Row[] {
+    const rows = ctx.subqueryResults
+      .get(query)
+      ?.get(this.correlationKey(query, row, ctx));
+    if (!rows) {
+      throw new Error("Subquery was not resolved before evaluation");
     }
+    return rows;
   }
 
-  private evaluateArithmetic(
-    expr: ArithmeticOp,
-    row: Row,
-    params: Record<string, string>,
-  ): number {
-    const left = this.evaluateExpression(expr.left, row, params) as number;
-    const right = this.evaluateExpression(expr.right, row, params) as number;
-
-    switch (expr.op) {
-      case "add":
-        return left + right;
-      case "subtract":
-        return left - right;
-      case "multiply":
-        return left * right;
-      case "divide":
-        return right === 0 ? 0 : left / right;
-      case "modulo":
-        return right === 0 ? 0 : left % right;
-      default:
-        throw new Error(`Unknown arithmetic op: ${expr.op}`);
+  private async invokeFunctionCall(
+    expr: FunctionCall,
+    rows: Row[],
+    ctx: EvalContext,
+  ): Promise<void> {
+    if (!this.functionInvoker) {
+      throw new Error("Function calls require a function invoker");
     }
+
+    const pending = new Map<string, unknown[]>();
+    for (const row of rows) {
+      const args = expr.args.map((a) => this.evaluateExpression(a, row, ctx));
+      const key = functionCallKey(expr.ref, args);
+      if (!ctx.functionResults.has(key) && !pending.has(key)) {
+        pending.set(key, args);
+      }
+    }
+    if (pending.size === 0) return;
+
+    this.checkDeadline(ctx);
+    const keys = Array.from(pending.keys());
+    const results = await this.functionInvoker.invokeBatch(
+      expr.ref,
+      Array.from(pending.values()),
+      { deadline: ctx.deadline },
+    );
+    keys.forEach((key, i) => {
+      ctx.functionResults.set(key, results[i] ?? null);
+    });
   }
 
-  private evaluateBuiltin(
-    expr: BuiltinCall,
+  evaluateExpression(
+    expr: Expression,
     row: Row,
-    params: Record<string, string>,
+    ctx: EvalContext,
   ): unknown {
-    const AGGREGATES = ["count", "sum", "avg", "min", "max"];
-    const group = row._group as Row[] | undefined;
-
-    // When operating on a grouped row, collect values from all group members
-    if (group && AGGREGATES.includes(expr.name)) {
-      const values = group.map((r) =>
-        this.evaluateExpression(expr.args[0]!, r, params),
-      );
+    return this.runtime.evaluate(expr, row, ctx);
+  }
 
-      switch (expr.name) {
-        case "count":
-          return values.filter((v) => v !== null && v !== undefined).length;
-        case "sum":
-          return (values as number[]).reduce((a, b) => a + (Number(b) || 0), 0);
-        case "avg": {
-          const nums = values.filter((v) => v !== null && v !== undefined) as number[];
-          return nums.length === 0 ? null : nums.reduce((a, b) => a + Number(b), 0) / nums.length;
-        }
-        case "min": {
-          const nums = values.filter((v) => v !== null && v !== undefined) as number[];
-          return nums.length === 0 ? null : Math.min(...nums.map(Number));
-        }
-        case "max": {
-          const nums = values.filter((v) => v !== null && v !== undefined) as number[];
-          return nums.length === 0 ? null : Math.max(...nums.map(Number));
+  /** Function calls, window calls and nested queries, for the runtime */
+  private evaluateHost(
+    expr: HostExpression,
+    row: Row,
+    ctx: EvalContext,
+  ): unknown {
+    switch (expr.type) {
+      case "functionCall": {
+        const args = expr.args.map((a) => this.evaluateExpression(a, row, ctx));
+        const key = functionCallKey(expr.ref, args);
+        if (!ctx.functionResults.has(key)) {
+          throw new Error(
+            `Function call ${expr.ref.did}:${expr.ref.cid} was not resolved before evaluation`,
+          );
         }
+        return ctx.functionResults.get(key);
       }
-    }
 
-    const args = expr.args.map((a) => this.evaluateExpression(a, row, params));
-
-    switch (expr.name) {
-      case "count":
-        return Array.isArray(args[0]) ? args[0].length : 1;
-      case "sum":
-        return Array.isArray(args[0])
-          ? (args[0] as number[]).reduce((a, b) => a + b, 0)
-          : args[0];
-      case "avg":
-        return Array.isArray(args[0])
-          ? (args[0] as number[]).reduce((a, b) => a + b, 0) /
-            (args[0] as number[]).length
-          : args[0];
-      case "min":
-        return Array.isArray(args[0])
-          ? Math.min(...(args[0] as number[]))
-          : args[0];
-      case "max":
-        return Array.isArray(args[0])
-          ? Math.max(...(args[0] as number[]))
-          : args[0];
-      case "concat":
-        return args.map(String).join("");
-      case "lower":
-        return String(args[0] ?? "").toLowerCase();
-      case "upper":
-        return String(args[0] ?? "").toUpperCase();
-      case "trim":
-        return String(args[0] ?? "").trim();
-      case "length":
-        return String(args[0] ?? "").length;
-      case "coalesce":
-        return args.find((a) => a !== null && a !== undefined) ?? null;
-      case "now":
-        return new Date().toISOString();
-      case "substring":
-        return String(args[0] ?? "").substring(
-          Number(args[1]) || 0,
-          args[2] !== undefined ? Number(args[2]) : undefined,
+      case "subquery": {
+        // The values of the first select column
+        const column = expr.query.select[0]?.alias;
+        return this.subqueryRows(expr.query, row, ctx).map((r) =>
+          column === undefined ? null : r[column],
         );
-      case "abs":
-        return Math.abs(Number(args[0]));
-      case "round":
-        return Math.round(Number(args[0]));
-      case "floor":
-        return Math.floor(Number(args[0]));
-      case "ceil":
-        return Math.ceil(Number(args[0]));
-      default:
-        throw new Error(`Unknown builtin: ${expr.name}`);
-    }
-  }
+      }
 
-  private getNestedValue(obj: Row, path: string): unknown {
-    const parts = path.split(".");
+      case "exists":
+        return this.subqueryRows(expr.query, row, ctx).length > 0;
 
-    // Try progressively longer prefix keys to handle aliased rows.
-    // e.g. for "aye.avast.uri", try obj["aye.avast"] then drill into ["uri"]
-    for (let i = parts.length; i >= 1; i--) {
-      const prefix = parts.slice(0, i).join(".");
-      const val = (obj as Record<string, unknown>)[prefix];
-      if (val !== undefined) {
-        // Drill into remaining parts
-        let current: unknown = val;
-        for (let j = i; j < parts.length; j++) {
-          if (current === null || current === undefined) return undefined;
-          current = (current as Record<string, unknown>)[parts[j]!];
+      case "windowCall": {
+        const results = ctx.windowResults.get(expr);
+        if (!results?.has(row)) {
+          throw new Error(
+            `Window function ${expr.name} can only be used in select`,
+          );
         }
-        return current;
+        return results.get(row);
       }
     }
-
-    return undefined;
   }
 
+  /**
+   * Join two row sets. Equality conjuncts between a field of each side are
+   * used as hash keys, so the `on` expression is only evaluated against
+   * row pairs with matching keys; without any, every pair is tried.
+   */
   private performJoin(
     left: Row[],
     right: Row[],
     joinType: string,
     on: Expression,
-    params: Record<string, string>,
+    sides: { left: Set<string>; right: string },
+    ctx: EvalContext,
   ): Row[] {
     const results: Row[] = [];
 
@@ -442,24 +830,61 @@ export class QueryEngine {
       return results;
     }
 
+    const { leftKeys, rightKeys, residual } = splitEquiJoin(on, sides);
+    const hashed = leftKeys.length > 0;
+
+    // Right row indices by join key, in row order. Keys are normalised
+    // loosely, so candidates are checked with the comparison model.
+    const index = new Map<string, number[]>();
+    const rightValues: unknown[][] = [];
+    if (hashed) {
+      right.forEach((r, ri) => {
+        const values = rightKeys.map((k) => this.evaluateExpression(k, r, ctx));
+        rightValues[ri] = values;
+        const key = joinKey(values);
+        if (key === undefined) return;
+        const bucket = index.get(key);
+        if (bucket) {
+          bucket.push(ri);
+        } else {
+          index.set(key, [ri]);
+        }
+      });
+    }
+    const allRight = right.map((_, ri) => ri);
+
     const rightUsed = new Set<number>();
 
     for (let li = 0; li < left.length; li++) {
+      let candidates = allRight;
+      if (hashed) {
+        const values = leftKeys.map((k) =>
+          this.evaluateExpression(k, left[li]!, ctx),
+        );
+        const key = joinKey(values);
+        candidates = (key === undefined ? [] : (index.get(key) ?? [])).filter(
+          (ri) =>
+            values.every(
+              (v, k) => compareValues("eq", v, rightValues[ri]![k]) === true,
+            ),
+        );
+      }
+
       let matched = false;
-      for (let ri = 0; ri < right.length; ri++) {
+      for (const ri of candidates) {
         const merged = { ...left[li], ...right[ri] };
-        if (this.evaluateExpression(on, merged, params)) {
+        if (!residual || this.evaluateExpression(residual, merged, ctx)) {
           results.push(merged);
           rightUsed.add(ri);
           matched = true;
         }
       }
-      if (!matched && joinType === "left") {
+      if (!matched && (joinType === "left" || joinType === "full")) {
         results.push({ ...left[li]! });
       }
     }
 
-    if (joinType === "right") {
+    if (joinType === "right" || joinType === "full") {
       for (let ri = 0; ri < right.length; ri++) {
         if (!rightUsed.has(ri)) {
           results.push({ ...right[ri]! });
@@ -470,16 +895,57 @@ export class QueryEngine {
     return results;
   }
 
+  /**
+   * A lateral join with an `unnest` source: each row is paired with the
+   * elements of the array its own fields produce. Inner and cross joins
+   * drop rows without elements; left joins keep them once, unpaired.
+   */
+  private async performUnnest(
+    rows: Row[],
+    source: SubquerySource,
+    step: { joinType: string; alias: string; on: Expression },
+    ctx: EvalContext,
+  ): Promise<Row[]> {
+    if (step.joinType === "right" || step.joinType === "full") {
+      throw new Error(`Unnest source ${step.alias} cannot be ${step.joinType} joined`);
+    }
+    const on = step.joinType === "cross" ? undefined : step.on;
+    if (on && (containsFunctionCall(on) || containsSubquery(on))) {
+      throw new Error(
+        "Function calls and subqueries are not supported in join conditions",
+      );
+    }
+    await this.resolveFunctionCalls([source.unnest!], rows, ctx);
+
+    const results: Row[] = [];
+    for (const row of rows) {
+      const elements = unnestRows(
+        this.evaluateExpression(source.unnest!, row, ctx),
+      );
+      let matched = false;
+      for (const element of elements) {
+        const merged = { ...row, ...this.aliasRow(step.alias, element) };
+        if (!on || this.evaluateExpression(on, merged, ctx)) {
+          results.push(merged);
+          matched = true;
+        }
+      }
+      if (!matched && step.joinType === "left") results.push(row);
+    }
+    return results;
+  }
+
   private performGroupBy(
     rows: Row[],
     expressions: Expression[],
-    params: Record<string, string>,
+    ctx: EvalContext,
   ): Row[] {
     const groups = new Map<string, Row[]>();
 
     for (const row of rows) {
+      // Missing values group with nulls, as in SQL
       const key = expressions
-        .map((e) => JSON.stringify(this.evaluateExpression(e, row, params)))
+        .map((e) => JSON.stringify(this.evaluateExpression(e, row, ctx) ?? null))
         .join("|||");
       const group = groups.get(key) ?? [];
       group.push(row);
@@ -494,6 +960,157 @@ export class QueryEngine {
     });
   }
 
+  /**
+   * Compute a window call for every row. Each partition is sorted by the
+   * window's orderBy; rows with equal keys are peers, which share a rank
+   * and are added to running totals together. Without an orderBy every row
+   * of a partition is a peer.
+   */
+  private performWindow(
+    rows: Row[],
+    call: WindowCall,
+    ctx: EvalContext,
+  ): Map<Row, unknown> {
+    const clauses = call.orderBy ?? [];
+    const partitions = new Map<string, Row[]>();
+    for (const row of rows) {
+      const key = (call.partitionBy ?? [])
+        .map((e) => JSON.stringify(this.evaluateExpression(e, row, ctx) ?? null))
+        .join("|||");
+      const partition = partitions.get(key) ?? [];
+      partition.push(row);
+      partitions.set(key, partition);
+    }
+
+    const results = new Map<Row, unknown>();
+    for (const partition of partitions.values()) {
+      const keys = new Map(
+        partition.map((r) => [r, this.orderKeys(r, clauses, ctx)]),
+      );
+      const sorted = [...partition].sort((a, b) =>
+        compareKeys(keys.get(a)!, keys.get(b)!, clauses),
+      );
+      const isPeer = (i: number, j: number) =>
+        compareKeys(keys.get(sorted[i])!, keys.get(sorted[j])!, clauses) === 0;
+
+      switch (call.name) {
+        case "row_number":
+          sorted.forEach((r, i) => results.set(r, i + 1));
+          break;
+
+        case "rank":
+        case "dense_rank": {
+          let rank = 0;
+          sorted.forEach((r, i) => {
+            if (i === 0 || !isPeer(i - 1, i)) {
+              rank = call.name === "rank" ? i + 1 : rank + 1;
+            }
+            results.set(r, rank);
+          });
+          break;
+        }
+
+        case "lag":
+        case "lead": {
+          const [value, offsetArg, defaultArg] = call.args;
+          if (!value) throw new Error(`${call.name} requires an argument`);
+          sorted.forEach((r, i) => {
+            const offset = offsetArg
+              ? Number(this.evaluateExpression(offsetArg, r, ctx))
+              : 1;
+            const target = call.name === "lag" ? i - offset : i + offset;
+            results.set(
+              r,
+              target >= 0 && target < sorted.length
+                ? this.evaluateExpression(value, sorted[target], ctx)
+                : defaultArg
+                  ? this.evaluateExpression(defaultArg, r, ctx)
+                  : null,
+            );
+          });
+          break;
+        }
+
+        case "sum":
+        case "count": {
+          let total = 0;
+          let start = 0;
+          while (start < sorted.length) {
+            let end = start + 1;
+            while (end < sorted.length && isPeer(start, end)) end++;
+            for (const r of sorted.slice(start, end)) {
+              if (call.args.length === 0) {
+                total += 1;
+                continue;
+              }
+              const v = this.evaluateExpression(call.args[0], r, ctx);
+              if (v === null || v === undefined) continue;
+              total += call.name === "count" ? 1 : Number(v) || 0;
+            }
+            for (const r of sorted.slice(start, end)) results.set(r, total);
+            start = end;
+          }
+          break;
+        }
+
+        default:
+          throw new Error(`Unknown window function: ${call.name}`);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Merge the rows of a set operation's query into the rows so far. Its
+   * columns are taken by position and renamed to the first query's; rows
+   * are compared by their column values.
+   */
+  private performSetOperation(
+    left: Row[],
+    right: Row[],
+    step: { op: string; query: Query; columns: string[] },
+  ): Row[] {
+    const { columns } = step;
+    const rightColumns = step.query.select.map((f) => f.alias);
+    const renamed = right.map((row) => {
+      const result: Row = {};
+      columns.forEach((column, i) => {
+        result[column] = row[rightColumns[i]!];
+      });
+      return result;
+    });
+    const key = (row: Row) =>
+      JSON.stringify(columns.map((c) => row[c] ?? null));
+
+    switch (step.op) {
+      case "unionAll":
+        return [...left, ...renamed];
+      case "union": {
+        const seen = new Set<string>();
+        return [...left, ...renamed].filter((row) => {
+          const k = key(row);
+          if (seen.has(k)) return false;
+          seen.add(k);
+          return true;
+        });
+      }
+      case "intersect":
+      case "except": {
+        const rightKeys = new Set(renamed.map(key));
+        const keep = step.op === "intersect";
+        const seen = new Set<string>();
+        return left.filter((row) => {
+          const k = key(row);
+          if (seen.has(k) || rightKeys.has(k) !== keep) return false;
+          seen.add(k);
+          return true;
+        });
+      }
+      default:
+        throw new Error(`Unknown set operation: ${step.op}`);
+    }
+  }
+
   private performDistinct(rows: Row[]): Row[] {
     const seen = new Set<string>();
     return rows.filter((row) => {
@@ -506,46 +1123,214 @@ export class QueryEngine {
 
   private performOrderBy(
     rows: Row[],
-    clauses: Array<{
-      value: Expression;
-      direction: string;
-      nulls?: string;
-    }>,
-    params: Record<string, string>,
+    clauses: OrderClause[],
+    ctx: EvalContext,
   ): Row[] {
-    return [...rows].sort((a, b) => {
-      for (const clause of clauses) {
-        const aVal = this.evaluateExpression(clause.value, a, params);
-        const bVal = this.evaluateExpression(clause.value, b, params);
-
-        // Handle nulls
-        if (aVal === null || aVal === undefined) {
-          if (bVal === null || bVal === undefined) continue;
-          return clause.nulls === "first" ? -1 : 1;
-        }
-        if (bVal === null || bVal === undefined) {
-          return clause.nulls === "first" ? 1 : -1;
-        }
+    return [...rows].sort((a, b) =>
+      compareKeys(
+        this.orderKeys(a, clauses, ctx),
+        this.orderKeys(b, clauses, ctx),
+        clauses,
+      ),
+    );
+  }
 
-        let cmp: number;
-        if (typeof aVal === "string" && typeof bVal === "string") {
-          cmp = aVal.localeCompare(bVal);
-        } else {
-          cmp = (aVal as number) - (bVal as number);
-        }
+  private orderKeys(
+    row: Row,
+    clauses: OrderClause[],
+    ctx: EvalContext,
+  ): unknown[] {
+    return clauses.map((c) => this.evaluateExpression(c.value, row, ctx));
+  }
 
-        if (cmp !== 0) {
-          return clause.direction === "desc" ? -cmp : cmp;
-        }
+  /**
+   * Cut one page from rows already sorted by the page's clauses, which end
+   * with keys identifying each row. The page starts at the first row that
+   * sorts after the cursor's keys. A cursor is returned only when rows
+   * remain past the page.
+   */
+  private performPage(
+    rows: Row[],
+    step: {
+      clauses: OrderClause[];
+      limit: number;
+      after?: CursorPosition;
+      hidden: string[];
+    },
+    ctx: EvalContext,
+  ): { rows: Row[]; cursor?: string } {
+    const { clauses, limit, after, hidden } = step;
+    // A cursor from another query, or an older version of this one
+    if (after && after.keys.length !== clauses.length) {
+      throw new InvalidParamsError("Invalid cursor");
+    }
+
+    let start = 0;
+    if (after) {
+      while (
+        start < rows.length &&
+        compareKeys(this.orderKeys(rows[start], clauses, ctx), after.keys, clauses) <= 0
+      ) {
+        start++;
       }
-      return 0;
-    });
+    }
+
+    const page = rows.slice(start, start + limit);
+    const cursor =
+      start + limit < rows.length
+        ? encodeCursor({
+            keys: this.orderKeys(page[page.length - 1], clauses, ctx).map(
+              (k) => k ?? null,
+            ),
+          })
+        : undefined;
+
+    if (hidden.length === 0) return { rows: page, cursor };
+    return {
+      rows: page.map((row) => {
+        const visible = { ...row };
+        for (const alias of hidden) delete visible[alias];
+        return visible;
+      }),
+      cursor,
+    };
   }
 
   private buildCacheKey(
     query: Query,
-    params: Record<string, string>,
+    params: Record<string, unknown>,
+    page?: PageRequest,
   ): string {
-    return `query:${JSON.stringify(query)}:${JSON.stringify(params)}`;
+    const key = `query:${JSON.stringify(query)}:${JSON.stringify(params)}`;
+    return page ? `${key}:${JSON.stringify(page)}` : key;
+  }
+}
+
+/** One row per element of an array; anything else has no elements */
+function unnestRows(value: unknown): Row[] {
+  return Array.isArray(value)
+    ? value.map((element, index) => ({ value: element ?? null, index }))
+    : [];
+}
+
+/**
+ * Split a join condition into hash keys and a residual. Each `eq` conjunct
+ * comparing a field of the joined side with a field of the rows joined so
+ * far contributes one key pair; everything else stays in the residual.
+ */
+function splitEquiJoin(
+  on: Expression,
+  sides: { left: Set<string>; right: string },
+): { leftKeys: FieldRef[]; rightKeys: FieldRef[]; residual?: Expression } {
+  const conjuncts =
+    on.type === "logicalOp" && on.op === "and" ? on.operands : [on];
+  const leftKeys: FieldRef[] = [];
+  const rightKeys: FieldRef[] = [];
+  const rest: Expression[] = [];
+
+  const side = (expr: Expression) =>
+    expr.type !== "fieldRef"
+      ? undefined
+      : expr.source === sides.right
+        ? "right"
+        : sides.left.has(expr.source)
+          ? "left"
+          : undefined;
+
+  for (const conjunct of conjuncts) {
+    if (conjunct.type === "comparison" && conjunct.op === "eq" && conjunct.right) {
+      const l = side(conjunct.left);
+      const r = side(conjunct.right);
+      if (l === "left" && r === "right") {
+        leftKeys.push(conjunct.left as FieldRef);
+        rightKeys.push(conjunct.right as FieldRef);
+        continue;
+      }
+      if (l === "right" && r === "left") {
+        leftKeys.push(conjunct.right as FieldRef);
+        rightKeys.push(conjunct.left as FieldRef);
+        continue;
+      }
+    }
+    rest.push(conjunct);
   }
+
+  const residual =
+    rest.length === 0
+      ? undefined
+      : rest.length === 1
+        ? rest[0]
+        : { type: "logicalOp" as const, op: "and" as const, operands: rest };
+  return { leftKeys, rightKeys, residual };
+}
+
+/**
+ * Hash key for join values: every pair the comparison model finds equal
+ * shares a key, so matching rows land in the same bucket. Null keys never
+ * match; objects and arrays are keyed by content, as they compare.
+ */
+function joinKey(values: unknown[]): string | undefined {
+  const parts: string[] = [];
+  for (let value of values) {
+    if (value === null || value === undefined) return undefined;
+    if (typeof value === "object") {
+      parts.push(`object:${JSON.stringify(value)}`);
+      continue;
+    }
+    if (typeof value === "boolean") value = value ? 1 : 0;
+    if (typeof value === "string" && isDecimal(value)) value = Number(value);
+    if (typeof value === "number" && Number.isNaN(value)) return undefined;
+    parts.push(`${typeof value}:${String(value)}`);
+  }
+  return JSON.stringify(parts);
+}
+
+function functionCallKey(ref: ResourceRef, args: unknown[]): string {
+  return `${ref.did}:${ref.cid}|${JSON.stringify(args)}`;
+}
+
+function containsSubquery(expr: Expression): boolean {
+  return (
+    expr.type === "subquery" ||
+    expr.type === "exists" ||
+    childExpressions(expr).some(containsSubquery)
+  );
+}
+
+function containsFunctionCall(expr: Expression): boolean {
+  switch (expr.type) {
+    case "functionCall":
+      return true;
+    case "builtinCall":
+      return childExpressions(expr).some(containsFunctionCall);
+    case "comparison":
+      return (
+        containsFunctionCall(expr.left) ||
+        (expr.right !== undefined && containsFunctionCall(expr.right))
+      );
+    case "logicalOp":
+      return expr.operands.some(containsFunctionCall);
+    case "arithmeticOp":
+      return containsFunctionCall(expr.left) || containsFunctionCall(expr.right);
+    case "caseExpression":
+      return (
+        expr.branches.some(
+          (b) => containsFunctionCall(b.when) || containsFunctionCall(b.then),
+        ) ||
+        (expr.elseValue !== undefined && containsFunctionCall(expr.elseValue))
+      );
+    case "windowCall":
+      return windowExpressions(expr).some(containsFunctionCall);
+    default:
+      return false;
+  }
+}
+
+/** Every expression a window call evaluates: args, partitions and keys */
+function windowExpressions(call: WindowCall): Expression[] {
+  return [
+    ...call.args,
+    ...(call.partitionBy ?? []),
+    ...(call.orderBy ?? []).map((o) => o.value),
+  ];
 }
@@ -0,0 +1,109 @@
+import { createLogger } from "@avaast/shared";
+import type { FunctionRecord, ResourceRef } from "@avaast/shared";
+import type { FunctionPool, FunctionExecError } from "../executor/pool.js";
+
+/**
+ * Invokes user-defined functions on behalf of the query engine. Each call
+ * receives every distinct argument list needed by one pipeline step, so an
+ * implementation can run them together instead of once per row.
+ */
+export interface FunctionInvoker {
+  invokeBatch(
+    ref: ResourceRef,
+    argLists: unknown[][],
+    options?: InvokeOptions,
+  ): Promise<unknown[]>;
+}
+
+export interface InvokeOptions {
+  /** When the calling query must be done, in epoch milliseconds */
+  deadline?: number;
+}
+
+export interface ResolvedFunction {
+  record: FunctionRecord;
+  code: string;
+}
+
+export interface PoolFunctionInvokerOptions {
+  pool: FunctionPool;
+  resolveFunction: (ref: ResourceRef) => Promise<ResolvedFunction | undefined>;
+}
+
+/**
+ * FunctionInvoker backed by the Deno FunctionPool. Positional arguments are
+ * mapped onto the function's `inputSchema` field names, and a function with a
+ * single output field yields that field's value rather than the whole object.
+ */
+export class PoolFunctionInvoker implements FunctionInvoker {
+  private logger = createLogger("function-invoker");
+  private options: PoolFunctionInvokerOptions;
+
+  constructor(options: PoolFunctionInvokerOptions) {
+    this.options = options;
+  }
+
+  async invokeBatch(
+    ref: ResourceRef,
+    argLists: unknown[][],
+    options: InvokeOptions = {},
+  ): Promise<unknown[]> {
+    const fn = await this.options.resolveFunction(ref);
+    if (!fn) {
+      throw new Error(`Unknown function: ${ref.did}:${ref.cid}`);
+    }
+    if (fn.record.mode === "write") {
+      throw new Error(
+        `Function ${fn.record.name} is write-mode and cannot be called from a query`,
+      );
+    }
+
+    const inputSchema = fn.record.inputSchema;
+    const inputs = argLists.map((args) => {
+      if (args.length > inputSchema.length) {
+        throw new Error(
+          `Function ${fn.record.name} takes ${inputSchema.length} arguments, got ${args.length}`,
+        );
+      }
+      const input: Record<string, unknown> = {};
+      inputSchema.forEach((field, i) => {
+        input[field.name] = args[i] ?? null;
+      });
+      return input;
+    });
+
+    this.logger.debug(
+      `Invoking ${fn.record.name} with a batch of ${inputs.length}`,
+    );
+
+    try {
+      const { results } = await this.options.pool.executeBatch({
+        code: fn.code,
+        inputs,
+        dependencies: fn.record.dependencies ?? [],
+        runtime: fn.record.runtime,
+        writeMode: false,
+        deadline: options.deadline,
+      });
+      const failed = results.findIndex((r) => r.error);
+      if (failed >= 0) {
+        throw new Error(
+          `input ${failed + 1} of ${results.length}: ${results[failed]!.error!.message}`,
+        );
+      }
+
+      const outputs = results.map((r) => r.output ?? {});
+      const outputSchema = fn.record.outputSchema;
+      if (outputSchema.length === 1) {
+        const field = outputSchema[0]!.name;
+        return outputs.map((o) => o[field] ?? null);
+      }
+      return outputs;
+    } catch (err) {
+      const execErr = err as FunctionExecError;
+      throw new Error(
+        `Function ${fn.record.name} failed: ${execErr.message ?? String(err)}`,
+      );
+    }
+  }
+}
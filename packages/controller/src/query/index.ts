@@ -1,9 +1,72 @@
-export { QueryEngine, type QueryEngineOptions } from "./engine.js";
+export {
+  QueryEngine,
+  type QueryEngineOptions,
+  type EvalContext,
+  type ExecuteOptions,
+  type QueryResult,
+  type StepTrace,
+  type QueryExplanation,
+} from "./engine.js";
 export {
   QueryPlanner,
   type QueryPlan,
   type PipelineStep,
   type SourcePlan,
+  type PlanOptions,
+  type OrderClause,
 } from "./planner.js";
+export {
+  SqlCompiler,
+  type CompiledSql,
+  type SqlParam,
+} from "./sql-compiler.js";
 export { QueryCache } from "./cache.js";
-export { PdsDataSource, type DataSourceAdapter } from "./sources.js";
+export {
+  PdsDataSource,
+  LocalDataSource,
+  supportsSql,
+  type DataSourceAdapter,
+  type SqlDataSource,
+  type RecordLister,
+} from "./sources.js";
+export {
+  PoolFunctionInvoker,
+  type FunctionInvoker,
+  type InvokeOptions,
+  type ResolvedFunction,
+  type PoolFunctionInvokerOptions,
+} from "./functions.js";
+export { coerceParams, InvalidParamsError } from "./params.js";
+export {
+  readPageParams,
+  encodeCursor,
+  decodeCursor,
+  PAGE_PARAMETERS,
+  type PageRequest,
+  type CursorPosition,
+} from "./pagination.js";
+export {
+  isCollectionSource,
+  queryCollections,
+  openCollections,
+  correlatedRefs,
+} from "./subqueries.js";
+export {
+  ExpressionRuntime,
+  readField,
+  type EvalScope,
+  type HostExpression,
+  type ExpressionRuntimeOptions,
+} from "./runtime.js";
+export {
+  BuiltinRegistry,
+  createBuiltinRegistry,
+  defaultBuiltins,
+  type Builtin,
+} from "./builtins.js";
+export { applyOutputSchema, checkOutputSchema } from "./output-schema.js";
+export {
+  QueryAnalyzer,
+  type AnalyzerOptions,
+  type AnalysisResult,
+} from "./analyzer.js";
@@ -0,0 +1,46 @@
+import type { Literal } from "@avaast/shared";
+import { parseDatetime, toIsoString } from "./datetime.js";
+
+const VALUE_FIELDS = [
+  "stringValue",
+  "integerValue",
+  "booleanValue",
+  "floatValue",
+  "nullValue",
+  "arrayValue",
+  "datetimeValue",
+] as const;
+
+const DECIMAL = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?$/;
+
+/** The value fields a literal sets; a well-formed literal sets exactly one */
+export function literalFields(literal: Literal): string[] {
+  return VALUE_FIELDS.filter((field) => literal[field] !== undefined);
+}
+
+/**
+ * The value of a literal, read from whichever value field is set, so
+ * `false`, `0` and `""` are never mistaken for absent values. Floats and
+ * datetimes that do not parse, and literals without a value, are null.
+ * Datetimes are normalised to ISO 8601 in UTC.
+ */
+export function literalValue(literal: Literal): unknown {
+  if (literal.stringValue !== undefined) return literal.stringValue;
+  if (literal.integerValue !== undefined) return literal.integerValue;
+  if (literal.booleanValue !== undefined) return literal.booleanValue;
+  if (literal.floatValue !== undefined) {
+    return isDecimal(literal.floatValue) ? Number(literal.floatValue) : null;
+  }
+  if (literal.arrayValue !== undefined) {
+    return literal.arrayValue.map(literalValue);
+  }
+  if (literal.datetimeValue !== undefined) {
+    const ms = parseDatetime(literal.datetimeValue);
+    return ms === undefined ? null : toIsoString(ms);
+  }
+  return null;
+}
+
+export function isDecimal(text: string): boolean {
+  return DECIMAL.test(text.trim());
+}
@@ -0,0 +1,252 @@
+import { createLogger } from "@avaast/shared";
+import type {
+  Expression,
+  FieldSchema,
+  NamedFieldSchema,
+  OutputField,
+  Query,
+} from "@avaast/shared";
+import { parseDatetime, toIsoString } from "./datetime.js";
+
+const logger = createLogger("output-schema");
+
+type Row = Record<string, unknown>;
+
+/**
+ * Shape query results to a computed record's `outputSchema`.
+ *
+ * Each output field reads the select alias matching its `name` and is
+ * written under its `alias` (or `name`). Values are coerced to the declared
+ * type; fields the schema does not declare are dropped. A value that cannot
+ * be coerced becomes null and is logged, so one malformed record does not
+ * fail the whole response. An empty schema leaves rows untouched.
+ */
+export function applyOutputSchema(
+  rows: unknown[],
+  outputSchema: OutputField[] | undefined,
+): unknown[] {
+  if (!outputSchema?.length) return rows;
+
+  return rows.map((row) => {
+    const source = row as Row;
+    const result: Row = {};
+    for (const field of outputSchema) {
+      const value = source[field.name];
+      if (value === undefined) continue;
+      result[field.alias ?? field.name] = coerceValue(
+        value,
+        field.schema,
+        field.name,
+      );
+    }
+    return result;
+  });
+}
+
+function coerceValue(value: unknown, schema: FieldSchema, path: string): unknown {
+  if (value === null || value === undefined) return null;
+
+  const coerced = tryCoerce(value, schema, path);
+  if (coerced === INVALID) {
+    logger.warn(
+      `Output field ${path}: cannot coerce ${JSON.stringify(value)} to ${schema.type}`,
+    );
+    return null;
+  }
+  return coerced;
+}
+
+const INVALID = Symbol("invalid");
+
+function tryCoerce(value: unknown, schema: FieldSchema, path: string): unknown {
+  switch (schema.type) {
+    case "string":
+      if (typeof value === "string") return value;
+      if (typeof value === "number" || typeof value === "boolean") {
+        return String(value);
+      }
+      return INVALID;
+
+    case "integer": {
+      if (typeof value === "boolean") return value ? 1 : 0;
+      const n = toNumber(value);
+      return n !== undefined && Number.isInteger(n) ? n : INVALID;
+    }
+
+    case "float": {
+      const n = toNumber(value);
+      return n !== undefined && Number.isFinite(n) ? n : INVALID;
+    }
+
+    case "boolean":
+      if (typeof value === "boolean") return value;
+      if (value === 1 || value === "true") return true;
+      if (value === 0 || value === "false") return false;
+      return INVALID;
+
+    case "datetime": {
+      // Normalise to ISO 8601 in UTC, reading values as the datetime
+      // builtins do: ISO 8601 strings or epoch milliseconds
+      const ms = parseDatetime(value);
+      return ms === undefined || Number.isNaN(new Date(ms).getTime())
+        ? INVALID
+        : toIsoString(ms);
+    }
+
+    case "array":
+      if (!Array.isArray(value)) return INVALID;
+      return schema.items
+        ? value.map((item, i) => coerceValue(item, schema.items!, `${path}[${i}]`))
+        : value;
+
+    case "object":
+      if (typeof value !== "object" || Array.isArray(value)) return INVALID;
+      return schema.properties
+        ? coerceObject(value as Row, schema.properties, path)
+        : value;
+
+    case "bytes":
+    case "unknown":
+    default:
+      return value;
+  }
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim() !== "") return Number(value);
+  return undefined;
+}
+
+function coerceObject(
+  value: Row,
+  properties: NamedFieldSchema[],
+  path: string,
+): Row {
+  const result: Row = {};
+  for (const property of properties) {
+    const v = value[property.name];
+    if (v === undefined) continue;
+    result[property.name] = coerceValue(
+      v,
+      property.schema,
+      `${path}.${property.name}`,
+    );
+  }
+  return result;
+}
+
+/**
+ * Check that a query's select list can satisfy an output schema: every
+ * output field must name a select alias, and where the type of the selected
+ * expression is evident it must fit the declared type. Returns one message
+ * per problem.
+ */
+export function checkOutputSchema(
+  query: Query,
+  outputSchema: OutputField[] | undefined,
+): string[] {
+  const errors: string[] = [];
+  const selected = new Map(query.select.map((f) => [f.alias, f.value]));
+
+  for (const field of outputSchema ?? []) {
+    const value = selected.get(field.name);
+    if (!value) {
+      errors.push(`Output field ${field.name} is not selected by the query`);
+      continue;
+    }
+    const type = evidentType(value);
+    if (type && !typeFits(type, field.schema.type)) {
+      errors.push(
+        `Output field ${field.name} is declared ${field.schema.type} but the query selects ${type}`,
+      );
+    }
+  }
+  return errors;
+}
+
+type EvidentType = "string" | "integer" | "float" | "boolean" | "datetime";
+
+/** The result type of an expression, where it does not depend on record data */
+function evidentType(expr: Expression): EvidentType | undefined {
+  switch (expr.type) {
+    case "literal":
+      if (expr.stringValue !== undefined) return "string";
+      if (expr.integerValue !== undefined) return "integer";
+      if (expr.booleanValue !== undefined) return "boolean";
+      if (expr.floatValue !== undefined) return "float";
+      if (expr.datetimeValue !== undefined) return "datetime";
+      return undefined;
+    case "comparison":
+    case "logicalOp":
+    case "exists":
+      return "boolean";
+    case "arithmeticOp":
+      return expr.op === "divide" ? "float" : undefined;
+    case "builtinCall":
+      switch (expr.name) {
+        case "count":
+        case "length":
+        case "array_length":
+        case "round":
+        case "floor":
+        case "ceil":
+          return "integer";
+        case "extract": {
+          const part = expr.args[0];
+          if (part?.type !== "literal") return undefined;
+          return part.stringValue === "epoch" ? "float" : "integer";
+        }
+        case "contains":
+        case "bool_and":
+        case "bool_or":
+          return "boolean";
+        case "avg":
+        case "median":
+        case "percentile":
+        case "stddev":
+        case "stddev_pop":
+        case "date_diff":
+        case "age":
+          return "float";
+        case "concat":
+        case "lower":
+        case "upper":
+        case "trim":
+        case "substring":
+        case "format_datetime":
+        case "string_agg":
+          return "string";
+        case "now":
+        case "date_trunc":
+        case "date_add":
+        case "date_sub":
+        case "parse_datetime":
+          return "datetime";
+        default:
+          return undefined;
+      }
+    case "windowCall":
+      switch (expr.name) {
+        case "row_number":
+        case "rank":
+        case "dense_rank":
+        case "count":
+          return "integer";
+        default:
+          return undefined;
+      }
+    default:
+      return undefined;
+  }
+}
+
+function typeFits(type: EvidentType, declared: FieldSchema["type"]): boolean {
+  if (declared === "unknown" || declared === type) return true;
+  // Every evident type has a string form, and integers widen to float.
+  // Strings are only known to hold datetimes once the query has run.
+  if (declared === "string") return true;
+  if (type === "integer" && declared === "float") return true;
+  if (type === "string" && declared === "datetime") return true;
+  return false;
+}
@@ -0,0 +1,75 @@
+import type { Pagination, Query, QueryParameter } from "@avaast/shared";
+import { InvalidParamsError } from "./params.js";
+
+const DEFAULT_PAGE_LIMIT = 50;
+const DEFAULT_MAX_LIMIT = 100;
+
+/**
+ * Where a page ended: the sort keys of its last row. Those end with keys
+ * identifying the row, such as its record URI, so the next page starts
+ * right after it even when rows were added or removed in between.
+ */
+export interface CursorPosition {
+  keys: unknown[];
+}
+
+export interface PageRequest {
+  limit: number;
+  /** Resume after this position; absent for the first page */
+  after?: CursorPosition;
+}
+
+/** The params a paginated endpoint accepts on top of its declared ones */
+export const PAGE_PARAMETERS: QueryParameter[] = [
+  { name: "limit", type: "integer" },
+  { name: "cursor", type: "string" },
+];
+
+export function encodeCursor(position: CursorPosition): string {
+  return Buffer.from(JSON.stringify(position.keys)).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): CursorPosition {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new InvalidParamsError("Invalid cursor");
+  }
+  if (!Array.isArray(decoded)) {
+    throw new InvalidParamsError("Invalid cursor");
+  }
+  return { keys: decoded };
+}
+
+/**
+ * Take the `limit` and `cursor` params of a paginated endpoint out of the
+ * raw request params, leaving the rest for `coerceParams`. The query's own
+ * `limit` serves as the default page size when the record sets none.
+ */
+export function readPageParams(
+  pagination: Pagination,
+  query: Query,
+  raw: Record<string, string>,
+): { page: PageRequest; params: Record<string, string> } {
+  const { limit: rawLimit, cursor, ...params } = raw;
+  const maxLimit = pagination.maxLimit ?? DEFAULT_MAX_LIMIT;
+
+  let limit = Math.min(
+    pagination.defaultLimit ?? query.limit ?? DEFAULT_PAGE_LIMIT,
+    maxLimit,
+  );
+  if (rawLimit !== undefined) {
+    limit = Number(rawLimit);
+    if (!/^\d+$/.test(rawLimit.trim()) || limit < 1 || limit > maxLimit) {
+      throw new InvalidParamsError(
+        `Parameter limit must be an integer from 1 to ${maxLimit}, got "${rawLimit}"`,
+      );
+    }
+  }
+
+  return {
+    page: { limit, after: cursor ? decodeCursor(cursor) : undefined },
+    params,
+  };
+}
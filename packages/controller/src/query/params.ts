@@ -0,0 +1,80 @@
+import type { QueryParameter } from "@avaast/shared";
+
+/**
+ * Raised when request parameters do not match a computed record's declared
+ * `parameters`. The controller server reports it as an XRPC InvalidRequest.
+ */
+export class InvalidParamsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidParamsError";
+  }
+}
+
+/**
+ * Coerce raw query-string parameters to their declared types, filling in
+ * defaults. Unknown parameters and missing required ones are rejected.
+ *
+ * Records that declare no `parameters` keep the previous behaviour: every
+ * parameter is passed through as a string.
+ */
+export function coerceParams(
+  declared: QueryParameter[] | undefined,
+  raw: Record<string, string>,
+): Record<string, unknown> {
+  if (!declared) return { ...raw };
+
+  const known = new Set(declared.map((p) => p.name));
+  const unknown = Object.keys(raw).filter((name) => !known.has(name));
+  if (unknown.length > 0) {
+    throw new InvalidParamsError(`Unknown parameter: ${unknown.join(", ")}`);
+  }
+
+  const params: Record<string, unknown> = {};
+  for (const param of declared) {
+    const value = raw[param.name] ?? param.defaultValue;
+    if (value === undefined) {
+      if (param.required) {
+        throw new InvalidParamsError(`Missing required parameter: ${param.name}`);
+      }
+      continue;
+    }
+    params[param.name] = coerceParam(param, value);
+  }
+  return params;
+}
+
+function coerceParam(param: QueryParameter, value: string): unknown {
+  switch (param.type) {
+    case "string":
+      return value;
+    case "integer": {
+      const n = Number(value);
+      if (!/^-?\d+$/.test(value.trim()) || !Number.isSafeInteger(n)) {
+        throw new InvalidParamsError(
+          `Parameter ${param.name} must be an integer, got "${value}"`,
+        );
+      }
+      return n;
+    }
+    case "float": {
+      const n = Number(value);
+      if (value.trim() === "" || !Number.isFinite(n)) {
+        throw new InvalidParamsError(
+          `Parameter ${param.name} must be a number, got "${value}"`,
+        );
+      }
+      return n;
+    }
+    case "boolean":
+      if (value === "true") return true;
+      if (value === "false") return false;
+      throw new InvalidParamsError(
+        `Parameter ${param.name} must be true or false, got "${value}"`,
+      );
+    default:
+      throw new InvalidParamsError(
+        `Parameter ${param.name} has unknown type: ${String(param.type)}`,
+      );
+  }
+}
@@ -1,5 +1,16 @@
 import { createLogger } from "@avaast/shared";
-import type { Query, Source, Expression } from "@avaast/shared";
+import type {
+  Query,
+  QuerySource,
+  Expression,
+  FieldRef,
+  OrderByClause,
+  WindowCall,
+  SetOperation,
+} from "@avaast/shared";
+import { SqlCompiler, type SqlParam } from "./sql-compiler.js";
+import { isCollectionSource, querySources } from "./subqueries.js";
+import type { CursorPosition, PageRequest } from "./pagination.js";
 
 export interface QueryPlan {
   sources: SourcePlan[];
@@ -8,54 +19,186 @@ export interface QueryPlan {
 
 export interface SourcePlan {
   alias: string;
-  source: Source;
+  source: QuerySource;
   isJoined: boolean;
 }
 
+export interface OrderClause {
+  value: Expression;
+  direction: string;
+  nulls?: string;
+}
+
 export type PipelineStep =
   | { type: "fetch"; alias: string }
+  | {
+      type: "sql";
+      sql: string;
+      params: SqlParam[];
+      output: "rows" | "projected";
+      aliases: string[];
+      jsonColumns: string[];
+    }
   | { type: "join"; joinType: string; alias: string; on: Expression }
   | { type: "filter"; expression: Expression }
   | { type: "group"; expressions: Expression[] }
   | { type: "having"; expression: Expression }
+  | { type: "window"; calls: WindowCall[] }
+  | {
+      type: "setOperation";
+      op: SetOperation["op"];
+      query: Query;
+      /** The first query's select aliases, which name the combined columns */
+      columns: string[];
+    }
   | {
       type: "select";
       fields: Array<{ alias: string; value: Expression }>;
     }
   | { type: "distinct" }
+  | { type: "orderBy"; clauses: OrderClause[] }
+  | { type: "limit"; limit: number; offset?: number }
   | {
-      type: "orderBy";
-      clauses: Array<{
-        value: Expression;
-        direction: string;
-        nulls?: string;
-      }>;
-    }
-  | { type: "limit"; limit: number; offset?: number };
+      type: "page";
+      clauses: OrderClause[];
+      limit: number;
+      after?: CursorPosition;
+      /** Select aliases added for row keys, dropped from the page */
+      hidden: string[];
+    };
+
+export interface PlanOptions {
+  /** Compile what can be translated into SQL over the record mirror */
+  pushdown?: boolean;
+  defaultDid?: string;
+  /** Keyset pagination over the query's orderBy and row keys, replacing limit/offset */
+  page?: PageRequest;
+  /** `alias.field` keys of fields that compare as datetimes */
+  datetimeFields?: ReadonlySet<string>;
+}
 
 export class QueryPlanner {
   private logger = createLogger("query-planner");
+  private compiler = new SqlCompiler();
+
+  plan(query: Query, options: PlanOptions = {}): QueryPlan {
+    const page = options.page;
+    if (page) {
+      if (!query.orderBy?.length) {
+        throw new Error("Pagination requires the query to have an orderBy");
+      }
+      query = this.withRowKeys({ ...query, limit: undefined, offset: undefined });
+    }
+
+    if (query.setOperations?.length) {
+      return this.planCompound(query, options);
+    }
+
+    const sources: SourcePlan[] = [
+      { alias: query.from.alias, source: query.from, isJoined: false },
+      ...(query.joins ?? []).map((join) => ({
+        alias: join.source.alias,
+        source: join.source,
+        isJoined: true,
+      })),
+    ];
+
+    const compiled = options.pushdown
+      ? this.compiler.compile(
+          query,
+          options.defaultDid,
+          options.datetimeFields,
+          page,
+        )
+      : undefined;
+
+    if (!compiled) {
+      const pipeline = this.planInMemory(query, page);
+      this.logger.debug(
+        `Query plan: ${pipeline.length} steps, ${sources.length} sources`,
+      );
+      return { sources, pipeline };
+    }
+
+    const pipeline: PipelineStep[] = [
+      {
+        type: "sql",
+        sql: compiled.sql,
+        params: compiled.params,
+        output: compiled.output,
+        aliases: compiled.aliases,
+        jsonColumns: compiled.jsonColumns,
+      },
+    ];
 
-  plan(query: Query): QueryPlan {
-    const sources: SourcePlan[] = [];
+    // Whatever SQL could not cover runs in memory over its output. Pages
+    // are cut in memory, after sorting with the same comparator that
+    // decides which rows come after the cursor.
+    if (compiled.output === "rows") {
+      if (compiled.residual) {
+        pipeline.push({ type: "filter", expression: compiled.residual });
+      }
+      for (const step of this.planProjection(query, page)) {
+        if (step.type === "orderBy" && compiled.ordered && !page) continue;
+        if (step.type === "limit" && compiled.limited) continue;
+        pipeline.push(step);
+      }
+    } else if (page) {
+      pipeline.push(...this.planPage(query, page));
+    }
+
+    this.logger.debug(
+      `Query plan: SQL (${compiled.output}) + ${pipeline.length - 1} steps, ${sources.length} sources`,
+    );
+    return { sources, pipeline };
+  }
+
+  /**
+   * The first query runs as a plan of its own, without the ordering and
+   * limit that belong to the combined result; each set operation then runs
+   * its query and merges the rows.
+   */
+  private planCompound(query: Query, options: PlanOptions): QueryPlan {
+    const first = this.plan(
+      {
+        ...query,
+        setOperations: undefined,
+        orderBy: undefined,
+        limit: undefined,
+        offset: undefined,
+      },
+      { ...options, page: undefined },
+    );
+
+    const columns = query.select.map((f) => f.alias);
+    const pipeline: PipelineStep[] = [
+      ...first.pipeline,
+      ...(query.setOperations ?? []).map(
+        (operation): PipelineStep => ({
+          type: "setOperation",
+          op: operation.op,
+          query: operation.query,
+          columns,
+        }),
+      ),
+      ...this.planOrdering(query, options.page),
+    ];
+
+    this.logger.debug(
+      `Query plan: ${query.setOperations!.length} set operations, ${pipeline.length} steps`,
+    );
+    return { sources: first.sources, pipeline };
+  }
+
+  private planInMemory(query: Query, page?: PageRequest): PipelineStep[] {
     const pipeline: PipelineStep[] = [];
 
     // Primary source
-    sources.push({
-      alias: query.from.alias,
-      source: query.from,
-      isJoined: false,
-    });
     pipeline.push({ type: "fetch", alias: query.from.alias });
 
     // Joins
     if (query.joins) {
       for (const join of query.joins) {
-        sources.push({
-          alias: join.source.alias,
-          source: join.source,
-          isJoined: true,
-        });
         pipeline.push({
           type: "join",
           joinType: join.joinType,
@@ -70,6 +213,14 @@ export class QueryPlanner {
       pipeline.push({ type: "filter", expression: query.where });
     }
 
+    pipeline.push(...this.planProjection(query, page));
+    return pipeline;
+  }
+
+  /** Steps from GROUP BY through LIMIT */
+  private planProjection(query: Query, page?: PageRequest): PipelineStep[] {
+    const pipeline: PipelineStep[] = [];
+
     // GROUP BY
     if (query.groupBy?.length) {
       pipeline.push({ type: "group", expressions: query.groupBy });
@@ -80,6 +231,12 @@ export class QueryPlanner {
       pipeline.push({ type: "having", expression: query.having });
     }
 
+    // WINDOW: computed over the rows SELECT is about to project
+    const windows = query.select.flatMap((f) => collectWindowCalls(f.value));
+    if (windows.length > 0) {
+      pipeline.push({ type: "window", calls: windows });
+    }
+
     // SELECT
     pipeline.push({
       type: "select",
@@ -91,19 +248,18 @@ export class QueryPlanner {
       pipeline.push({ type: "distinct" });
     }
 
-    // ORDER BY
+    pipeline.push(...this.planOrdering(query, page));
+    return pipeline;
+  }
+
+  /** ORDER BY, then either a page or LIMIT + OFFSET */
+  private planOrdering(query: Query, page?: PageRequest): PipelineStep[] {
+    if (page) return this.planPage(query, page);
+
+    const pipeline: PipelineStep[] = [];
     if (query.orderBy?.length) {
-      pipeline.push({
-        type: "orderBy",
-        clauses: query.orderBy.map((o) => ({
-          value: o.value,
-          direction: o.direction,
-          nulls: o.nulls,
-        })),
-      });
+      pipeline.push({ type: "orderBy", clauses: orderClauses(query) });
     }
-
-    // LIMIT + OFFSET
     if (query.limit) {
       pipeline.push({
         type: "limit",
@@ -111,10 +267,117 @@ export class QueryPlanner {
         offset: query.offset,
       });
     }
+    return pipeline;
+  }
 
-    this.logger.debug(
-      `Query plan: ${pipeline.length} steps, ${sources.length} sources`,
-    );
-    return { sources, pipeline };
+  private planPage(query: Query, page: PageRequest): PipelineStep[] {
+    const clauses = orderClauses(query);
+    const hidden = query.select
+      .map((f) => f.alias)
+      .filter((alias) => alias.startsWith(`${ROW_KEY_SOURCE}.`));
+    return [
+      { type: "orderBy", clauses },
+      { type: "page", clauses, limit: page.limit, after: page.after, hidden },
+    ];
+  }
+
+  /**
+   * Order a paged query totally, so a cursor names exactly one row: its
+   * own orderBy is followed by keys identifying each row. Rows of
+   * collection sources are identified by each source's `_uri` (an unnest
+   * source's element `index`), groups by their groupBy keys; keys not
+   * already selected are selected under hidden `$page.<n>` aliases.
+   * Distinct rows, set operation results and rows of derived sources are
+   * identified by every selected column instead.
+   */
+  private withRowKeys(query: Query): Query {
+    const sources = querySources(query);
+    let identity: Expression[] | undefined;
+    if (!query.distinct && !query.setOperations?.length) {
+      if (query.groupBy?.length) {
+        identity = query.groupBy;
+      } else if (sources.every((s) => isCollectionSource(s) || s.unnest)) {
+        identity = sources.map((s) =>
+          fieldRef(s.alias, isCollectionSource(s) ? "_uri" : "index"),
+        );
+      }
+    }
+
+    const keyOn = (alias: string): OrderByClause => ({
+      value: fieldRef(...splitAlias(alias)),
+      direction: "asc",
+    });
+    if (!identity) {
+      // Only `source.field` aliases can be referenced from orderBy
+      const columns = query.select.filter((f) => f.alias.includes("."));
+      return {
+        ...query,
+        orderBy: [...query.orderBy!, ...columns.map((f) => keyOn(f.alias))],
+      };
+    }
+
+    const select = [...query.select];
+    const keys = identity.map((value) => {
+      const json = JSON.stringify(value);
+      const selected = select.find(
+        (f) => f.alias.includes(".") && JSON.stringify(f.value) === json,
+      );
+      const alias =
+        selected?.alias ??
+        `${ROW_KEY_SOURCE}.${select.length - query.select.length}`;
+      if (!selected) select.push({ alias, value });
+      return keyOn(alias);
+    });
+    return { ...query, select, orderBy: [...query.orderBy!, ...keys] };
+  }
+}
+
+/** The source of the hidden select aliases holding a page's row keys */
+const ROW_KEY_SOURCE = "$page";
+
+function fieldRef(source: string, field: string): FieldRef {
+  return { type: "fieldRef", source, field };
+}
+
+/** `source.field` select aliases, split at the first dot */
+function splitAlias(alias: string): [string, string] {
+  const dot = alias.indexOf(".");
+  return [alias.slice(0, dot), alias.slice(dot + 1)];
+}
+
+function orderClauses(query: Query): OrderClause[] {
+  return (query.orderBy ?? []).map((o) => ({
+    value: o.value,
+    direction: o.direction,
+    nulls: o.nulls,
+  }));
+}
+
+function collectWindowCalls(expr: Expression): WindowCall[] {
+  switch (expr.type) {
+    case "windowCall":
+      return [expr];
+    case "builtinCall":
+    case "functionCall":
+      return expr.args.flatMap(collectWindowCalls);
+    case "comparison":
+      return [
+        ...collectWindowCalls(expr.left),
+        ...(expr.right ? collectWindowCalls(expr.right) : []),
+      ];
+    case "logicalOp":
+      return expr.operands.flatMap(collectWindowCalls);
+    case "arithmeticOp":
+      return [...collectWindowCalls(expr.left), ...collectWindowCalls(expr.right)];
+    case "caseExpression":
+      return [
+        ...expr.branches.flatMap((b) => [
+          ...collectWindowCalls(b.when),
+          ...collectWindowCalls(b.then),
+        ]),
+        ...(expr.elseValue ? collectWindowCalls(expr.elseValue) : []),
+      ];
+    default:
+      return [];
   }
 }
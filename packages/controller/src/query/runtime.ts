@@ -0,0 +1,268 @@
+import type {
+  ArithmeticOp,
+  BuiltinCall,
+  Comparison,
+  Exists,
+  Expression,
+  FunctionCall,
+  LogicalOp,
+  Subquery,
+  WindowCall,
+} from "@avaast/shared";
+import { defaultBuiltins, type BuiltinRegistry } from "./builtins.js";
+import {
+  compareValues,
+  logicalTruth,
+  sortOrder,
+  toNumber,
+  type Truth,
+} from "./comparison.js";
+import { isDatetime } from "./datetime.js";
+import { literalValue } from "./literals.js";
+
+type Row = Record<string, unknown>;
+
+/** What an expression may read besides the row it is evaluated against */
+export interface EvalScope {
+  params: Record<string, unknown>;
+  /** `alias.field` keys of record fields typed datetime (see datetime.ts) */
+  datetimeFields: ReadonlySet<string>;
+  /** The enclosing queries' current row, read by correlated subqueries */
+  outer?: Row;
+}
+
+/** Expressions whose value depends on state only the host holds */
+export type HostExpression = FunctionCall | WindowCall | Subquery | Exists;
+
+export interface ExpressionRuntimeOptions<S extends EvalScope> {
+  builtins?: BuiltinRegistry;
+  /**
+   * Evaluates function calls, window calls and nested queries. Without it,
+   * evaluating one throws.
+   */
+  evaluateHost?: (expr: HostExpression, row: Row, scope: S) => unknown;
+}
+
+/**
+ * ExpressionRuntime evaluates expressions against a row, synchronously.
+ * Rows are keyed by source alias, as `{ alias: record }` or with flattened
+ * `alias.field` keys, and field refs resolve `source.field` against either.
+ * It is shared by the query engine, subscription filters and search filters,
+ * so an expression means the same wherever it appears.
+ */
+export class ExpressionRuntime<S extends EvalScope = EvalScope> {
+  private builtins: BuiltinRegistry;
+  private evaluateHost?: (expr: HostExpression, row: Row, scope: S) => unknown;
+
+  constructor(options: ExpressionRuntimeOptions<S> = {}) {
+    this.builtins = options.builtins ?? defaultBuiltins;
+    this.evaluateHost = options.evaluateHost;
+  }
+
+  evaluate(expr: Expression, row: Row, scope: S): unknown {
+    switch (expr.type) {
+      case "fieldRef": {
+        if (expr.source === "$params") {
+          return scope.params[expr.field];
+        }
+        const key = `${expr.source}.${expr.field}`;
+        const value = readField(row, key);
+        // Correlated subqueries read fields of the enclosing rows
+        if (value === undefined && scope.outer) {
+          return readField(scope.outer, key);
+        }
+        return value;
+      }
+
+      case "literal":
+        return literalValue(expr);
+
+      case "comparison":
+        return this.evaluateComparison(expr, row, scope);
+
+      case "logicalOp":
+        return this.evaluateLogical(expr, row, scope);
+
+      case "arithmeticOp":
+        return this.evaluateArithmetic(expr, row, scope);
+
+      case "builtinCall":
+        return this.evaluateBuiltin(expr, row, scope);
+
+      case "caseExpression": {
+        for (const branch of expr.branches) {
+          if (this.evaluate(branch.when, row, scope)) {
+            return this.evaluate(branch.then, row, scope);
+          }
+        }
+        return expr.elseValue
+          ? this.evaluate(expr.elseValue, row, scope)
+          : null;
+      }
+
+      case "functionCall":
+      case "windowCall":
+      case "subquery":
+      case "exists":
+        if (!this.evaluateHost) {
+          throw new Error(`${expr.type} is not supported here`);
+        }
+        return this.evaluateHost(expr, row, scope);
+
+      default:
+        throw new Error(
+          `Unknown expression type: ${(expr as { type: string }).type}`,
+        );
+    }
+  }
+
+  /** Whether a condition holds; unknown, like false, does not */
+  test(expr: Expression, row: Row, scope: S): boolean {
+    return Boolean(this.evaluate(expr, row, scope));
+  }
+
+  private evaluateComparison(expr: Comparison, row: Row, scope: S): Truth {
+    const left = this.evaluate(expr.left, row, scope);
+    const right = expr.right ? this.evaluate(expr.right, row, scope) : null;
+    const datetime =
+      isDatetime(expr.left, scope.datetimeFields) ||
+      (expr.right !== undefined && isDatetime(expr.right, scope.datetimeFields));
+    return compareValues(expr.op, left, right, { datetime });
+  }
+
+  private evaluateLogical(expr: LogicalOp, row: Row, scope: S): Truth {
+    return logicalTruth(expr.op, expr.operands, (operand) =>
+      this.evaluate(operand, row, scope),
+    );
+  }
+
+  /**
+   * Operands are read by `toNumber`. Null when either is null or missing,
+   * as in SQL, or is not a number
+   */
+  private evaluateArithmetic(expr: ArithmeticOp, row: Row, scope: S): number | null {
+    const left = toNumber(this.evaluate(expr.left, row, scope));
+    const right = toNumber(this.evaluate(expr.right, row, scope));
+    if (left === null || right === null) return null;
+
+    switch (expr.op) {
+      case "add":
+        return left + right;
+      case "subtract":
+        return left - right;
+      case "multiply":
+        return left * right;
+      case "divide":
+        return right === 0 ? 0 : left / right;
+      case "modulo":
+        return right === 0 ? 0 : left % right;
+      default:
+        throw new Error(`Unknown arithmetic op: ${expr.op}`);
+    }
+  }
+
+  private evaluateBuiltin(expr: BuiltinCall, row: Row, scope: S): unknown {
+    const builtin = this.builtins.get(expr.name);
+    if (!builtin) {
+      throw new Error(`Unknown builtin: ${expr.name}`);
+    }
+
+    // On a grouped row, aggregates collect their first argument from the
+    // members of the group, or the members themselves without arguments
+    const group = row._group as Row[] | undefined;
+    if (group && builtin.aggregate) {
+      const [first, ...rest] = expr.args;
+      let values: unknown[] = this.aggregateRows(expr, group, scope).map((member) =>
+        first ? this.evaluate(first, member, scope) : member,
+      );
+      if (expr.distinct) values = distinctValues(values);
+      return builtin.aggregate(
+        values,
+        rest.map((a) => this.evaluate(a, row, scope)),
+      );
+    }
+
+    return builtin.evaluate(expr.args.map((a) => this.evaluate(a, row, scope)));
+  }
+
+  /** The group members an aggregate reads: filtered, then ordered */
+  private aggregateRows(expr: BuiltinCall, group: Row[], scope: S): Row[] {
+    const filter = expr.filter;
+    const members = filter
+      ? group.filter((member) => this.test(filter, member, scope))
+      : group;
+    const clauses = expr.orderBy;
+    if (!clauses?.length) return members;
+    const keyed = members.map((member) => ({
+      member,
+      keys: clauses.map((c) => this.evaluate(c.value, member, scope)),
+    }));
+    keyed.sort((a, b) => compareKeys(a.keys, b.keys, clauses));
+    return keyed.map((k) => k.member);
+  }
+}
+
+/**
+ * Order two rows' sort keys by `sortOrder`, the order pushed-down SQL sorts
+ * in too; nulls sort last unless asked otherwise
+ */
+export function compareKeys(
+  a: unknown[],
+  b: unknown[],
+  clauses: Array<{ direction: string; nulls?: string }>,
+): number {
+  for (let i = 0; i < clauses.length; i++) {
+    const clause = clauses[i]!;
+    const aVal = a[i];
+    const bVal = b[i];
+
+    // Handle nulls
+    if (aVal === null || aVal === undefined) {
+      if (bVal === null || bVal === undefined) continue;
+      return clause.nulls === "first" ? -1 : 1;
+    }
+    if (bVal === null || bVal === undefined) {
+      return clause.nulls === "first" ? 1 : -1;
+    }
+
+    const cmp = sortOrder(aVal, bVal);
+    if (cmp !== 0) {
+      return clause.direction === "desc" ? -cmp : cmp;
+    }
+  }
+  return 0;
+}
+
+/** Values with repeats dropped; objects and arrays compare by content */
+function distinctValues(values: unknown[]): unknown[] {
+  const seen = new Set<string>();
+  return values.filter((value) => {
+    const key = JSON.stringify(value ?? null);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Read `alias.field.path` from a row. Rows may hold a whole record under
+ * its alias or flattened `alias.field` keys, so progressively shorter
+ * prefixes are tried and the rest of the path is read from the value found:
+ * for "aye.avast.uri", `row["aye.avast.uri"]`, then `row["aye.avast"].uri`,
+ * then `row["aye"].avast.uri`.
+ */
+export function readField(row: Row, path: string): unknown {
+  const parts = path.split(".");
+  for (let i = parts.length; i >= 1; i--) {
+    const val = row[parts.slice(0, i).join(".")];
+    if (val !== undefined) {
+      let current: unknown = val;
+      for (let j = i; j < parts.length; j++) {
+        if (current === null || current === undefined) return undefined;
+        current = (current as Row)[parts[j]!];
+      }
+      return current;
+    }
+  }
+  return undefined;
+}
@@ -1,44 +1,277 @@
 import { createLogger } from "@avaast/shared";
 import type { Source } from "@avaast/shared";
+import type { RecordStore } from "../store/record-store.js";
+import type { ListedRecord, ListResult } from "../watcher/list-records.js";
+import {
+  SQL_COMPARE_FUNCTION,
+  SQL_NUMBER_FUNCTION,
+  sqlCompare,
+  toNumber,
+} from "./comparison.js";
+
+const BACKFILL_BATCH_SIZE = 100;
 
 export interface DataSourceAdapter {
   fetchRecords(source: Source, did?: string): Promise<unknown[]>;
 }
 
+/**
+ * A data source that can run SQL compiled by SqlCompiler. Every source the
+ * query reads must be available locally before the SQL runs, and the SQL
+ * may call the comparison function `SQL_COMPARE_FUNCTION` and the operand
+ * function `SQL_NUMBER_FUNCTION`.
+ */
+export interface SqlDataSource extends DataSourceAdapter {
+  querySql(
+    sources: Source[],
+    defaultDid: string | undefined,
+    sql: string,
+    params: Record<string, unknown>,
+  ): Promise<Record<string, unknown>[]>;
+}
+
+export function supportsSql(
+  dataSource: DataSourceAdapter,
+): dataSource is SqlDataSource {
+  return "querySql" in dataSource;
+}
+
+export interface RecordLister {
+  /**
+   * Stream every record of a collection, following pagination cursors, and
+   * return whether the listing was cut off before its last page
+   */
+  iterateRecords(
+    did: string,
+    collection: string,
+  ): AsyncGenerator<ListedRecord, ListResult | void>;
+}
+
+/** How a data source reads what a source's repos are */
+interface RepoReader {
+  /** The record values of one repo's collection */
+  records(did: string, collection: string): Promise<unknown[]>;
+  /** The repos known to hold records of a collection, if it can tell */
+  reposOf?(collection: string): string[];
+}
+
+/**
+ * The repos a source reads: its `did` or the default, its `dids`, or those
+ * its graph names. Undefined means every repo (`allRepos`).
+ */
+async function sourceRepos(
+  source: Source,
+  defaultDid: string | undefined,
+  reader: RepoReader,
+): Promise<string[] | undefined> {
+  if (source.dids) return source.dids;
+  if (source.allRepos) {
+    if (!reader.reposOf) throw needsMirror(source);
+    return undefined;
+  }
+
+  const graph = source.graph;
+  if (graph && !graph.field) {
+    if (!reader.reposOf) throw needsMirror(source);
+    return reader.reposOf(graph.collection);
+  }
+
+  const did = (graph ? graph.did : source.did) ?? defaultDid;
+  if (!did) {
+    throw new Error(
+      `No DID specified for source ${source.alias} (collection: ${source.collection})`,
+    );
+  }
+  if (!graph?.field) return [did];
+
+  // Each graph record names one repo, e.g. the subject of a follow
+  const dids = new Set<string>();
+  for (const record of await reader.records(did, graph.collection)) {
+    const value = readPath(record, graph.field);
+    if (typeof value === "string" && value.startsWith("did:")) dids.add(value);
+  }
+  return [...dids];
+}
+
+function readPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const key of path.split(".")) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function needsMirror(source: Source): Error {
+  return new Error(
+    `Source ${source.alias} reads repos found through the local record mirror`,
+  );
+}
+
 export class PdsDataSource implements DataSourceAdapter {
   private logger = createLogger("data-source");
-  private resolver: {
-    listRecords(
-      did: string,
-      collection: string,
-      limit?: number,
-    ): Promise<Array<{ uri: string; cid: string; value: unknown }>>;
-  };
-
-  constructor(resolver: {
-    listRecords(
-      did: string,
-      collection: string,
-      limit?: number,
-    ): Promise<Array<{ uri: string; cid: string; value: unknown }>>;
-  }) {
+  private resolver: RecordLister;
+
+  constructor(resolver: RecordLister) {
     this.resolver = resolver;
   }
 
   async fetchRecords(source: Source, defaultDid?: string): Promise<unknown[]> {
-    const did = source.did ?? defaultDid;
-    if (!did) {
-      throw new Error(
-        `No DID specified for source ${source.alias} (collection: ${source.collection})`,
-      );
+    const reader: RepoReader = {
+      records: (did, collection) => this.listRecords(did, collection),
+    };
+    const dids = (await sourceRepos(source, defaultDid, reader))!;
+
+    const records: unknown[] = [];
+    for (const did of dids) {
+      records.push(...(await this.listRecords(did, source.collection)));
+    }
+    return records;
+  }
+
+  private async listRecords(did: string, collection: string): Promise<unknown[]> {
+    this.logger.debug(`Fetching records from ${collection} for ${did}`);
+    const records: unknown[] = [];
+    for await (const r of this.resolver.iterateRecords(did, collection)) {
+      records.push({
+        ...(r.value as Record<string, unknown>),
+        _uri: r.uri,
+        _cid: r.cid,
+      });
     }
+    return records;
+  }
+}
+
+export interface LocalDataSourceOptions {
+  /**
+   * Called before a repo's collection is backfilled, after which the mirror
+   * relies on watcher events for it, e.g. to watch that repo. The listing
+   * waits for the returned promise, so events written while it runs reach
+   * the mirror and are kept over the pages listed.
+   */
+  onBackfill?: (did: string, collection: string) => void | Promise<void>;
+}
+
+/**
+ * LocalDataSource serves records from the SQLite record mirror. The first
+ * read of a (did, collection) pair backfills it from the PDS; after that the
+ * mirror is kept current by watcher events and no PDS request is made.
+ *
+ * Sources naming several repos backfill each of them. `allRepos` sources,
+ * and graphs naming the repos that hold records, find those repos in the
+ * mirror, which holds whichever the watcher has delivered records of.
+ */
+export class LocalDataSource implements SqlDataSource {
+  private logger = createLogger("local-data-source");
+  private store: RecordStore;
+  private resolver: RecordLister;
+  private pendingBackfills = new Map<string, Promise<void>>();
+  private options: LocalDataSourceOptions;
+
+  constructor(
+    store: RecordStore,
+    resolver: RecordLister,
+    options: LocalDataSourceOptions = {},
+  ) {
+    this.store = store;
+    this.resolver = resolver;
+    this.options = options;
+    this.store.defineFunction(SQL_COMPARE_FUNCTION, sqlCompare);
+    this.store.defineFunction(SQL_NUMBER_FUNCTION, toNumber);
+  }
 
-    this.logger.debug(`Fetching records from ${source.collection} for ${did}`);
-    const records = await this.resolver.listRecords(did, source.collection);
+  async fetchRecords(source: Source, defaultDid?: string): Promise<unknown[]> {
+    const dids = await this.prepareSource(source, defaultDid);
+    const records =
+      dids?.length === 1
+        ? this.store.listRecords(dids[0]!, source.collection)
+        : this.store.listRepoRecords(source.collection, dids);
     return records.map((r) => ({
       ...(r.value as Record<string, unknown>),
       _uri: r.uri,
       _cid: r.cid,
     }));
   }
+
+  async querySql(
+    sources: Source[],
+    defaultDid: string | undefined,
+    sql: string,
+    params: Record<string, unknown>,
+  ): Promise<Record<string, unknown>[]> {
+    for (const source of sources) {
+      await this.prepareSource(source, defaultDid);
+    }
+
+    return this.store.select(sql, params);
+  }
+
+  /** Backfill the repos a source reads, returning them (see sourceRepos) */
+  private async prepareSource(
+    source: Source,
+    defaultDid: string | undefined,
+  ): Promise<string[] | undefined> {
+    const dids = await sourceRepos(source, defaultDid, {
+      records: async (did, collection) => {
+        await this.ensureBackfilled(did, collection);
+        return this.store.listRecords(did, collection).map((r) => r.value);
+      },
+      reposOf: (collection) => this.store.listDids(collection),
+    });
+    for (const did of dids ?? []) {
+      await this.ensureBackfilled(did, source.collection);
+    }
+    return dids;
+  }
+
+  private async ensureBackfilled(
+    did: string,
+    collection: string,
+  ): Promise<void> {
+    if (this.store.isBackfilled(did, collection)) return;
+
+    // Concurrent queries on a cold collection share a single backfill
+    const key = `${did}/${collection}`;
+    let pending = this.pendingBackfills.get(key);
+    if (!pending) {
+      this.logger.debug(`Backfilling ${collection} for ${did}`);
+      pending = this.backfill(did, collection).finally(() => {
+        this.pendingBackfills.delete(key);
+      });
+      this.pendingBackfills.set(key, pending);
+    }
+    await pending;
+  }
+
+  private async backfill(did: string, collection: string): Promise<void> {
+    await this.options.onBackfill?.(did, collection);
+    this.store.beginBackfill(did, collection);
+
+    let batch: ListedRecord[] = [];
+    let count = 0;
+    const records = this.resolver.iterateRecords(did, collection);
+    let next = await records.next();
+    for (; !next.done; next = await records.next()) {
+      batch.push(next.value);
+      if (batch.length >= BACKFILL_BATCH_SIZE) {
+        this.store.putRecords(did, collection, batch);
+        count += batch.length;
+        batch = [];
+      }
+    }
+    this.store.putRecords(did, collection, batch);
+    count += batch.length;
+
+    // A cut-off listing is served as far as it got, but listed again on the
+    // next read rather than taken for the whole collection
+    if (next.value?.truncated) {
+      this.logger.warn(
+        `Listing ${did}/${collection} stopped at ${count} records; it is not marked backfilled`,
+      );
+      return;
+    }
+    this.store.markBackfilled(did, collection);
+    this.logger.info(`Backfilled ${count} records for ${did}/${collection}`);
+  }
 }
@@ -0,0 +1,632 @@
+import type {
+  Query,
+  Expression,
+  FieldRef,
+  Source,
+  SelectField,
+} from "@avaast/shared";
+import { isCollectionSource, querySources } from "./subqueries.js";
+import type { PageRequest } from "./pagination.js";
+import { isDatetime } from "./datetime.js";
+import { literalValue } from "./literals.js";
+import { SQL_COMPARE_FUNCTION, SQL_NUMBER_FUNCTION } from "./comparison.js";
+
+/**
+ * A bound SQL parameter: either a constant known at plan time or a query
+ * parameter read from `$params` at execution time. Parameter `i` is bound
+ * to the named placeholder `@p<i>`.
+ */
+export type SqlParam =
+  | { kind: "value"; value: unknown }
+  | { kind: "param"; name: string };
+
+export interface CompiledSql {
+  sql: string;
+  params: SqlParam[];
+  /**
+   * "rows" yields one row per joined record tuple with `<alias>.uri`,
+   * `<alias>.cid` and `<alias>.value` columns; "projected" yields the final
+   * select output keyed by select alias.
+   */
+  output: "rows" | "projected";
+  aliases: string[];
+  /** Projected columns holding JSON text that must be parsed */
+  jsonColumns: string[];
+  /** WHERE conjuncts that could not be translated and must run in memory */
+  residual?: Expression;
+  /** Whether ORDER BY ran in SQL */
+  ordered: boolean;
+  /** Whether LIMIT/OFFSET ran in SQL */
+  limited: boolean;
+}
+
+const AGGREGATES: Record<string, string> = {
+  count: "COUNT",
+  sum: "SUM",
+  avg: "AVG",
+  min: "MIN",
+  max: "MAX",
+};
+
+/** Ops compiled to the comparison function; `in`/`between` need arrays */
+const COMPARE_OPS = new Set([
+  "eq",
+  "neq",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "like",
+  "ilike",
+  "regex",
+]);
+
+const JOIN_TYPES: Record<string, string> = {
+  inner: "INNER JOIN",
+  left: "LEFT JOIN",
+  right: "RIGHT JOIN",
+  full: "FULL OUTER JOIN",
+  cross: "CROSS JOIN",
+};
+
+interface Scope {
+  aliases: Set<string>;
+  /** Aggregates are only translated when the query has a GROUP BY */
+  grouped: boolean;
+  params: SqlParam[];
+  /** `alias.field` keys of fields that compare as datetimes */
+  datetimeFields: ReadonlySet<string>;
+}
+
+/** Thrown internally when an expression has no SQL translation */
+class Untranslatable extends Error {}
+
+/**
+ * SqlCompiler translates Query ASTs into SQLite over the record mirror's
+ * `records` table, reading fields out of the JSON `value` column.
+ *
+ * Joins must translate fully or nothing is compiled. WHERE is split into
+ * conjuncts and whatever cannot be translated is returned as a residual for
+ * the in-memory evaluator. GROUP BY, SELECT, ORDER BY and LIMIT are pushed
+ * down only when doing so cannot change what the in-memory steps after
+ * them would see.
+ */
+export class SqlCompiler {
+  compile(
+    query: Query,
+    defaultDid?: string,
+    datetimeFields: ReadonlySet<string> = new Set(),
+    page?: PageRequest,
+  ): CompiledSql | undefined {
+    // Derived tables and CTEs run in memory
+    const sources = querySources(query);
+    if (!sources.every(isCollectionSource)) return undefined;
+
+    const scope: Scope = {
+      aliases: new Set(sources.map((s) => s.alias)),
+      grouped: false,
+      params: [],
+      datetimeFields,
+    };
+
+    const from = this.attempt(scope, () =>
+      this.compileFrom(query, scope, defaultDid),
+    );
+    if (from === undefined) return undefined;
+
+    // WHERE: push what we can, keep the rest in memory
+    const pushed: string[] = [];
+    const residual: Expression[] = [];
+    for (const conjunct of query.where ? splitConjuncts(query.where) : []) {
+      const sql = this.attempt(scope, () =>
+        this.compilePredicate(conjunct, scope),
+      );
+      if (sql === undefined) {
+        residual.push(conjunct);
+      } else {
+        pushed.push(sql);
+      }
+    }
+    const where = pushed.length > 0 ? ` WHERE ${pushed.join(" AND ")}` : "";
+
+    // Full pushdown: everything through LIMIT runs in SQL
+    if (residual.length === 0) {
+      const projected = this.attempt(scope, () =>
+        this.compileProjected(query, scope, page),
+      );
+      if (projected) {
+        const conditions = projected.keyset
+          ? [...pushed, projected.keyset]
+          : pushed;
+        const filter =
+          conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "";
+        return {
+          sql: `SELECT ${projected.select} FROM ${from}${filter}${projected.tail}`,
+          params: scope.params,
+          output: "projected",
+          aliases: [...scope.aliases],
+          jsonColumns: projected.jsonColumns,
+          ordered: Boolean(query.orderBy?.length),
+          limited: Boolean(query.limit),
+        };
+      }
+    }
+
+    // Partial pushdown: joined rows come back and the rest runs in memory.
+    // ORDER BY and LIMIT only move into SQL when nothing between the join
+    // and them changes the row set.
+    const columns = [...scope.aliases]
+      .flatMap((a) =>
+        ["uri", "cid", "value"].map(
+          (c) => `${quoteIdent(a)}.${c} AS ${quoteIdent(`${a}.${c}`)}`,
+        ),
+      )
+      .join(", ");
+
+    let tail = "";
+    let ordered = false;
+    let limited = false;
+    const rowPreserving =
+      residual.length === 0 && !query.groupBy?.length && !query.distinct;
+
+    if (query.orderBy?.length && rowPreserving) {
+      const orderBy = this.attempt(scope, () =>
+        this.compileOrderBy(query, scope, this.defaultOrderKeys(query)),
+      );
+      if (orderBy !== undefined) {
+        tail += orderBy;
+        ordered = true;
+      }
+    }
+    if (!ordered) {
+      // An in-memory sort is stable, so its ties keep this order
+      tail += ` ORDER BY ${this.defaultOrderKeys(query).join(", ")}`;
+    }
+
+    const canLimit =
+      rowPreserving &&
+      (ordered || (!query.orderBy?.length && !query.joins?.length));
+    if (query.limit && canLimit) {
+      tail += this.compileLimit(query, scope);
+      limited = true;
+    }
+
+    return {
+      sql: `SELECT ${columns} FROM ${from}${where}${tail}`,
+      params: scope.params,
+      output: "rows",
+      aliases: [...scope.aliases],
+      jsonColumns: [],
+      residual: residual.length > 0 ? joinConjuncts(residual) : undefined,
+      ordered,
+      limited,
+    };
+  }
+
+  /**
+   * Each source becomes a subquery over `records` restricted to its repos
+   * and collection, so outer joins and WHERE see exactly that source's
+   * records.
+   */
+  private compileFrom(
+    query: Query,
+    scope: Scope,
+    defaultDid?: string,
+  ): string {
+    const table = (source: Source) =>
+      `(SELECT uri, rkey, cid, value FROM records WHERE ${this.compileRepos(source, scope, defaultDid)}collection = ${this.bind(scope, source.collection)}) AS ${quoteIdent(source.alias)}`;
+
+    // compile() only gets here when every source is a collection
+    let sql = table(query.from as Source);
+    for (const join of query.joins ?? []) {
+      const joinType = JOIN_TYPES[join.joinType];
+      if (!joinType) throw new Untranslatable();
+      sql += ` ${joinType} ${table(join.source as Source)}`;
+      if (join.joinType !== "cross") {
+        sql += ` ON ${this.compilePredicate(join.on, scope)}`;
+      }
+    }
+    return sql;
+  }
+
+  /**
+   * A page is cut in SQL too: rows up to the cursor are filtered out, in
+   * HAVING for groups, and one row beyond the page is kept to tell whether
+   * another page follows.
+   */
+  private compileProjected(
+    query: Query,
+    scope: Scope,
+    page?: PageRequest,
+  ): { select: string; tail: string; jsonColumns: string[]; keyset?: string } {
+    const grouped = Boolean(query.groupBy?.length);
+    const groupScope: Scope = { ...scope, grouped };
+
+    // Without GROUP BY the in-memory engine applies aggregates per row,
+    // which SQL cannot reproduce, so those queries stay in memory
+    if (query.having && !grouped) throw new Untranslatable();
+
+    const jsonColumns: string[] = [];
+    const columns = query.select.map((field) => {
+      let sql: string;
+      if (isRecordField(field.value)) {
+        jsonColumns.push(field.alias);
+        sql = this.compileField(field.value, scope, true);
+      } else if (isScalarProjection(field.value)) {
+        sql = this.compileValue(field.value, groupScope);
+      } else {
+        throw new Untranslatable();
+      }
+      return `${sql} AS ${quoteIdent(field.alias)}`;
+    });
+
+    const keyset = page?.after
+      ? this.compileKeyset(query, groupScope, page.after.keys)
+      : undefined;
+
+    let tail = "";
+    if (grouped) {
+      const keys = query.groupBy!.map((e) => this.compileValue(e, scope));
+      tail += ` GROUP BY ${keys.join(", ")}`;
+    }
+    const having = [
+      ...(query.having ? [this.compilePredicate(query.having, groupScope)] : []),
+      ...(grouped && keyset ? [keyset] : []),
+    ];
+    if (having.length > 0) {
+      tail += ` HAVING ${having.join(" AND ")}`;
+    }
+    // In memory groups come out in order of their first record
+    const groupOrder = [`min(${quoteIdent(query.from.alias)}.rkey)`];
+    if (query.distinct) {
+      // In memory DISTINCT keeps first occurrences in order, which SQL
+      // has no way to express, and ORDER BY keeps that order for ties
+      throw new Untranslatable();
+    } else if (query.orderBy?.length) {
+      tail += this.compileOrderBy(
+        query,
+        groupScope,
+        grouped ? groupOrder : this.defaultOrderKeys(query),
+      );
+    } else {
+      tail += ` ORDER BY ${(grouped ? groupOrder : this.defaultOrderKeys(query)).join(", ")}`;
+    }
+    if (page) {
+      tail += ` LIMIT ${this.bind(scope, page.limit + 1)}`;
+    } else if (query.limit) {
+      tail += this.compileLimit(query, scope);
+    }
+
+    return {
+      select: `${query.distinct ? "DISTINCT " : ""}${columns.join(", ")}`,
+      tail,
+      jsonColumns,
+      keyset: grouped ? undefined : keyset,
+    };
+  }
+
+  /**
+   * ORDER BY runs after SELECT in memory, so its field refs name select
+   * aliases. Each is replaced by the expression selected under that alias.
+   * SQLite orders the values as `sortOrder` does; the in-memory sort is
+   * stable, so ties are broken by `tiebreak`, the order rows had before it.
+   */
+  private compileOrderBy(
+    query: Query,
+    scope: Scope,
+    tiebreak: string[],
+  ): string {
+    const clauses = this.compileOrderTerms(query, scope).map((term) => {
+      const direction = term.desc ? "DESC" : "ASC";
+      // In memory nulls sort last unless asked otherwise, in either direction
+      const nulls = term.nullsFirst ? "NULLS FIRST" : "NULLS LAST";
+      return `${term.sql} ${direction} ${nulls}`;
+    });
+    return ` ORDER BY ${[...clauses, ...tiebreak].join(", ")}`;
+  }
+
+  /**
+   * The rows sorting after a page cursor's keys in ORDER BY's order: those
+   * equal on the first clauses and past the key on the next one. Keys are
+   * compared with SQLite's own operators, whose order `sortOrder` follows.
+   */
+  private compileKeyset(query: Query, scope: Scope, keys: unknown[]): string {
+    const terms = this.compileOrderTerms(query, scope);
+    if (keys.length !== terms.length) throw new Untranslatable();
+    const alternatives = terms.map((term, i) => {
+      const equal = terms
+        .slice(0, i)
+        .map((t, j) => `${t.sql} IS ${this.bindKey(scope, keys[j])}`);
+      let past: string;
+      if (keys[i] === null || keys[i] === undefined) {
+        past = term.nullsFirst ? `${term.sql} IS NOT NULL` : "0";
+      } else {
+        past = `${term.sql} ${term.desc ? "<" : ">"} ${this.bindKey(scope, keys[i])}`;
+        if (!term.nullsFirst) past = `(${past} OR ${term.sql} IS NULL)`;
+      }
+      return `(${[...equal, past].join(" AND ")})`;
+    });
+    return `(${alternatives.join(" OR ")})`;
+  }
+
+  /** The selected expression each orderBy clause sorts by */
+  private compileOrderTerms(
+    query: Query,
+    scope: Scope,
+  ): Array<{ sql: string; desc: boolean; nullsFirst: boolean }> {
+    const byAlias = new Map<string, SelectField>(
+      query.select.map((f) => [f.alias, f]),
+    );
+    return query.orderBy!.map((clause) => {
+      if (clause.value.type !== "fieldRef") throw new Untranslatable();
+      const field = byAlias.get(`${clause.value.source}.${clause.value.field}`);
+      if (!field || !isScalarProjection(field.value)) {
+        throw new Untranslatable();
+      }
+      return {
+        sql: this.compileValue(field.value, scope),
+        desc: clause.direction === "desc",
+        nullsFirst: clause.nulls === "first",
+      };
+    });
+  }
+
+  /**
+   * The condition on `did` that selects a source's repos, followed by AND,
+   * or nothing for `allRepos`. Graph sources select repos with a subquery,
+   * so the set is read from the mirror as the statement runs.
+   */
+  private compileRepos(
+    source: Source,
+    scope: Scope,
+    defaultDid?: string,
+  ): string {
+    if (source.allRepos) return "";
+    if (source.dids) {
+      const dids = source.dids.map((did) => this.bind(scope, did));
+      return `did IN (${dids.join(", ")}) AND `;
+    }
+
+    const graph = source.graph;
+    if (graph && !graph.field) {
+      return `did IN (SELECT did FROM records WHERE collection = ${this.bind(scope, graph.collection)}) AND `;
+    }
+    const did = (graph ? graph.did : source.did) ?? defaultDid;
+    if (!did) throw new Untranslatable();
+    if (!graph?.field) return `did = ${this.bind(scope, did)} AND `;
+    return `did IN (SELECT json_extract(value, ${jsonPath(graph.field)}) FROM records WHERE did = ${this.bind(scope, did)} AND collection = ${this.bind(scope, graph.collection)}) AND `;
+  }
+
+  /**
+   * Keep the order the in-memory pipeline would see: records by rkey, each
+   * joined source's in turn, with unmatched right rows of outer joins last
+   */
+  private defaultOrderKeys(query: Query): string[] {
+    // Rows of different repos can share an rkey; their URIs differ
+    return [query.from, ...(query.joins ?? []).map((j) => j.source)].flatMap(
+      (s) => [
+        `${quoteIdent(s.alias)}.rkey NULLS LAST`,
+        `${quoteIdent(s.alias)}.uri NULLS LAST`,
+      ],
+    );
+  }
+
+  private compileLimit(query: Query, scope: Scope): string {
+    return ` LIMIT ${this.bind(scope, query.limit)} OFFSET ${this.bind(scope, query.offset ?? 0)}`;
+  }
+
+  /** Compile an expression used as a condition */
+  private compilePredicate(expr: Expression, scope: Scope): string {
+    switch (expr.type) {
+      case "comparison": {
+        const left = this.compileValue(expr.left, scope);
+        if (expr.op === "isNull") return `(${left} IS NULL)`;
+        if (expr.op === "isNotNull") return `(${left} IS NOT NULL)`;
+        if (!expr.right || !COMPARE_OPS.has(expr.op)) {
+          throw new Untranslatable();
+        }
+        const right = this.compileValue(expr.right, scope);
+        const datetime =
+          isDatetime(expr.left, scope.datetimeFields) ||
+          isDatetime(expr.right, scope.datetimeFields);
+        // The in-memory comparison model, registered with SQLite by the
+        // data source, so coercion and null handling cannot drift apart
+        return `${SQL_COMPARE_FUNCTION}('${expr.op}', ${left}, ${right}, ${datetime ? 1 : 0})`;
+      }
+      case "logicalOp": {
+        if (expr.op === "not") {
+          return `(NOT ${this.compilePredicate(expr.operands[0]!, scope)})`;
+        }
+        if (expr.operands.length === 0) {
+          return expr.op === "and" ? "1" : "0";
+        }
+        const joiner = expr.op === "and" ? " AND " : " OR ";
+        return `(${expr.operands.map((o) => this.compilePredicate(o, scope)).join(joiner)})`;
+      }
+      default:
+        // Bare values rely on JavaScript truthiness, which SQL does not share
+        throw new Untranslatable();
+    }
+  }
+
+  /** Compile an expression producing a value */
+  private compileValue(expr: Expression, scope: Scope): string {
+    switch (expr.type) {
+      case "fieldRef":
+        return this.compileField(expr, scope, false);
+
+      case "literal": {
+        const value = literalValue(expr);
+        // JSON booleans read back from records as 1/0
+        if (typeof value === "boolean") return value ? "1" : "0";
+        if (value === null) return "NULL";
+        if (Array.isArray(value)) throw new Untranslatable();
+        return this.bind(scope, value);
+      }
+
+      case "comparison":
+      case "logicalOp":
+        return this.compilePredicate(expr, scope);
+
+      case "arithmeticOp": {
+        // Operands are read as the in-memory engine reads them, not with
+        // SQLite's own casts, which make "ahoy" 0
+        const left = `${SQL_NUMBER_FUNCTION}(${this.compileValue(expr.left, scope)})`;
+        const right = `${SQL_NUMBER_FUNCTION}(${this.compileValue(expr.right, scope)})`;
+        switch (expr.op) {
+          case "add":
+            return `(${left} + ${right})`;
+          case "subtract":
+            return `(${left} - ${right})`;
+          case "multiply":
+            return `(${left} * ${right})`;
+          // Division by zero yields 0 in the in-memory engine, unless the
+          // dividend is null
+          case "divide":
+            return `(CASE WHEN ${left} IS NULL THEN NULL WHEN ${right} = 0 THEN 0 ELSE CAST(${left} AS REAL) / ${right} END)`;
+          default:
+            throw new Untranslatable();
+        }
+      }
+
+      case "builtinCall": {
+        const aggregate = AGGREGATES[expr.name];
+        if (aggregate) {
+          const countsRows = expr.name === "count" && expr.args.length === 0;
+          if (!scope.grouped || (expr.args.length !== 1 && !countsRows)) {
+            throw new Untranslatable();
+          }
+          if (countsRows && expr.distinct) throw new Untranslatable();
+          // Aggregate arguments and filters are evaluated per group member.
+          // Ordering cannot change the result of these aggregates.
+          const memberScope = { ...scope, grouped: false };
+          const arg = countsRows ? "*" : this.compileValue(expr.args[0]!, memberScope);
+          const distinct = expr.distinct ? "DISTINCT " : "";
+          const filter = expr.filter
+            ? ` FILTER (WHERE ${this.compilePredicate(expr.filter, memberScope)})`
+            : "";
+          const call = `${aggregate}(${distinct}${arg})${filter}`;
+          // The in-memory sum of a group with no values is 0, not NULL
+          return expr.name === "sum" ? `coalesce(${call}, 0)` : call;
+        }
+        switch (expr.name) {
+          case "abs":
+            if (expr.args.length !== 1) throw new Untranslatable();
+            return `abs(${this.compileValue(expr.args[0]!, scope)})`;
+          case "now":
+            return `strftime('%Y-%m-%dT%H:%M:%fZ', 'now')`;
+          default:
+            throw new Untranslatable();
+        }
+      }
+
+      default:
+        throw new Untranslatable();
+    }
+  }
+
+  /**
+   * Compile a field reference. `asJson` keeps record fields as JSON text so
+   * objects, arrays and booleans survive the round trip to the caller.
+   */
+  private compileField(expr: FieldRef, scope: Scope, asJson: boolean): string {
+    if (expr.source === "$params") {
+      scope.params.push({ kind: "param", name: expr.field });
+      return `@p${scope.params.length - 1}`;
+    }
+    if (!scope.aliases.has(expr.source)) throw new Untranslatable();
+    const table = quoteIdent(expr.source);
+    if (expr.field === "_uri") return `${table}.uri`;
+    if (expr.field === "_cid") return `${table}.cid`;
+    const path = jsonPath(expr.field);
+    return asJson
+      ? `(${table}.value -> ${path})`
+      : `json_extract(${table}.value, ${path})`;
+  }
+
+  private bind(scope: Scope, value: unknown): string {
+    scope.params.push({ kind: "value", value });
+    return `@p${scope.params.length - 1}`;
+  }
+
+  /** Bind a cursor key as SQLite sees the value: objects as JSON text */
+  private bindKey(scope: Scope, key: unknown): string {
+    return this.bind(
+      scope,
+      typeof key === "object" && key !== null ? JSON.stringify(key) : key,
+    );
+  }
+
+  /**
+   * Run a compilation step, returning undefined when it hits an
+   * untranslatable expression. Parameters bound by a failed step are dropped.
+   */
+  private attempt<T>(scope: Scope, fn: () => T): T | undefined {
+    const bound = scope.params.length;
+    try {
+      return fn();
+    } catch (err) {
+      if (!(err instanceof Untranslatable)) throw err;
+      scope.params.length = bound;
+      return undefined;
+    }
+  }
+}
+
+function splitConjuncts(expr: Expression): Expression[] {
+  if (expr.type === "logicalOp" && expr.op === "and") {
+    return expr.operands.flatMap(splitConjuncts);
+  }
+  return [expr];
+}
+
+function joinConjuncts(exprs: Expression[]): Expression {
+  return exprs.length === 1
+    ? exprs[0]!
+    : { type: "logicalOp", op: "and", operands: exprs };
+}
+
+/** A record field selected as-is, returned as parsed JSON */
+function isRecordField(expr: Expression): expr is FieldRef {
+  return (
+    expr.type === "fieldRef" &&
+    expr.source !== "$params" &&
+    expr.field !== "_uri" &&
+    expr.field !== "_cid"
+  );
+}
+
+/**
+ * Values whose SQL result matches the in-memory value: strings and numbers.
+ * Booleans come back from SQLite as 1/0, so selecting them is left to the
+ * in-memory evaluator.
+ */
+function isScalarProjection(expr: Expression): boolean {
+  switch (expr.type) {
+    case "fieldRef":
+    case "arithmeticOp":
+      return true;
+    case "literal":
+      return expr.booleanValue === undefined && expr.arrayValue === undefined;
+    case "builtinCall":
+      return (
+        expr.name in AGGREGATES || expr.name === "abs" || expr.name === "now"
+      );
+    default:
+      return false;
+  }
+}
+
+function quoteIdent(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/** Build a JSON path literal with quoted keys, such as '$."avast"."uri"' */
+function jsonPath(field: string): string {
+  const segments = field.split(".");
+  if (segments.some((s) => s === "" || /["\\]/.test(s))) {
+    throw new Untranslatable();
+  }
+  const path = "$" + segments.map((s) => `."${s}"`).join("");
+  return `'${path.replace(/'/g, "''")}'`;
+}
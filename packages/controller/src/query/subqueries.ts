@@ -0,0 +1,181 @@
+import type {
+  Dependency,
+  Expression,
+  FieldRef,
+  Query,
+  QuerySource,
+  Source,
+} from "@avaast/shared";
+
+/** Whether a source reads a collection rather than a nested query */
+export function isCollectionSource(source: QuerySource): source is Source {
+  return (source as Source).collection !== undefined;
+}
+
+export function querySources(query: Query): QuerySource[] {
+  return [query.from, ...(query.joins ?? []).map((j) => j.source)];
+}
+
+/** Every expression of a query, excluding those inside nested queries */
+export function queryExpressions(query: Query): Expression[] {
+  return [
+    ...querySources(query).flatMap((s) =>
+      !isCollectionSource(s) && s.unnest ? [s.unnest] : [],
+    ),
+    ...query.select.map((f) => f.value),
+    ...(query.joins ?? [])
+      .filter((j) => j.joinType !== "cross")
+      .map((j) => j.on),
+    ...(query.where ? [query.where] : []),
+    ...(query.groupBy ?? []),
+    ...(query.having ? [query.having] : []),
+    ...(query.orderBy ?? []).map((o) => o.value),
+  ];
+}
+
+/** The direct operands of an expression */
+export function childExpressions(expr: Expression): Expression[] {
+  switch (expr.type) {
+    case "comparison":
+      return expr.right ? [expr.left, expr.right] : [expr.left];
+    case "logicalOp":
+      return expr.operands;
+    case "arithmeticOp":
+      return [expr.left, expr.right];
+    case "builtinCall":
+      return [
+        ...expr.args,
+        ...(expr.filter ? [expr.filter] : []),
+        ...(expr.orderBy ?? []).map((o) => o.value),
+      ];
+    case "functionCall":
+      return expr.args;
+    case "caseExpression":
+      return [
+        ...expr.branches.flatMap((b) => [b.when, b.then]),
+        ...(expr.elseValue ? [expr.elseValue] : []),
+      ];
+    case "windowCall":
+      return [
+        ...expr.args,
+        ...(expr.partitionBy ?? []),
+        ...(expr.orderBy ?? []).map((o) => o.value),
+      ];
+    default:
+      return [];
+  }
+}
+
+/**
+ * The queries nested directly in a query: its CTEs, derived tables, set
+ * operations, and the `subquery`/`exists` expressions of its clauses.
+ */
+export function nestedQueries(query: Query): Query[] {
+  const nested: Query[] = [
+    ...(query.with ?? []).map((cte) => cte.query),
+    ...(query.setOperations ?? []).map((operation) => operation.query),
+  ];
+  for (const source of querySources(query)) {
+    if (!isCollectionSource(source) && source.query) nested.push(source.query);
+  }
+  const visit = (expr: Expression) => {
+    if (expr.type === "subquery" || expr.type === "exists") {
+      nested.push(expr.query);
+    }
+    childExpressions(expr).forEach(visit);
+  };
+  queryExpressions(query).forEach(visit);
+  return nested;
+}
+
+/**
+ * The computed records a query reads as sources, including through nested
+ * queries, as dependencies of the record that holds the query.
+ */
+export function computedDependencies(query: Query): Dependency[] {
+  const dependencies: Dependency[] = [];
+  const visit = (q: Query) => {
+    for (const source of querySources(q)) {
+      if (!isCollectionSource(source) && source.computed) {
+        dependencies.push({
+          name: source.alias,
+          kind: "computed",
+          ref: source.computed,
+        });
+      }
+    }
+    nestedQueries(q).forEach(visit);
+  };
+  visit(query);
+  return dependencies;
+}
+
+/**
+ * Every collection a query reads, including through nested queries and the
+ * graph collections that choose a source's repos
+ */
+export function queryCollections(query: Query): string[] {
+  const collections = new Set<string>();
+  const visit = (q: Query) => {
+    for (const source of querySources(q)) {
+      if (isCollectionSource(source)) {
+        collections.add(source.collection);
+        if (source.graph) collections.add(source.graph.collection);
+      }
+    }
+    nestedQueries(q).forEach(visit);
+  };
+  visit(query);
+  return [...collections];
+}
+
+/**
+ * The collections a query reads from repos not known in advance: those of
+ * `allRepos` sources and of graphs naming the repos that hold records
+ */
+export function openCollections(query: Query): string[] {
+  const collections = new Set<string>();
+  const visit = (q: Query) => {
+    for (const source of querySources(q)) {
+      if (!isCollectionSource(source)) continue;
+      if (source.allRepos) collections.add(source.collection);
+      if (source.graph && !source.graph.field) {
+        collections.add(source.graph.collection);
+      }
+    }
+    nestedQueries(q).forEach(visit);
+  };
+  visit(query);
+  return [...collections];
+}
+
+/**
+ * Field refs in a query, or any query nested in it, that name a source
+ * alias none of them declares: references to an enclosing query's row.
+ * A query without them is uncorrelated and gives the same rows whatever
+ * row it is evaluated for.
+ */
+export function correlatedRefs(query: Query): FieldRef[] {
+  const refs: FieldRef[] = [];
+  const visit = (q: Query, declared: Set<string>) => {
+    const aliases = new Set(declared);
+    querySources(q).forEach((s) => aliases.add(s.alias));
+    // ORDER BY names select aliases, not sources
+    q.select.forEach((f) => aliases.add(f.alias.split(".")[0]!));
+
+    const visitExpr = (expr: Expression) => {
+      if (
+        expr.type === "fieldRef" &&
+        expr.source !== "$params" &&
+        !aliases.has(expr.source)
+      ) {
+        refs.push(expr);
+      }
+      childExpressions(expr).forEach(visitExpr);
+    };
+    queryExpressions(q).forEach(visitExpr);
+    nestedQueries(q).forEach((n) => visit(n, aliases));
+  };
+  visit(query, new Set());
+  return refs;
+}
@@ -1,8 +1,10 @@
 import { createLogger } from "@avaast/shared";
 import type { SearchIndexRecord } from "@avaast/shared";
-import { FtsAdapter } from "./fts.js";
+import { FtsAdapter, type FtsFilter } from "./fts.js";
 import { Indexer } from "./indexer.js";
 
+const DEFAULT_LIMIT = 50;
+
 export interface SearchEngineOptions {
   dbPath: string;
 }
@@ -10,6 +12,7 @@ export interface SearchEngineOptions {
 export interface SearchQuery {
   indexName: string;
   query: string;
+  /** Values for the index's `filter` parameters, by parameter name */
   filters?: Record<string, string>;
   limit?: number;
   offset?: number;
@@ -43,15 +46,32 @@ export class SearchEngine {
     const start = Date.now();
     this.logger.debug(`Search: ${query.indexName} q="${query.query}"`);
 
+    const filters = query.filters ?? {};
+    if (Object.keys(filters).length === 0) {
+      const results = this.fts.search(query.indexName, query.query, {
+        limit: query.limit,
+        offset: query.offset,
+      });
+      return {
+        results: results.map((r) => r.data),
+        totalCount: this.fts.getCount(query.indexName),
+        durationMs: Date.now() - start,
+      };
+    }
+
+    const definition = this.indexer.getDefinition(query.indexName);
+    if (!definition) throw new Error(`Unknown index: ${query.indexName}`);
+    // Filters run in the FTS query, ahead of its pagination
+    const ftsFilters = searchFilters(definition.record, filters);
     const results = this.fts.search(query.indexName, query.query, {
-      limit: query.limit,
+      limit: query.limit ?? DEFAULT_LIMIT,
       offset: query.offset,
+      filters: ftsFilters,
     });
-    const totalCount = this.fts.getCount(query.indexName);
 
     return {
       results: results.map((r) => r.data),
-      totalCount,
+      totalCount: this.fts.countMatches(query.indexName, query.query, ftsFilters),
       durationMs: Date.now() - start,
     };
   }
@@ -60,3 +80,28 @@ export class SearchEngine {
     this.fts.close();
   }
 }
+
+/**
+ * The conditions a search's filters impose: each names a `filter`
+ * parameter of the index, whose field must equal the given value. A
+ * parameter's `field` is an indexed field name, or otherwise a record path.
+ */
+function searchFilters(
+  record: SearchIndexRecord,
+  filters: Record<string, string>,
+): FtsFilter[] {
+  return Object.entries(filters).map(([name, value]) => {
+    const parameter = record.parameters?.find(
+      (p) => p.type === "filter" && p.name === name,
+    );
+    if (!parameter) {
+      throw new Error(`Unknown filter for index ${record.name}: ${name}`);
+    }
+    const field = parameter.field ?? name;
+    const path = record.fields.find((f) => f.name === field)?.path ?? field;
+    const datetime = record.fields.some(
+      (f) => f.indexType === "datetime" && f.path === path,
+    );
+    return { path, value, datetime };
+  });
+}
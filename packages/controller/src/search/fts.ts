@@ -1,13 +1,28 @@
 import Database from "better-sqlite3";
 import { createLogger } from "@avaast/shared";
 import type { IndexedField } from "@avaast/shared";
+import { SQL_COMPARE_FUNCTION, sqlCompare } from "../query/comparison.js";
 
 export interface FtsIndex {
   name: string;
+  /** The FTS5 table, over the fulltext fields */
   tableName: string;
+  /** The table of indexed records, which the FTS5 table reads its content from */
+  dataTableName: string;
   fields: IndexedField[];
 }
 
+/**
+ * A condition on the stored record: the value at `path` equals `value`,
+ * compared as query comparisons are (see comparison.ts)
+ */
+export interface FtsFilter {
+  path: string;
+  value: string;
+  /** Compare as instants */
+  datetime: boolean;
+}
+
 export interface FtsSearchResult {
   rowid: number;
   rank: number;
@@ -22,12 +37,16 @@ export class FtsAdapter {
   constructor(dbPath: string) {
     this.db = new Database(dbPath);
     this.db.pragma("journal_mode = WAL");
+    this.db.function(SQL_COMPARE_FUNCTION, { deterministic: true }, sqlCompare);
     this.logger.info(`FTS adapter initialized at ${dbPath}`);
   }
 
   createIndex(name: string, fields: IndexedField[]): void {
-    const tableName = `fts_${name.replace(/[^a-zA-Z0-9]/g, "_")}`;
-    const dataTableName = `${tableName}_data`;
+    // FTS5 keeps its own data in `<table>_data`, so the FTS5 table must
+    // not take the name the records table is derived from
+    const baseName = `fts_${name.replace(/[^a-zA-Z0-9]/g, "_")}`;
+    const tableName = `${baseName}_match`;
+    const dataTableName = `${baseName}_data`;
 
     // Create the data table for storing full records
     const dataColumns = fields.map((f) => `"${f.name}" TEXT`).join(", ");
@@ -54,7 +73,7 @@ export class FtsAdapter {
       `);
     }
 
-    this.indexes.set(name, { name, tableName, fields });
+    this.indexes.set(name, { name, tableName, dataTableName, fields });
     this.logger.info(
       `Created FTS index: ${name} (${fields.length} fields, ${fulltextFields.length} fulltext)`,
     );
@@ -69,7 +88,7 @@ export class FtsAdapter {
     const index = this.indexes.get(indexName);
     if (!index) throw new Error(`Unknown index: ${indexName}`);
 
-    const dataTableName = `${index.tableName}_data`;
+    const { dataTableName } = index;
     const values: Record<string, unknown> = {
       source_uri: uri,
       source_cid: cid ?? null,
@@ -114,7 +133,7 @@ export class FtsAdapter {
     const index = this.indexes.get(indexName);
     if (!index) return;
 
-    const dataTableName = `${index.tableName}_data`;
+    const { dataTableName } = index;
     const row = this.db
       .prepare(`SELECT rowid FROM "${dataTableName}" WHERE source_uri = ?`)
       .get(uri) as { rowid: number } | undefined;
@@ -136,44 +155,37 @@ export class FtsAdapter {
   search(
     indexName: string,
     query: string,
-    options?: { limit?: number; offset?: number },
+    options?: { limit?: number; offset?: number; filters?: FtsFilter[] },
   ): FtsSearchResult[] {
     const index = this.indexes.get(indexName);
     if (!index) throw new Error(`Unknown index: ${indexName}`);
 
     const limit = options?.limit ?? 50;
     const offset = options?.offset ?? 0;
-    const fulltextFields = index.fields.filter(
-      (f) => f.indexType === "fulltext",
-    );
-
-    if (fulltextFields.length === 0) {
-      // No fulltext fields, do keyword search on data table
-      return this.keywordSearch(index, query, limit, offset);
-    }
+    const matching = this.matching(index, query, options?.filters ?? []);
+    if (!matching) return [];
 
+    // Keyword searches have no rank, and keep the data table's order
     const results = this.db
       .prepare(
         `
-      SELECT "${index.tableName}".rowid, rank, d.raw_json, d.source_uri, d.source_cid
-      FROM "${index.tableName}"
-      JOIN "${index.tableName}_data" d ON d.rowid = "${index.tableName}".rowid
-      WHERE "${index.tableName}" MATCH ?
-      ORDER BY rank
+      SELECT d.rowid, ${matching.ranked ? "rank" : "NULL AS rank"}, d.raw_json, d.source_uri, d.source_cid
+      ${matching.sql}
+      ${matching.ranked ? "ORDER BY rank" : ""}
       LIMIT ? OFFSET ?
     `,
       )
-      .all(query, limit, offset) as Array<{
+      .all(...matching.params, limit, offset) as Array<{
       rowid: number;
-      rank: number;
+      rank: number | null;
       raw_json: string;
       source_uri: string;
       source_cid: string;
     }>;
 
-    return results.map((r) => ({
+    return results.map((r, i) => ({
       rowid: r.rowid,
-      rank: r.rank,
+      rank: r.rank ?? i,
       data: {
         ...JSON.parse(r.raw_json),
         _uri: r.source_uri,
@@ -182,55 +194,60 @@ export class FtsAdapter {
     }));
   }
 
-  private keywordSearch(
+  /** How many records a search matches, filters included */
+  countMatches(indexName: string, query: string, filters: FtsFilter[] = []): number {
+    const index = this.indexes.get(indexName);
+    if (!index) throw new Error(`Unknown index: ${indexName}`);
+    const matching = this.matching(index, query, filters);
+    if (!matching) return 0;
+    const row = this.db
+      .prepare(`SELECT COUNT(*) as count ${matching.sql}`)
+      .get(...matching.params) as { count: number };
+    return row.count;
+  }
+
+  /**
+   * The FROM and WHERE clauses selecting a search's matches, the data table
+   * as `d`: an FTS match when the index has fulltext fields, otherwise a
+   * substring of any keyword field. Undefined when nothing can match.
+   */
+  private matching(
     index: FtsIndex,
     query: string,
-    limit: number,
-    offset: number,
-  ): FtsSearchResult[] {
-    const dataTableName = `${index.tableName}_data`;
-    const keywordFields = index.fields.filter(
-      (f) => f.indexType === "keyword",
-    );
-    if (keywordFields.length === 0) return [];
+    filters: FtsFilter[],
+  ): { sql: string; params: unknown[]; ranked: boolean } | undefined {
+    const { dataTableName } = index;
+    const fulltext = index.fields.some((f) => f.indexType === "fulltext");
+    let sql: string;
+    let params: unknown[];
 
-    const conditions = keywordFields
-      .map((f) => `"${f.name}" LIKE ?`)
-      .join(" OR ");
-    const searchValue = `%${query}%`;
-    const params = keywordFields.map(() => searchValue);
-
-    const results = this.db
-      .prepare(
-        `
-      SELECT rowid, raw_json, source_uri, source_cid
-      FROM "${dataTableName}"
-      WHERE ${conditions}
-      LIMIT ? OFFSET ?
-    `,
-      )
-      .all(...params, limit, offset) as Array<{
-      rowid: number;
-      raw_json: string;
-      source_uri: string;
-      source_cid: string;
-    }>;
+    if (fulltext) {
+      const fts = `"${index.tableName}"`;
+      sql = `FROM ${fts} JOIN "${dataTableName}" d ON d.rowid = ${fts}.rowid WHERE ${fts} MATCH ?`;
+      params = [query];
+    } else {
+      const keywordFields = index.fields.filter(
+        (f) => f.indexType === "keyword",
+      );
+      if (keywordFields.length === 0) return undefined;
+      const conditions = keywordFields
+        .map((f) => `d."${f.name}" LIKE ?`)
+        .join(" OR ");
+      sql = `FROM "${dataTableName}" d WHERE (${conditions})`;
+      params = keywordFields.map(() => `%${query}%`);
+    }
 
-    return results.map((r, i) => ({
-      rowid: r.rowid,
-      rank: i,
-      data: {
-        ...JSON.parse(r.raw_json),
-        _uri: r.source_uri,
-        _cid: r.source_cid,
-      },
-    }));
+    for (const filter of filters) {
+      sql += ` AND ${SQL_COMPARE_FUNCTION}('eq', json_extract(d.raw_json, ?), ?, ?) = 1`;
+      params.push(jsonPath(filter.path), filter.value, filter.datetime ? 1 : 0);
+    }
+    return { sql, params, ranked: fulltext };
   }
 
   getCount(indexName: string): number {
     const index = this.indexes.get(indexName);
     if (!index) return 0;
-    const dataTableName = `${index.tableName}_data`;
+    const { dataTableName } = index;
     const row = this.db
       .prepare(`SELECT COUNT(*) as count FROM "${dataTableName}"`)
       .get() as { count: number };
@@ -251,3 +268,8 @@ export class FtsAdapter {
     this.db.close();
   }
 }
+
+/** A JSON path reading a dotted record path, such as `$."avast"."uri"` */
+function jsonPath(path: string): string {
+  return "$" + path.split(".").map((segment) => `."${segment}"`).join("");
+}
@@ -58,6 +58,10 @@ export class Indexer {
     }
   }
 
+  getDefinition(name: string): IndexDefinition | undefined {
+    return this.definitions.get(name);
+  }
+
   getIndexesForCollection(collection: string): string[] {
     return this.collectionToIndexes.get(collection) ?? [];
   }
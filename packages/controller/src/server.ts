@@ -2,7 +2,12 @@ import { Hono } from "hono";
 import { serve } from "@hono/node-server";
 import type { Server } from "node:http";
 import { createLogger } from "@avaast/shared";
-import type { QueryRequest, QueryResponse } from "@avaast/shared";
+import type {
+  QueryRequest,
+  QueryResponse,
+  QueryExplainResponse,
+} from "@avaast/shared";
+import { InvalidParamsError } from "./query/params.js";
 
 const logger = createLogger("controller-server");
 
@@ -10,10 +15,15 @@ export type QueryResolver = (
   req: QueryRequest,
 ) => Promise<QueryResponse>;
 
+export type ExplainResolver = (
+  req: QueryRequest,
+) => Promise<QueryExplainResponse>;
+
 export interface ControllerServerOptions {
   port: number;
   hostname?: string;
   queryResolver: QueryResolver;
+  explainResolver?: ExplainResolver;
   getDeployStatus?: () => unknown[];
 }
 
@@ -42,12 +52,37 @@ export class ControllerServer {
         const durationMs = Date.now() - start;
         return c.json({ ...result, durationMs });
       } catch (err) {
+        if (err instanceof InvalidParamsError) {
+          return c.json({ error: "InvalidRequest", message: err.message }, 400);
+        }
         const msg = err instanceof Error ? err.message : String(err);
         logger.error("Query execution failed", err);
         return c.json({ error: "QueryFailed", message: msg }, 500);
       }
     });
 
+    // POST /internal/query/explain - Execute a computed query with a step trace
+    this.app.post("/internal/query/explain", async (c) => {
+      const explainResolver = this.options.explainResolver;
+      if (!explainResolver) {
+        return c.json(
+          { error: "NotImplemented", message: "Explain is not supported" },
+          501,
+        );
+      }
+      try {
+        const body = (await c.req.json()) as QueryRequest;
+        return c.json(await explainResolver(body));
+      } catch (err) {
+        if (err instanceof InvalidParamsError) {
+          return c.json({ error: "InvalidRequest", message: err.message }, 400);
+        }
+        const msg = err instanceof Error ? err.message : String(err);
+        logger.error("Query explain failed", err);
+        return c.json({ error: "QueryFailed", message: msg }, 500);
+      }
+    });
+
     // GET /internal/deploy/status - List deploy statuses
     this.app.get("/internal/deploy/status", (c) => {
       const deploys = this.options.getDeployStatus?.() ?? [];
@@ -0,0 +1 @@
+export { RecordStore, recordUri, type StoredRecord } from "./record-store.js";
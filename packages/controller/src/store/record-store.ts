@@ -0,0 +1,253 @@
+import Database from "better-sqlite3";
+import { createLogger } from "@avaast/shared";
+import type { FirehoseEvent } from "../watcher/firehose.js";
+
+export interface StoredRecord {
+  uri: string;
+  cid: string;
+  value: unknown;
+}
+
+/**
+ * RecordStore mirrors repo records into SQLite so queries can be served
+ * locally instead of calling com.atproto.repo.listRecords per request.
+ *
+ * Records are kept current by applying watcher events. Each (did, collection)
+ * pair is backfilled once from the PDS; the `backfills` table tracks which
+ * pairs are complete so reads know whether the mirror can be trusted.
+ *
+ * Marks only hold while the store is open: events missed while the
+ * controller was down never reach the mirror, so opening the store clears
+ * them and each pair is listed again on its first read.
+ */
+export class RecordStore {
+  private db: Database.Database;
+  private logger = createLogger("record-store");
+  /** URIs written or deleted by events during each open backfill, by pair */
+  private backfilling = new Map<string, Set<string>>();
+
+  constructor(dbPath: string) {
+    this.db = new Database(dbPath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS records (
+        uri TEXT PRIMARY KEY,
+        did TEXT NOT NULL,
+        collection TEXT NOT NULL,
+        rkey TEXT NOT NULL,
+        cid TEXT,
+        value TEXT NOT NULL,
+        indexed_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      CREATE INDEX IF NOT EXISTS records_did_collection
+        ON records (did, collection);
+      CREATE INDEX IF NOT EXISTS records_collection_did
+        ON records (collection, did);
+      CREATE TABLE IF NOT EXISTS backfills (
+        did TEXT NOT NULL,
+        collection TEXT NOT NULL,
+        completed_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (did, collection)
+      );
+      DELETE FROM backfills;
+    `);
+    this.logger.info(`Record store initialized at ${dbPath}`);
+  }
+
+  putRecord(
+    did: string,
+    collection: string,
+    rkey: string,
+    cid: string | undefined,
+    value: unknown,
+  ): void {
+    const uri = recordUri(did, collection, rkey);
+    this.backfilling.get(backfillKey(did, collection))?.add(uri);
+    this.db
+      .prepare(
+        "INSERT OR REPLACE INTO records (uri, did, collection, rkey, cid, value, indexed_at) VALUES (?, ?, ?, ?, ?, ?, datetime('now'))",
+      )
+      .run(
+        uri,
+        did,
+        collection,
+        rkey,
+        cid ?? null,
+        JSON.stringify(value),
+      );
+  }
+
+  deleteRecord(did: string, collection: string, rkey: string): void {
+    const uri = recordUri(did, collection, rkey);
+    this.backfilling.get(backfillKey(did, collection))?.add(uri);
+    this.db.prepare("DELETE FROM records WHERE uri = ?").run(uri);
+  }
+
+  /**
+   * Apply a watcher event. Creates and updates without a record body
+   * (e.g. undecoded firehose ops) are ignored.
+   */
+  applyEvent(event: FirehoseEvent): void {
+    if (event.type === "delete") {
+      this.deleteRecord(event.did, event.collection, event.rkey);
+    } else if (event.record !== undefined) {
+      this.putRecord(
+        event.did,
+        event.collection,
+        event.rkey,
+        event.cid,
+        event.record,
+      );
+    }
+  }
+
+  listRecords(did: string, collection: string): StoredRecord[] {
+    const rows = this.db
+      .prepare(
+        "SELECT uri, cid, value FROM records WHERE did = ? AND collection = ? ORDER BY rkey",
+      )
+      .all(did, collection) as Array<{
+      uri: string;
+      cid: string | null;
+      value: string;
+    }>;
+
+    return rows.map((r) => ({
+      uri: r.uri,
+      cid: r.cid ?? "",
+      value: JSON.parse(r.value) as unknown,
+    }));
+  }
+
+  /**
+   * Records of a collection across repos: those of `dids`, or of every repo
+   * when omitted. Ordered by rkey, then URI, as pushed-down SQL orders them.
+   */
+  listRepoRecords(collection: string, dids?: readonly string[]): StoredRecord[] {
+    const filter = dids
+      ? ` AND did IN (${dids.map(() => "?").join(", ")})`
+      : "";
+    const rows = this.db
+      .prepare(
+        `SELECT uri, cid, value FROM records WHERE collection = ?${filter} ORDER BY rkey, uri`,
+      )
+      .all(collection, ...(dids ?? [])) as Array<{
+      uri: string;
+      cid: string | null;
+      value: string;
+    }>;
+
+    return rows.map((r) => ({
+      uri: r.uri,
+      cid: r.cid ?? "",
+      value: JSON.parse(r.value) as unknown,
+    }));
+  }
+
+  /** The repos holding records of a collection */
+  listDids(collection: string): string[] {
+    const rows = this.db
+      .prepare("SELECT DISTINCT did FROM records WHERE collection = ? ORDER BY did")
+      .all(collection) as Array<{ did: string }>;
+    return rows.map((r) => r.did);
+  }
+
+  /** Make a deterministic scalar function callable from SQL */
+  defineFunction(
+    name: string,
+    fn: (...args: unknown[]) => unknown,
+  ): void {
+    this.db.function(name, { deterministic: true }, fn);
+  }
+
+  /** Run a read-only statement with named parameters */
+  select(
+    sql: string,
+    params: Record<string, unknown> = {},
+  ): Record<string, unknown>[] {
+    const statement = this.db.prepare(sql);
+    if (!statement.reader) {
+      throw new Error("Only statements that return rows can be selected");
+    }
+    return statement.all(params) as Record<string, unknown>[];
+  }
+
+  isBackfilled(did: string, collection: string): boolean {
+    const row = this.db
+      .prepare("SELECT 1 FROM backfills WHERE did = ? AND collection = ?")
+      .get(did, collection);
+    return row !== undefined;
+  }
+
+  /**
+   * Start a backfill: drop whatever is stored for the collection and clear
+   * its backfilled mark. Pages are then added with `putRecords` and the
+   * backfill is closed with `markBackfilled`. A record written or deleted
+   * by an event in between is newer than any page listed before it, so
+   * `putRecords` leaves it as the event left it.
+   */
+  beginBackfill(did: string, collection: string): void {
+    this.backfilling.set(backfillKey(did, collection), new Set());
+    const begin = this.db.transaction(() => {
+      this.db
+        .prepare("DELETE FROM records WHERE did = ? AND collection = ?")
+        .run(did, collection);
+      this.db
+        .prepare("DELETE FROM backfills WHERE did = ? AND collection = ?")
+        .run(did, collection);
+    });
+    begin();
+  }
+
+  /**
+   * Insert a batch of listed records in a single transaction, skipping
+   * those events have touched since `beginBackfill`
+   */
+  putRecords(did: string, collection: string, records: StoredRecord[]): void {
+    const insert = this.db.prepare(
+      "INSERT OR REPLACE INTO records (uri, did, collection, rkey, cid, value, indexed_at) VALUES (?, ?, ?, ?, ?, ?, datetime('now'))",
+    );
+    const touched = this.backfilling.get(backfillKey(did, collection));
+
+    const putAll = this.db.transaction(() => {
+      for (const record of records) {
+        if (touched?.has(record.uri)) continue;
+        const rkey = record.uri.split("/").pop() ?? "";
+        insert.run(
+          record.uri,
+          did,
+          collection,
+          rkey,
+          record.cid,
+          JSON.stringify(record.value),
+        );
+      }
+    });
+    putAll();
+  }
+
+  markBackfilled(did: string, collection: string): void {
+    this.backfilling.delete(backfillKey(did, collection));
+    this.db
+      .prepare(
+        "INSERT OR REPLACE INTO backfills (did, collection, completed_at) VALUES (?, ?, datetime('now'))",
+      )
+      .run(did, collection);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+export function recordUri(
+  did: string,
+  collection: string,
+  rkey: string,
+): string {
+  return `at://${did}/${collection}/${rkey}`;
+}
+
+function backfillKey(did: string, collection: string): string {
+  return `${did} ${collection}`;
+}
@@ -81,21 +81,18 @@ export class SubscriptionManager {
         if (!connection) continue;
 
         // Evaluate filter with subscriber's params
-        if (definition.record.filter) {
-          const matches = this.evaluator.evaluate(
-            definition.record.filter,
-            record,
-            connection.params,
-          );
-          if (!matches) continue;
+        if (
+          !this.evaluator.matches(definition.record, record, connection.params)
+        ) {
+          continue;
         }
 
-        // Project fields
         const projected = this.evaluator.projectFields(
-          definition.record.fields,
+          definition.record,
           record,
           connection.params,
         );
+        if (!projected) continue;
 
         connection.send({
           type: "subscription",
@@ -0,0 +1,349 @@
+import { createLogger, retry } from "@avaast/shared";
+import { blockMatches, CarReader, type Car } from "./car.js";
+import { CID, decodeCbor, toJsonValue } from "./cbor.js";
+import type { CursorStore } from "./cursor-store.js";
+import type { FirehoseEventHandler } from "./firehose.js";
+import { walkMst } from "./mst.js";
+
+export interface BackfillProgress {
+  did: string;
+  phase: "downloading" | "replaying" | "complete";
+  /** Bytes of the repo CAR received so far */
+  bytes: number;
+  /** Records delivered so far */
+  records: number;
+  /** Records of watched collections in the repo, once it is downloaded */
+  totalRecords?: number;
+  /** Whether records an earlier run delivered were not delivered again */
+  resumed?: boolean;
+}
+
+export interface RepoBackfillOptions {
+  pdsEndpoint: string;
+  did: string;
+  /**
+   * The collections to replay. Read again after each pass, so collections
+   * added while replaying (e.g. by a computed record) are replayed too.
+   */
+  collections: () => string[];
+  onEvent: FirehoseEventHandler;
+  onProgress?: (progress: BackfillProgress) => void;
+  /**
+   * Where progress is kept, so a restart against the same revision of the
+   * repo resumes past the records already delivered, or skips the backfill
+   * when every watched collection was delivered. Without it, every run
+   * starts over.
+   */
+  cursorStore?: CursorStore;
+  /**
+   * Called before a run resumes past records an earlier run delivered, or
+   * skips them all, so what the handler built from them can be restored
+   */
+  onResume?: () => void;
+  /** The largest repo CAR to download, in bytes; defaults to 512 MiB */
+  maxBytes?: number;
+  /** Download attempts before giving up */
+  maxAttempts?: number;
+  /** Issues the HTTP request; defaults to the global fetch */
+  request?: (url: string) => Promise<Response>;
+}
+
+/** Records between progress reports and saves while replaying */
+const PROGRESS_INTERVAL = 500;
+/** Bytes between progress reports while downloading */
+const DOWNLOAD_PROGRESS_BYTES = 1024 * 1024;
+const DEFAULT_MAX_BYTES = 512 * 1024 * 1024;
+
+/** A repo CAR over `maxBytes`, which another attempt would not fix */
+class RepoTooLargeError extends Error {}
+
+/**
+ * RepoBackfill replays the records a repo held before the watcher started.
+ * It downloads the whole repo as a CAR via com.atproto.sync.getRepo, walks
+ * the MST of its signed commit in key order, and delivers each record of a
+ * watched collection as a `create` event through the same handler live
+ * events use. The CAR is read as it arrives, up to `maxBytes`.
+ *
+ * A failed download, or a CAR missing blocks, is retried with backoff; the
+ * walk then resumes past the records already delivered. Progress belongs
+ * to the repo revision it was made at and is saved to the cursor store
+ * every few hundred records, so a restart may deliver those again; a newer
+ * revision is replayed from the start. `stop` ends the walk before the next
+ * record.
+ */
+export class RepoBackfill {
+  private logger = createLogger("backfill");
+  private options: RepoBackfillOptions;
+  private running = false;
+  /** The revision progress was made at */
+  private rev: string | undefined;
+  /** Collections whose records were all delivered */
+  private completed = new Set<string>();
+  /** The last key delivered of the collection in progress */
+  private lastKey: string | undefined;
+  /** Whether the progress was loaded from an earlier run */
+  private resumable = false;
+  private progress: BackfillProgress;
+
+  constructor(options: RepoBackfillOptions) {
+    this.options = options;
+    this.progress = {
+      did: options.did,
+      phase: "downloading",
+      bytes: 0,
+      records: 0,
+    };
+  }
+
+  async run(): Promise<BackfillProgress> {
+    this.running = true;
+    this.logger.info(`Backfilling repo ${this.options.did}`);
+
+    const saved = this.options.cursorStore?.getBackfill(this.options.did);
+    if (saved) {
+      this.rev = saved.rev;
+      this.completed = new Set(saved.collections);
+      this.lastKey = saved.lastKey;
+      this.resumable = true;
+      if (this.isComplete() && (await this.latestRev()) === saved.rev) {
+        this.resume();
+        this.report({ phase: "complete" });
+        this.logger.info(
+          `Repo ${this.options.did} is backfilled at ${saved.rev} already`
+        );
+        this.running = false;
+        return { ...this.progress };
+      }
+    }
+
+    let tooLarge: RepoTooLargeError | undefined;
+    await retry(
+      async () => {
+        if (!this.running) return;
+        try {
+          const car = await this.download();
+          this.replay(car);
+        } catch (err) {
+          if (!(err instanceof RepoTooLargeError)) throw err;
+          tooLarge = err;
+        }
+      },
+      { maxAttempts: this.options.maxAttempts ?? 3, baseDelayMs: 1000 }
+    );
+    if (tooLarge) {
+      this.running = false;
+      throw tooLarge;
+    }
+
+    if (this.running) {
+      this.report({ phase: "complete" });
+      this.logger.info(
+        `Backfilled ${this.progress.records} records from ${this.options.did}`
+      );
+    }
+    this.running = false;
+    return { ...this.progress };
+  }
+
+  stop(): void {
+    this.running = false;
+  }
+
+  private request(url: string): Promise<Response> {
+    return (this.options.request ?? ((u: string) => fetch(u)))(url);
+  }
+
+  /** Whether every watched collection was delivered */
+  private isComplete(): boolean {
+    return (
+      this.lastKey === undefined &&
+      this.options.collections().every((c) => this.completed.has(c))
+    );
+  }
+
+  /** The revision the repo is at, or undefined when the PDS cannot say */
+  private async latestRev(): Promise<string | undefined> {
+    const url = `${this.options.pdsEndpoint}/xrpc/com.atproto.sync.getLatestCommit?did=${encodeURIComponent(this.options.did)}`;
+    try {
+      const response = await this.request(url);
+      if (!response.ok) return undefined;
+      const body = (await response.json()) as { rev?: unknown };
+      return typeof body.rev === "string" ? body.rev : undefined;
+    } catch (err) {
+      this.logger.warn(`Cannot read the revision of ${this.options.did}`, err);
+      return undefined;
+    }
+  }
+
+  private async download(): Promise<Car> {
+    const url = `${this.options.pdsEndpoint}/xrpc/com.atproto.sync.getRepo?did=${encodeURIComponent(this.options.did)}`;
+    const response = await this.request(url);
+    if (!response.ok || !response.body) {
+      throw new Error(
+        `Failed to download repo ${this.options.did}: ${response.status}`
+      );
+    }
+
+    const maxBytes = this.options.maxBytes ?? DEFAULT_MAX_BYTES;
+    const tooLarge = () =>
+      new RepoTooLargeError(
+        `Repo ${this.options.did} is larger than ${maxBytes} bytes`
+      );
+    if (Number(response.headers.get("content-length")) > maxBytes) {
+      await response.body.cancel();
+      throw tooLarge();
+    }
+
+    this.report({ phase: "downloading", bytes: 0 });
+    const car = new CarReader();
+    let bytes = 0;
+    let reported = 0;
+    const reader = response.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      bytes += value.length;
+      if (bytes > maxBytes) {
+        await reader.cancel();
+        throw tooLarge();
+      }
+      car.push(value);
+      if (bytes - reported >= DOWNLOAD_PROGRESS_BYTES) {
+        reported = bytes;
+        this.report({ bytes });
+      }
+    }
+    this.report({ bytes });
+    return car.finish();
+  }
+
+  private replay(car: Car): void {
+    const root = car.roots[0];
+    const commitBytes = root && car.blocks.get(root.toString());
+    if (!root || !commitBytes || !blockMatches(root, commitBytes)) {
+      throw new Error(`Repo CAR of ${this.options.did} has no commit block`);
+    }
+    const commit = decodeCbor(commitBytes) as {
+      data?: unknown;
+      rev?: unknown;
+    } | null;
+    if (!(commit?.data instanceof CID) || typeof commit.rev !== "string") {
+      throw new Error(`Malformed commit in the repo of ${this.options.did}`);
+    }
+
+    if (commit.rev !== this.rev) {
+      this.rev = commit.rev;
+      this.completed.clear();
+      this.lastKey = undefined;
+      this.resumable = false;
+    }
+    this.resume();
+
+    // Replaying a computed record may add collections; those records are
+    // picked up by another pass
+    let collections: string[];
+    do {
+      collections = [...this.options.collections()];
+      this.replayPass(commit.data, car.blocks, collections);
+    } while (
+      this.running &&
+      this.options.collections().length > collections.length
+    );
+  }
+
+  private replayPass(
+    data: CID,
+    blocks: Map<string, Uint8Array>,
+    collections: string[]
+  ): void {
+    const wanted = new Set(collections.filter((c) => !this.completed.has(c)));
+    const pending = Array.from(walkMst(data, blocks)).filter(
+      ([key]) => wanted.has(collectionOf(key)) && !this.isDelivered(key)
+    );
+    this.report({
+      phase: "replaying",
+      totalRecords: this.progress.records + pending.length,
+    });
+    this.logger.info(
+      `Replaying ${pending.length} records of ${wanted.size} collections`
+    );
+
+    try {
+      for (const [key, cid] of pending) {
+        if (!this.running) return;
+        const bytes = blocks.get(cid.toString());
+        if (!bytes || !blockMatches(cid, bytes)) {
+          throw new Error(`Record block for ${key} is missing or corrupt`);
+        }
+
+        // Keys are in order, so the collection before this key's is done
+        const collection = collectionOf(key);
+        if (this.lastKey !== undefined) {
+          const previous = collectionOf(this.lastKey);
+          if (previous !== collection && wanted.has(previous)) {
+            this.completed.add(previous);
+          }
+        }
+        try {
+          this.options.onEvent({
+            type: "create",
+            collection,
+            rkey: key.slice(collection.length + 1),
+            did: this.options.did,
+            cid: cid.toString(),
+            record: toJsonValue(decodeCbor(bytes)),
+          });
+        } catch (err) {
+          this.logger.error(`Error replaying ${key}`, err);
+        }
+        this.lastKey = key;
+
+        this.progress.records++;
+        if (this.progress.records % PROGRESS_INTERVAL === 0) {
+          this.report({});
+          this.save();
+        }
+      }
+      for (const collection of wanted) this.completed.add(collection);
+      this.lastKey = undefined;
+    } finally {
+      this.save();
+    }
+  }
+
+  /** Whether an earlier attempt or run delivered a key */
+  private isDelivered(key: string): boolean {
+    return (
+      this.lastKey !== undefined &&
+      collectionOf(key) === collectionOf(this.lastKey) &&
+      key <= this.lastKey
+    );
+  }
+
+  /** Tell the handler once that an earlier run's records are skipped */
+  private resume(): void {
+    if (!this.resumable) return;
+    this.resumable = false;
+    if (this.completed.size === 0 && this.lastKey === undefined) return;
+    this.progress.resumed = true;
+    this.options.onResume?.();
+  }
+
+  private save(): void {
+    if (this.rev === undefined) return;
+    this.options.cursorStore?.setBackfill(this.options.did, {
+      rev: this.rev,
+      collections: [...this.completed],
+      lastKey: this.lastKey,
+    });
+  }
+
+  private report(update: Partial<BackfillProgress>): void {
+    Object.assign(this.progress, update);
+    this.options.onProgress?.({ ...this.progress });
+  }
+}
+
+function collectionOf(key: string): string {
+  return key.slice(0, key.indexOf("/"));
+}
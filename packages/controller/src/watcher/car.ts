@@ -0,0 +1,161 @@
+import { createHash } from "node:crypto";
+import { CID, decodeCbor } from "./cbor.js";
+
+/**
+ * The blocks of a CAR (content-addressed archive, v1) file, keyed by the
+ * string form of their CID. Firehose commits carry the blocks they
+ * changed as a CAR. Block hashes are not checked on reading; use
+ * `blockMatches` on the blocks that are relied on.
+ */
+export interface Car {
+  roots: CID[];
+  blocks: Map<string, Uint8Array>;
+}
+
+export function readCar(bytes: Uint8Array): Car {
+  const reader = new ByteReader(bytes);
+  const roots = readHeader(reader.take(reader.varint()));
+
+  const blocks = new Map<string, Uint8Array>();
+  while (!reader.done()) {
+    const section = new ByteReader(reader.take(reader.varint()));
+    const cid = section.cid();
+    blocks.set(cid.toString(), section.rest());
+  }
+  return { roots, blocks };
+}
+
+/**
+ * Reads a CAR as it arrives in chunks, e.g. a whole repo downloading, so
+ * only its blocks are held rather than the file as well. Each block is
+ * copied out of its chunk once the chunk holds all of it.
+ */
+export class CarReader {
+  private roots: CID[] | null = null;
+  private blocks = new Map<string, Uint8Array>();
+  /** Bytes of the section in progress */
+  private pending: Uint8Array = new Uint8Array(0);
+
+  push(chunk: Uint8Array): void {
+    const bytes =
+      this.pending.length === 0 ? chunk : Buffer.concat([this.pending, chunk]);
+    let offset = 0;
+    for (;;) {
+      const length = peekVarint(bytes, offset);
+      if (!length || length[1] + length[0] > bytes.length) break;
+      const [size, start] = length;
+      const section = bytes.subarray(start, start + size);
+      if (this.roots === null) {
+        this.roots = readHeader(section);
+      } else {
+        const reader = new ByteReader(section);
+        const cid = reader.cid();
+        this.blocks.set(cid.toString(), reader.rest().slice());
+      }
+      offset = start + size;
+    }
+    this.pending = bytes.slice(offset);
+  }
+
+  /** The CAR read so far; throws if it ends mid-section or has no header */
+  finish(): Car {
+    if (this.pending.length > 0) {
+      throw new Error("Unexpected end of CAR data");
+    }
+    if (this.roots === null) throw new Error("CAR has no header");
+    return { roots: this.roots, blocks: this.blocks };
+  }
+}
+
+function readHeader(bytes: Uint8Array): CID[] {
+  const header = decodeCbor(bytes) as {
+    version?: unknown;
+    roots?: unknown;
+  };
+  if (header?.version !== 1) {
+    throw new Error(`Unsupported CAR version: ${String(header?.version)}`);
+  }
+  const roots = Array.isArray(header.roots) ? header.roots : [];
+  if (!roots.every((root) => root instanceof CID)) {
+    throw new Error("Malformed CAR header roots");
+  }
+  return roots as CID[];
+}
+
+/**
+ * A varint starting at `offset` and the offset after it, or undefined
+ * when the bytes end first
+ */
+function peekVarint(
+  bytes: Uint8Array,
+  offset: number
+): [value: number, next: number] | undefined {
+  let value = 0;
+  for (let shift = 0, i = offset; shift < 53; shift += 7, i++) {
+    if (i >= bytes.length) return undefined;
+    const byte = bytes[i]!;
+    value += (byte & 0x7f) * 2 ** shift;
+    if ((byte & 0x80) === 0) return [value, i + 1];
+  }
+  throw new Error("Varint exceeds the safe integer range");
+}
+
+/** Whether a block's bytes hash to its CID; only sha2-256 is supported */
+export function blockMatches(cid: CID, bytes: Uint8Array): boolean {
+  const reader = new ByteReader(cid.bytes);
+  reader.varint(); // version
+  reader.varint(); // codec
+  if (reader.varint() !== 0x12 || reader.varint() !== 32) return false;
+  const digest = createHash("sha256").update(bytes).digest();
+  return Buffer.compare(reader.rest(), digest) === 0;
+}
+
+class ByteReader {
+  private bytes: Uint8Array;
+  private offset = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+  }
+
+  done(): boolean {
+    return this.offset >= this.bytes.length;
+  }
+
+  /** An unsigned LEB128 integer, as used by multiformats */
+  varint(): number {
+    let value = 0;
+    for (let shift = 0; shift < 53; shift += 7) {
+      const byte = this.take(1)[0]!;
+      value += (byte & 0x7f) * 2 ** shift;
+      if ((byte & 0x80) === 0) return value;
+    }
+    throw new Error("Varint exceeds the safe integer range");
+  }
+
+  /** A binary CIDv1: version, codec, then a multihash */
+  cid(): CID {
+    const start = this.offset;
+    const version = this.varint();
+    if (version !== 1) {
+      throw new Error(`Unsupported CID version: ${version}`);
+    }
+    this.varint(); // codec
+    this.varint(); // hash function
+    this.take(this.varint()); // digest
+    return new CID(this.bytes.slice(start, this.offset));
+  }
+
+  take(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error("Unexpected end of CAR data");
+    }
+    const slice = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  rest(): Uint8Array {
+    return this.take(this.bytes.length - this.offset);
+  }
+}
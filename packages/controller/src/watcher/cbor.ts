@@ -0,0 +1,232 @@
+/**
+ * A decoder for DAG-CBOR, the CBOR profile AT Protocol repositories and
+ * the `subscribeRepos` firehose are encoded in. DAG-CBOR forbids
+ * indefinite lengths and every tag but 42 (a CID link), so those are
+ * rejected rather than decoded.
+ */
+
+const CID_TAG = 42;
+const MAX_DEPTH = 128;
+
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+/** A content identifier: a hash of a block, with its codec */
+export class CID {
+  readonly bytes: Uint8Array;
+
+  constructor(bytes: Uint8Array) {
+    if (bytes[0] !== 1) {
+      throw new Error(`Unsupported CID version: ${bytes[0]}`);
+    }
+    this.bytes = bytes;
+  }
+
+  /** The base32 multibase form AT Protocol uses, e.g. `bafyrei...` */
+  toString(): string {
+    let out = "b";
+    let buffer = 0;
+    let bits = 0;
+    for (const byte of this.bytes) {
+      buffer = (buffer << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        out += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+    if (bits > 0) out += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+    return out;
+  }
+
+  equals(other: CID): boolean {
+    return (
+      this.bytes.length === other.bytes.length &&
+      this.bytes.every((b, i) => b === other.bytes[i])
+    );
+  }
+}
+
+/** Decode exactly one DAG-CBOR value */
+export function decodeCbor(bytes: Uint8Array): unknown {
+  const decoder = new CborDecoder(bytes);
+  const value = decoder.next();
+  if (!decoder.done()) {
+    throw new Error("Trailing bytes after CBOR value");
+  }
+  return value;
+}
+
+/** Decode DAG-CBOR values written back to back, as in a firehose frame */
+export function decodeCborSequence(bytes: Uint8Array): unknown[] {
+  const decoder = new CborDecoder(bytes);
+  const values: unknown[] = [];
+  while (!decoder.done()) values.push(decoder.next());
+  return values;
+}
+
+/**
+ * A decoded value in the JSON form of the AT Protocol data model, the form
+ * `listRecords` returns records in: CID links become `{ $link }` and byte
+ * strings `{ $bytes }` (unpadded base64).
+ */
+export function toJsonValue(value: unknown): unknown {
+  if (value instanceof CID) return { $link: value.toString() };
+  if (value instanceof Uint8Array) {
+    return { $bytes: Buffer.from(value).toString("base64").replace(/=+$/, "") };
+  }
+  if (Array.isArray(value)) return value.map(toJsonValue);
+  if (value !== null && typeof value === "object") {
+    const result: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value)) {
+      setKey(result, key, toJsonValue(v));
+    }
+    return result;
+  }
+  return value;
+}
+
+/** Assign without invoking setters, so a `__proto__` key stays data */
+function setKey(target: Record<string, unknown>, key: string, value: unknown): void {
+  Object.defineProperty(target, key, {
+    value,
+    enumerable: true,
+    writable: true,
+    configurable: true,
+  });
+}
+
+class CborDecoder {
+  private bytes: Uint8Array;
+  private view: DataView;
+  private offset = 0;
+  private text = new TextDecoder("utf-8", { fatal: true });
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  done(): boolean {
+    return this.offset >= this.bytes.length;
+  }
+
+  next(depth = 0): unknown {
+    if (depth > MAX_DEPTH) throw new Error("CBOR value nested too deeply");
+    const initial = this.readUint8();
+    const major = initial >> 5;
+    const info = initial & 31;
+
+    if (major === 7) return this.readSimple(info);
+
+    const argument = this.readArgument(info);
+    switch (major) {
+      case 0:
+        return argument;
+      case 1:
+        return -1 - argument;
+      case 2:
+        return this.take(argument).slice();
+      case 3:
+        return this.text.decode(this.take(argument));
+      case 4: {
+        const items: unknown[] = [];
+        for (let i = 0; i < argument; i++) items.push(this.next(depth + 1));
+        return items;
+      }
+      case 5: {
+        const map: Record<string, unknown> = {};
+        for (let i = 0; i < argument; i++) {
+          const key = this.next(depth + 1);
+          if (typeof key !== "string") {
+            throw new Error("CBOR map keys must be strings");
+          }
+          setKey(map, key, this.next(depth + 1));
+        }
+        return map;
+      }
+      case 6: {
+        if (argument !== CID_TAG) {
+          throw new Error(`Unsupported CBOR tag: ${argument}`);
+        }
+        const content = this.next(depth + 1);
+        // CID links carry a leading zero byte, the identity multibase
+        if (!(content instanceof Uint8Array) || content[0] !== 0) {
+          throw new Error("Malformed CID link");
+        }
+        return new CID(content.subarray(1));
+      }
+      default:
+        throw new Error(`Unknown CBOR major type: ${major}`);
+    }
+  }
+
+  private readSimple(info: number): unknown {
+    switch (info) {
+      case 20:
+        return false;
+      case 21:
+        return true;
+      case 22:
+        return null;
+      case 25:
+        return halfToNumber(this.readView(2, (o) => this.view.getUint16(o)));
+      case 26:
+        return this.readView(4, (o) => this.view.getFloat32(o));
+      case 27:
+        return this.readView(8, (o) => this.view.getFloat64(o));
+      default:
+        throw new Error(`Unsupported CBOR simple value: ${info}`);
+    }
+  }
+
+  private readArgument(info: number): number {
+    if (info < 24) return info;
+    switch (info) {
+      case 24:
+        return this.readUint8();
+      case 25:
+        return this.readView(2, (o) => this.view.getUint16(o));
+      case 26:
+        return this.readView(4, (o) => this.view.getUint32(o));
+      case 27: {
+        const big = this.readView(8, (o) => this.view.getBigUint64(o));
+        if (big > BigInt(Number.MAX_SAFE_INTEGER)) {
+          throw new Error("CBOR integer exceeds the safe integer range");
+        }
+        return Number(big);
+      }
+      case 31:
+        throw new Error("Indefinite-length CBOR items are not allowed");
+      default:
+        throw new Error(`Invalid CBOR additional info: ${info}`);
+    }
+  }
+
+  private readUint8(): number {
+    return this.take(1)[0]!;
+  }
+
+  private readView<T>(length: number, read: (offset: number) => T): T {
+    const start = this.offset;
+    this.take(length);
+    return read(start);
+  }
+
+  private take(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error("Unexpected end of CBOR data");
+    }
+    const slice = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+}
+
+function halfToNumber(half: number): number {
+  const sign = half & 0x8000 ? -1 : 1;
+  const exponent = (half >> 10) & 0x1f;
+  const fraction = half & 0x3ff;
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
@@ -1,9 +1,21 @@
 import Database from "better-sqlite3";
 import { createLogger } from "@avaast/shared";
 
+/** How far a repo backfill got, at one revision of the repo */
+export interface BackfillState {
+  rev: string;
+  /** Collections whose records were all delivered */
+  collections: string[];
+  /** The last `collection/rkey` delivered of a collection in progress */
+  lastKey?: string;
+}
+
 /**
- * CursorStore persists firehose cursor positions in SQLite so that
- * the watcher can resume from the correct sequence number after a restart.
+ * CursorStore persists firehose and Jetstream cursor positions in SQLite so
+ * that the watcher can resume from the correct position after a restart.
+ * It also remembers recently delivered events, so a stream that resumes a
+ * little before its cursor can recognize the events it replays, and how
+ * far each repo backfill got.
  * Uses WAL journal mode for concurrent read/write performance.
  */
 export class CursorStore {
@@ -18,7 +30,22 @@ export class CursorStore {
         key TEXT PRIMARY KEY,
         value INTEGER NOT NULL,
         updated_at TEXT NOT NULL DEFAULT (datetime('now'))
-      )
+      );
+      CREATE TABLE IF NOT EXISTS delivered_events (
+        stream TEXT NOT NULL,
+        event_key TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        PRIMARY KEY (stream, event_key)
+      );
+      CREATE INDEX IF NOT EXISTS delivered_events_position
+        ON delivered_events (stream, position);
+      CREATE TABLE IF NOT EXISTS backfills (
+        did TEXT PRIMARY KEY,
+        rev TEXT NOT NULL,
+        collections TEXT NOT NULL,
+        last_key TEXT,
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
     `);
     this.logger.info(`Cursor store initialized at ${dbPath}`);
   }
@@ -38,6 +65,59 @@ export class CursorStore {
       .run(key, value);
   }
 
+  /** Whether a stream has already delivered an event */
+  isDelivered(stream: string, eventKey: string): boolean {
+    const row = this.db
+      .prepare(
+        "SELECT 1 FROM delivered_events WHERE stream = ? AND event_key = ?"
+      )
+      .get(stream, eventKey);
+    return row !== undefined;
+  }
+
+  /** Record that a stream delivered an event at a position */
+  markDelivered(stream: string, eventKey: string, position: number): void {
+    this.db
+      .prepare(
+        "INSERT OR REPLACE INTO delivered_events (stream, event_key, position) VALUES (?, ?, ?)"
+      )
+      .run(stream, eventKey, position);
+  }
+
+  /** Forget delivered events before a position, which cannot be replayed */
+  pruneDelivered(stream: string, before: number): void {
+    this.db
+      .prepare("DELETE FROM delivered_events WHERE stream = ? AND position < ?")
+      .run(stream, before);
+  }
+
+  getBackfill(did: string): BackfillState | undefined {
+    const row = this.db
+      .prepare("SELECT rev, collections, last_key FROM backfills WHERE did = ?")
+      .get(did) as
+      | { rev: string; collections: string; last_key: string | null }
+      | undefined;
+    if (!row) return undefined;
+    return {
+      rev: row.rev,
+      collections: JSON.parse(row.collections) as string[],
+      lastKey: row.last_key ?? undefined,
+    };
+  }
+
+  setBackfill(did: string, state: BackfillState): void {
+    this.db
+      .prepare(
+        "INSERT OR REPLACE INTO backfills (did, rev, collections, last_key, updated_at) VALUES (?, ?, ?, ?, datetime('now'))"
+      )
+      .run(did, state.rev, JSON.stringify(state.collections), state.lastKey ?? null);
+  }
+
+  /** Run a function in one transaction, e.g. an event's bookkeeping */
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+
   close(): void {
     this.db.close();
   }
@@ -1,4 +1,7 @@
 import { createLogger } from "@avaast/shared";
+import { CID, decodeCbor, decodeCborSequence, toJsonValue } from "./cbor.js";
+import { readCar } from "./car.js";
+import type { CommitVerifier } from "./verify.js";
 
 export interface FirehoseEvent {
   type: "create" | "update" | "delete";
@@ -11,6 +14,57 @@ export interface FirehoseEvent {
 
 export type FirehoseEventHandler = (event: FirehoseEvent) => void;
 
+/** A repo operation of a `#commit` message */
+export interface RepoOp {
+  action: "create" | "update" | "delete";
+  /** `collection/rkey` */
+  path: string;
+  /** The new record's CID; null for deletes */
+  cid: CID | null;
+}
+
+/**
+ * A decoded `com.atproto.sync.subscribeRepos` frame. Message types this
+ * client does not know are returned as `unknown`, to be skipped, and error
+ * frames as `error`, after which the server closes the connection.
+ */
+export type FirehoseMessage =
+  | {
+      type: "#commit";
+      seq: number;
+      repo: string;
+      rev: string;
+      time: string;
+      commit: CID;
+      /** Set when the commit was too large to carry its blocks */
+      tooBig: boolean;
+      ops: RepoOp[];
+      /** Blocks the commit carried, by CID */
+      blocks: Map<string, Uint8Array>;
+    }
+  | { type: "#identity"; seq: number; did: string; time: string; handle?: string }
+  | {
+      type: "#account";
+      seq: number;
+      did: string;
+      time: string;
+      active: boolean;
+      /** Why the account is inactive, e.g. `takendown` or `deleted` */
+      status?: string;
+    }
+  | {
+      type: "#sync";
+      seq: number;
+      did: string;
+      rev: string;
+      time: string;
+      /** A CAR holding the repo's current commit */
+      blocks: Map<string, Uint8Array>;
+    }
+  | { type: "#info"; name: string; message?: string }
+  | { type: "error"; error: string; message?: string }
+  | { type: "unknown"; name: string };
+
 export interface FirehoseOptions {
   pdsEndpoint: string;
   cursor?: number;
@@ -18,6 +72,22 @@ export interface FirehoseOptions {
   onEvent: FirehoseEventHandler;
   onCursor: (cursor: number) => void;
   onError?: (error: Error) => void;
+  /** The connection opened, the first time or after a reconnect */
+  onOpen?: () => void;
+  /** A repo's handle or DID document changed */
+  onIdentity?: (message: FirehoseMessage & { type: "#identity" }) => void;
+  /** A repo's hosting status changed, e.g. it was deactivated or taken down */
+  onAccount?: (message: FirehoseMessage & { type: "#account" }) => void;
+  /**
+   * A repo's state was reset to a new commit; changes since the last event
+   * may not have been sent, so its records should be fetched again
+   */
+  onSync?: (message: FirehoseMessage & { type: "#sync" }) => void;
+  /**
+   * Verifies each `#commit` before its events are delivered; commits that
+   * fail are logged and skipped
+   */
+  verifier?: CommitVerifier;
 }
 
 /**
@@ -25,6 +95,7 @@ export interface FirehoseOptions {
  * Node 22+ provides a global WebSocket; earlier versions require `ws`.
  */
 interface MinimalWebSocket {
+  binaryType: string;
   addEventListener(
     type: "open",
     listener: () => void
@@ -72,10 +143,13 @@ async function getWebSocketConstructor(): Promise<WebSocketConstructor> {
  * FirehoseClient connects to a PDS via the com.atproto.sync.subscribeRepos
  * WebSocket endpoint and watches for record changes in specified collections.
  *
- * The firehose sends CBOR-encoded frames. This initial implementation handles
- * JSON-based messages; a production implementation would use @atproto/repo
- * for full CBOR/CAR decoding. The poller fallback ensures data is still fetched
- * even when binary frames cannot be decoded.
+ * Each binary frame is a DAG-CBOR header followed by a DAG-CBOR body (see
+ * `parseFrame`). `#commit` records are read from the CAR blocks the commit
+ * carries; `#identity`, `#account` and `#sync` messages go to their
+ * optional handlers. Every message with a sequence number advances the
+ * cursor once it has been handled. Messages are handled one at a time, in
+ * the order they arrive, so events keep their order while a commit is
+ * being verified.
  */
 export class FirehoseClient {
   private ws: MinimalWebSocket | null = null;
@@ -84,6 +158,7 @@ export class FirehoseClient {
   private options: FirehoseOptions;
   private reconnectDelay = 1000;
   private WS: WebSocketConstructor | null = null;
+  private handling: Promise<void> = Promise.resolve();
 
   constructor(options: FirehoseOptions) {
     this.options = options;
@@ -134,19 +209,22 @@ export class FirehoseClient {
 
       this.logger.info(`Connecting to firehose: ${url.toString()}`);
       const ws = new this.WS!(url.toString());
+      // Frames arrive synchronously as bytes rather than as Blobs
+      ws.binaryType = "arraybuffer";
       this.ws = ws;
 
       ws.addEventListener("open", () => {
         this.logger.info("Firehose connected");
         this.reconnectDelay = 1000;
+        this.options.onOpen?.();
       });
 
       ws.addEventListener("message", (event: { data: unknown }) => {
-        try {
-          this.handleMessage(event.data);
-        } catch (err) {
-          this.logger.error("Error handling firehose message", err);
-        }
+        this.handling = this.handling
+          .then(() => this.handleMessage(event.data))
+          .catch((err) => {
+            this.logger.error("Error handling firehose message", err);
+          });
       });
 
       ws.addEventListener("close", () => {
@@ -161,69 +239,254 @@ export class FirehoseClient {
     });
   }
 
-  private handleMessage(data: unknown): void {
-    // The firehose sends CBOR-encoded frames.
-    // For simplicity in this initial implementation, we handle JSON-based messages.
-    // A production implementation would use @atproto/repo for CBOR/CAR decoding.
-    // For now, we skip binary frames -- the poller fallback handles data fetching.
-    if (typeof data !== "string") {
+  private async handleMessage(data: unknown): Promise<void> {
+    let bytes: Uint8Array;
+    if (data instanceof Uint8Array) {
+      bytes = data;
+    } else if (data instanceof ArrayBuffer) {
+      bytes = new Uint8Array(data);
+    } else {
+      this.logger.warn("Skipping non-binary firehose frame");
       return;
     }
 
+    const message = parseFrame(bytes);
+    switch (message.type) {
+      case "#commit":
+        if (message.tooBig) {
+          this.logger.warn(
+            `Commit ${message.seq} of ${message.repo} is too big to carry its records`
+          );
+        }
+        if (this.options.verifier && !(await this.verify(message))) break;
+        for (const event of commitEvents(message, this.options.collections)) {
+          this.options.onEvent(event);
+        }
+        break;
+      case "#identity":
+        this.options.onIdentity?.(message);
+        break;
+      case "#account":
+        this.options.onAccount?.(message);
+        break;
+      case "#sync":
+        this.logger.info(`Repo ${message.did} was reset to rev ${message.rev}`);
+        this.options.onSync?.(message);
+        break;
+      case "#info":
+        this.logger.warn(
+          `Firehose info ${message.name}${message.message ? `: ${message.message}` : ""}`
+        );
+        return;
+      case "error":
+        this.options.onError?.(
+          new Error(
+            `Firehose error ${message.error}${message.message ? `: ${message.message}` : ""}`
+          )
+        );
+        return;
+      case "unknown":
+        this.logger.debug(`Skipping firehose message ${message.name}`);
+        return;
+    }
+
+    this.options.onCursor(message.seq);
+  }
+
+  private async verify(
+    message: FirehoseMessage & { type: "#commit" }
+  ): Promise<boolean> {
     try {
-      const msg = JSON.parse(data) as Record<string, unknown>;
-      if (msg && typeof msg === "object") {
-        this.processMessage(msg);
-      }
-    } catch {
-      // Not valid JSON -- likely CBOR, skip
+      await this.options.verifier!.verify(message);
+      return true;
+    } catch (err) {
+      this.logger.warn(
+        `Rejected commit ${message.seq} of ${message.repo}: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+      return false;
     }
   }
+}
 
-  private processMessage(msg: Record<string, unknown>): void {
-    const seq = msg.seq as number | undefined;
-    if (seq !== undefined) {
-      this.options.onCursor(seq);
+/**
+ * Decode a binary `subscribeRepos` frame: a header `{ op, t }`, where `op`
+ * is 1 for a message of type `t` and -1 for an error, then the body.
+ */
+export function parseFrame(bytes: Uint8Array): FirehoseMessage {
+  const [header, body, ...rest] = decodeCborSequence(bytes);
+  if (!isObject(header) || !isObject(body) || rest.length > 0) {
+    throw new Error("Malformed firehose frame");
+  }
+
+  if (header.op === -1) {
+    return {
+      type: "error",
+      error: string(body, "error"),
+      message: optionalString(body, "message"),
+    };
+  }
+  if (header.op !== 1) {
+    throw new Error(`Unknown firehose frame op: ${String(header.op)}`);
+  }
+
+  const name = string(header, "t");
+  switch (name) {
+    case "#commit": {
+      const tooBig = body.tooBig === true;
+      const blocks = body.blocks;
+      if (!(blocks instanceof Uint8Array)) {
+        throw new Error("Malformed #commit: blocks is not bytes");
+      }
+      return {
+        type: "#commit",
+        seq: integer(body, "seq"),
+        repo: string(body, "repo"),
+        rev: string(body, "rev"),
+        time: string(body, "time"),
+        commit: cid(body, "commit"),
+        tooBig,
+        ops: array(body, "ops").map(repoOp),
+        // Oversized commits may carry an empty CAR
+        blocks: tooBig && blocks.length === 0 ? new Map() : readCar(blocks).blocks,
+      };
+    }
+    case "#identity":
+      return {
+        type: "#identity",
+        seq: integer(body, "seq"),
+        did: string(body, "did"),
+        time: string(body, "time"),
+        handle: optionalString(body, "handle"),
+      };
+    case "#account":
+      if (typeof body.active !== "boolean") {
+        throw new Error("Malformed #account: active is not a boolean");
+      }
+      return {
+        type: "#account",
+        seq: integer(body, "seq"),
+        did: string(body, "did"),
+        time: string(body, "time"),
+        active: body.active,
+        status: optionalString(body, "status"),
+      };
+    case "#sync": {
+      const blocks = body.blocks;
+      if (!(blocks instanceof Uint8Array)) {
+        throw new Error("Malformed #sync: blocks is not bytes");
+      }
+      return {
+        type: "#sync",
+        seq: integer(body, "seq"),
+        did: string(body, "did"),
+        rev: string(body, "rev"),
+        time: string(body, "time"),
+        blocks: readCar(blocks).blocks,
+      };
     }
+    case "#info":
+      return {
+        type: "#info",
+        name: string(body, "name"),
+        message: optionalString(body, "message"),
+      };
+    default:
+      return { type: "unknown", name };
+  }
+}
 
-    const ops = msg.ops as Array<Record<string, unknown>> | undefined;
-    if (!ops) return;
+/**
+ * The record changes of a `#commit`, limited to `collections` when given.
+ * Records are decoded from the commit's blocks into the JSON form
+ * `listRecords` returns; a record whose block is missing is left unset.
+ */
+export function commitEvents(
+  commit: FirehoseMessage & { type: "#commit" },
+  collections?: string[]
+): FirehoseEvent[] {
+  const events: FirehoseEvent[] = [];
+  for (const op of commit.ops) {
+    const slash = op.path.indexOf("/");
+    const collection = op.path.slice(0, slash);
+    if (collections?.length && !collections.includes(collection)) continue;
 
-    for (const op of ops) {
-      const path = op.path as string | undefined;
-      if (!path) continue;
+    const cid = op.cid?.toString();
+    const block = cid ? commit.blocks.get(cid) : undefined;
+    events.push({
+      type: op.action,
+      collection,
+      rkey: op.path.slice(slash + 1),
+      did: commit.repo,
+      cid,
+      record: block ? toJsonValue(decodeCbor(block)) : undefined,
+    });
+  }
+  return events;
+}
 
-      const parts = path.split("/");
-      const nsid = parts[0] ?? "";
+type CborMap = Record<string, unknown>;
 
-      // Filter by collection if specified
-      if (
-        this.options.collections?.length &&
-        !this.options.collections.includes(nsid)
-      ) {
-        continue;
-      }
+function isObject(value: unknown): value is CborMap {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    !(value instanceof Uint8Array) &&
+    !(value instanceof CID)
+  );
+}
 
-      const action = op.action as string | undefined;
-      let eventType: FirehoseEvent["type"];
-      if (action === "create") {
-        eventType = "create";
-      } else if (action === "update") {
-        eventType = "update";
-      } else {
-        eventType = "delete";
-      }
+function repoOp(value: unknown): RepoOp {
+  if (!isObject(value)) throw new Error("Malformed repo op");
+  const action = string(value, "action");
+  if (action !== "create" && action !== "update" && action !== "delete") {
+    throw new Error(`Unknown repo op action: ${action}`);
+  }
+  const path = string(value, "path");
+  if (!path.includes("/")) throw new Error(`Malformed repo op path: ${path}`);
+  return {
+    action,
+    path,
+    cid: value.cid === null || value.cid === undefined ? null : cid(value, "cid"),
+  };
+}
 
-      const event: FirehoseEvent = {
-        type: eventType,
-        collection: nsid,
-        rkey: parts[1] ?? "",
-        did: (msg.repo as string) ?? "",
-        cid: op.cid as string | undefined,
-        record: op.record as unknown,
-      };
+function string(body: CborMap, key: string): string {
+  const value = body[key];
+  if (typeof value !== "string") {
+    throw new Error(`Malformed firehose frame: ${key} is not a string`);
+  }
+  return value;
+}
 
-      this.options.onEvent(event);
-    }
+function optionalString(body: CborMap, key: string): string | undefined {
+  return body[key] === undefined || body[key] === null
+    ? undefined
+    : string(body, key);
+}
+
+function integer(body: CborMap, key: string): number {
+  const value = body[key];
+  if (!Number.isSafeInteger(value)) {
+    throw new Error(`Malformed firehose frame: ${key} is not an integer`);
+  }
+  return value as number;
+}
+
+function array(body: CborMap, key: string): unknown[] {
+  const value = body[key];
+  if (!Array.isArray(value)) {
+    throw new Error(`Malformed firehose frame: ${key} is not an array`);
+  }
+  return value;
+}
+
+function cid(body: CborMap, key: string): CID {
+  const value = body[key];
+  if (!(value instanceof CID)) {
+    throw new Error(`Malformed firehose frame: ${key} is not a CID link`);
   }
+  return value;
 }
@@ -8,9 +8,37 @@ import { JetstreamClient } from "./jetstream.js";
 import { Poller } from "./poller.js";
 import { PdsResolver } from "./pds-resolver.js";
 import { CursorStore } from "./cursor-store.js";
+import { CommitVerifier } from "./verify.js";
+import { RepoBackfill, type BackfillProgress } from "./backfill.js";
 
 export { FirehoseClient, Poller, PdsResolver, CursorStore, JetstreamClient };
 export type { FirehoseEvent, FirehoseEventHandler };
+export {
+  RepoBackfill,
+  type BackfillProgress,
+  type RepoBackfillOptions,
+} from "./backfill.js";
+export {
+  CommitVerifier,
+  CommitVerificationError,
+  type CommitVerifierOptions,
+} from "./verify.js";
+export {
+  commitEvents,
+  parseFrame,
+  type FirehoseMessage,
+  type RepoOp,
+} from "./firehose.js";
+export {
+  iterateListRecords,
+  listAllRecords,
+  type ListedRecord,
+  type ListRecordsOptions,
+  type ListResult,
+} from "./list-records.js";
+
+/** How long `watchRepo` waits for a repo's PDS firehose to connect */
+const SUBSCRIBE_TIMEOUT_MS = 10_000;
 
 const AVAAS_COLLECTIONS = [
   "dev.avaas.computed",
@@ -27,12 +55,30 @@ export interface WatcherOptions {
   dbPath: string;
   useFirehose?: boolean;
   pollIntervalMs?: number;
+  /** Upper bound on records listed per collection when polling */
+  maxRecordsPerCollection?: number;
   onEvent: FirehoseEventHandler;
   onError?: (error: Error) => void;
   /** Jetstream WebSocket URL. When set, Jetstream is used instead of firehose/poller. */
   jetstreamUrl?: string;
-  /** Extra collections to subscribe to via Jetstream (merged with AVAAS_COLLECTIONS). */
+  /** Extra collections to watch (merged with AVAAS_COLLECTIONS). */
   extraCollections?: string[];
+  /**
+   * Verify firehose commits against the repo's signing key and MST before
+   * delivering their events. Jetstream and polling are not verified.
+   */
+  verifyCommits?: boolean;
+  /**
+   * Replay the records the repo already holds before live events start,
+   * via com.atproto.sync.getRepo. Enabled by default.
+   */
+  backfill?: boolean;
+  onBackfillProgress?: (progress: BackfillProgress) => void;
+  /**
+   * Called when the backfill skips records an earlier run delivered, as
+   * the repo is at the revision that run backfilled (see RepoBackfill)
+   */
+  onBackfillResume?: () => void;
 }
 
 /**
@@ -46,20 +92,51 @@ export interface WatcherOptions {
  *
  * When a Jetstream URL is provided, it connects to Jetstream instead,
  * which provides JSON events over WebSocket.
+ *
+ * Before either, the repo's existing records are replayed through the same
+ * event handler by a RepoBackfill, unless `backfill` is false. The firehose
+ * connects first and holds its events and cursor until the backfill ends.
+ *
+ * Events are delivered for the watched repo, for repos added with
+ * `watchRepo` (in the collections they were added for), and for collections
+ * added with `watchOpenCollections` from every repo. Jetstream relays every
+ * repo; in firehose mode each added repo's PDS is subscribed to as well.
+ * When polling, each added repo is polled on its own PDS, so open
+ * collections are only followed in the repos added so far.
  */
 export class Watcher {
   private logger = createLogger("watcher");
   private firehose: FirehoseClient | null = null;
   private jetstream: JetstreamClient | null = null;
   private poller: Poller | null = null;
+  private backfill: RepoBackfill | null = null;
   private cursorStore: CursorStore;
   private resolver: PdsResolver;
   private options: WatcherOptions;
+  /** Shared with the active client so newly watched collections apply live */
+  private collections: string[];
+  /** Repos besides the watched one whose events are delivered, by collection */
+  private repos = new Map<string, string[]>();
+  /** Collections whose events are delivered from every repo */
+  private openCollections = new Set<string>();
+  /** Firehose clients of the PDSs hosting added repos, by endpoint */
+  private repoFirehoses = new Map<
+    string,
+    { firehose: FirehoseClient; connected: Promise<void> }
+  >();
+  /** Pollers of added repos, by DID */
+  private repoPollers = new Map<string, Poller>();
+  /** Firehose events and cursors held while the backfill runs */
+  private held: Array<() => void> | null = null;
 
   constructor(options: WatcherOptions) {
     this.options = options;
     this.cursorStore = new CursorStore(options.dbPath);
     this.resolver = new PdsResolver();
+    this.collections = [
+      ...AVAAS_COLLECTIONS,
+      ...(options.extraCollections ?? []),
+    ];
   }
 
   async start(): Promise<void> {
@@ -67,29 +144,39 @@ export class Watcher {
 
     // Jetstream mode
     if (this.options.jetstreamUrl) {
+      await this.runBackfill();
       this.startJetstream();
       return;
     }
 
     if (this.options.useFirehose !== false) {
-      try {
-        await this.startFirehose();
-        return;
-      } catch (err) {
-        this.logger.warn(
-          "Firehose unavailable, falling back to polling",
-          err
-        );
-      }
+      // Records written while the repo downloads reach the firehose, which
+      // holds them (and its cursor) until the backfill is done
+      this.held = [];
+      const failure = this.startFirehose().then(
+        () => null,
+        (err: unknown) => err
+      );
+      await this.runBackfill();
+      this.release();
+      const err = await failure;
+      if (err === null) return;
+      this.logger.warn("Firehose unavailable, falling back to polling", err);
+      this.firehose = null;
+    } else {
+      await this.runBackfill();
     }
 
     this.startPoller();
   }
 
   stop(): void {
+    this.backfill?.stop();
     this.firehose?.stop();
+    for (const { firehose } of this.repoFirehoses.values()) firehose.stop();
     this.jetstream?.stop();
     this.poller?.stop();
+    for (const poller of this.repoPollers.values()) poller.stop();
     this.cursorStore.close();
     this.logger.info("Watcher stopped");
   }
@@ -98,49 +185,200 @@ export class Watcher {
     return this.resolver;
   }
 
+  /**
+   * Start delivering events for additional collections, e.g. the sources
+   * of a newly published computed query.
+   */
+  watchCollections(collections: string[]): void {
+    const added = collections.filter((c) => !this.collections.includes(c));
+    if (added.length === 0) return;
+
+    this.collections.push(...added);
+    this.jetstream?.updateWantedCollections(this.collections);
+    this.logger.info(`Watching additional collections: ${added.join(", ")}`);
+  }
+
+  /**
+   * Start delivering another repo's events for a collection, e.g. before a
+   * query backfills that repo's records into the mirror. In firehose mode
+   * this resolves once the firehose of the repo's PDS has connected, or
+   * after SUBSCRIBE_TIMEOUT_MS, so events written while the records are
+   * listed are delivered.
+   */
+  async watchRepo(did: string, collection: string): Promise<void> {
+    this.watchCollections([collection]);
+    if (did === this.options.watchDid) return;
+
+    let collections = this.repos.get(did);
+    if (!collections) {
+      collections = [];
+      this.repos.set(did, collections);
+    }
+    if (!collections.includes(collection)) collections.push(collection);
+
+    if (this.firehose) {
+      await this.subscribeRepoPds(did);
+    } else if (this.poller) {
+      await this.pollRepo(did);
+    }
+  }
+
+  /** Start delivering events for collections from every repo */
+  watchOpenCollections(collections: string[]): void {
+    this.watchCollections(collections);
+    for (const collection of collections) this.openCollections.add(collection);
+  }
+
+  private accepts(event: FirehoseEvent): boolean {
+    return (
+      event.did === this.options.watchDid ||
+      this.openCollections.has(event.collection) ||
+      this.repos.get(event.did)?.includes(event.collection) === true
+    );
+  }
+
+  private async runBackfill(): Promise<void> {
+    if (this.options.backfill === false) return;
+
+    // Without a stored cursor, Jetstream resumes from here, so records
+    // written while the repo downloads are not missed
+    if (
+      this.options.jetstreamUrl &&
+      this.cursorStore.getCursor("jetstream") === undefined
+    ) {
+      this.cursorStore.setCursor("jetstream", Date.now() * 1000);
+    }
+
+    this.backfill = new RepoBackfill({
+      pdsEndpoint: this.options.pdsEndpoint,
+      did: this.options.watchDid,
+      collections: () => this.collections,
+      onEvent: this.options.onEvent,
+      onProgress: this.options.onBackfillProgress,
+      cursorStore: this.cursorStore,
+      onResume: this.options.onBackfillResume,
+    });
+    try {
+      await this.backfill.run();
+    } catch (err) {
+      this.logger.warn("Backfill failed, continuing with live events", err);
+      this.options.onError?.(
+        err instanceof Error ? err : new Error(String(err))
+      );
+    } finally {
+      this.backfill = null;
+    }
+  }
+
   private startJetstream(): void {
-    const allCollections = [
-      ...AVAAS_COLLECTIONS,
-      ...(this.options.extraCollections ?? []),
-    ];
     this.logger.info(
-      `Starting Jetstream client (url: ${this.options.jetstreamUrl}, collections: ${allCollections.length})`
+      `Starting Jetstream client (url: ${this.options.jetstreamUrl}, collections: ${this.collections.length})`
     );
 
     this.jetstream = new JetstreamClient({
       jetstreamUrl: this.options.jetstreamUrl!,
-      wantedCollections: allCollections,
+      wantedCollections: [...this.collections],
       onEvent: (event) => {
-        if (event.did === this.options.watchDid) {
-          this.options.onEvent(event);
-        }
+        if (this.accepts(event)) this.options.onEvent(event);
       },
       onError: this.options.onError,
+      cursorStore: this.cursorStore,
     });
 
     this.jetstream.start();
   }
 
   private async startFirehose(): Promise<void> {
-    const cursor = this.cursorStore.getCursor("firehose");
-    this.logger.info(`Starting firehose (cursor: ${cursor ?? "none"})`);
+    this.firehose = this.createFirehose(this.options.pdsEndpoint, "firehose");
+    // Repos added before the firehose started
+    for (const did of this.repos.keys()) void this.subscribeRepoPds(did);
+    await this.firehose.start();
+  }
 
-    this.firehose = new FirehoseClient({
-      pdsEndpoint: this.options.pdsEndpoint,
+  /**
+   * Subscribe to the firehose of the PDS hosting an added repo, resolving
+   * once it has connected, failed, or SUBSCRIBE_TIMEOUT_MS passed
+   */
+  private async subscribeRepoPds(did: string): Promise<void> {
+    try {
+      const endpoint = await this.resolver.resolveDid(did);
+      if (endpoint === this.options.pdsEndpoint) return;
+
+      let subscription = this.repoFirehoses.get(endpoint);
+      if (!subscription) {
+        let opened!: () => void;
+        const connected = new Promise<void>((resolve) => {
+          opened = resolve;
+        });
+        const firehose = this.createFirehose(
+          endpoint,
+          `firehose:${endpoint}`,
+          opened
+        );
+        subscription = { firehose, connected };
+        this.repoFirehoses.set(endpoint, subscription);
+        firehose.start().catch((err) => {
+          this.logger.warn(`Firehose of ${endpoint} failed`, err);
+          opened();
+        });
+      }
+      await within(subscription.connected, SUBSCRIBE_TIMEOUT_MS);
+    } catch (err) {
+      this.logger.warn(`Cannot subscribe to the PDS of ${did}`, err);
+    }
+  }
+
+  private createFirehose(
+    pdsEndpoint: string,
+    cursorKey: string,
+    onOpen?: () => void
+  ): FirehoseClient {
+    const cursor = this.cursorStore.getCursor(cursorKey);
+    this.logger.info(
+      `Starting firehose for ${pdsEndpoint} (cursor: ${cursor ?? "none"})`
+    );
+
+    return new FirehoseClient({
+      pdsEndpoint,
       cursor,
-      collections: AVAAS_COLLECTIONS,
-      onEvent: (event) => {
-        if (event.did === this.options.watchDid) {
-          this.options.onEvent(event);
-        }
-      },
-      onCursor: (seq) => {
-        this.cursorStore.setCursor("firehose", seq);
-      },
+      collections: this.collections,
+      onEvent: (event) =>
+        this.deliver(() => {
+          if (this.accepts(event)) this.options.onEvent(event);
+        }),
+      onCursor: (seq) =>
+        this.deliver(() => this.cursorStore.setCursor(cursorKey, seq)),
       onError: this.options.onError,
+      onOpen,
+      // A changed identity may carry a rotated signing key
+      onIdentity: (message) => this.resolver.invalidate(message.did),
+      verifier: this.options.verifyCommits
+        ? new CommitVerifier({
+            resolveSigningKey: (did) => this.resolver.resolveSigningKey(did),
+          })
+        : undefined,
     });
+  }
 
-    await this.firehose.start();
+  /** Run a firehose callback now, or after the backfill while it runs */
+  private deliver(callback: () => void): void {
+    if (this.held) {
+      this.held.push(callback);
+    } else {
+      callback();
+    }
+  }
+
+  private release(): void {
+    const held = this.held ?? [];
+    this.held = null;
+    for (const callback of held) {
+      try {
+        callback();
+      } catch (err) {
+        this.logger.error("Error delivering a held firehose event", err);
+      }
+    }
   }
 
   private startPoller(): void {
@@ -148,15 +386,55 @@ export class Watcher {
       `Starting poller (interval: ${this.options.pollIntervalMs ?? 30000}ms)`
     );
 
-    this.poller = new Poller({
-      pdsEndpoint: this.options.pdsEndpoint,
-      did: this.options.watchDid,
-      collections: AVAAS_COLLECTIONS,
+    this.poller = this.createPoller(
+      this.options.pdsEndpoint,
+      this.options.watchDid,
+      this.collections
+    );
+    this.poller.start();
+    // Repos added while the firehose was tried
+    for (const did of this.repos.keys()) void this.pollRepo(did);
+  }
+
+  /** Poll an added repo on its PDS, in the collections it was added for */
+  private async pollRepo(did: string): Promise<void> {
+    if (this.repoPollers.has(did)) return;
+    try {
+      const endpoint = await this.resolver.resolveDid(did);
+      if (this.repoPollers.has(did)) return;
+      const poller = this.createPoller(endpoint, did, this.repos.get(did)!);
+      this.repoPollers.set(did, poller);
+      poller.start();
+    } catch (err) {
+      this.logger.warn(`Cannot poll the PDS of ${did}`, err);
+    }
+  }
+
+  private createPoller(
+    pdsEndpoint: string,
+    did: string,
+    collections: string[]
+  ): Poller {
+    return new Poller({
+      pdsEndpoint,
+      did,
+      collections,
       intervalMs: this.options.pollIntervalMs ?? 30000,
+      maxRecords: this.options.maxRecordsPerCollection,
       onEvent: this.options.onEvent,
       onError: this.options.onError,
     });
-
-    this.poller.start();
   }
 }
+
+/** Wait for `promise`, but no longer than `ms` */
+async function within(promise: Promise<void>, ms: number): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  await Promise.race([
+    promise,
+    new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, ms);
+    }),
+  ]);
+  clearTimeout(timer);
+}
@@ -1,11 +1,32 @@
 import { createLogger } from "@avaast/shared";
+import { CursorStore } from "./cursor-store.js";
 import type { FirehoseEvent, FirehoseEventHandler } from "./firehose.js";
 
+/** The CursorStore key of the Jetstream cursor and delivered events */
+const CURSOR_KEY = "jetstream";
+
+/** How often the cursor and delivered events are written, at most */
+const FLUSH_INTERVAL_MS = 1000;
+/** Delivered events that trigger a write before the interval ends */
+const FLUSH_EVENTS = 500;
+
 export interface JetstreamOptions {
   jetstreamUrl: string;
   wantedCollections?: string[];
   onEvent: FirehoseEventHandler;
   onError?: (error: Error) => void;
+  /**
+   * Where the cursor and recently delivered events are kept, so a restart
+   * resumes where the last run stopped. Defaults to an in-memory store,
+   * which only survives reconnects.
+   */
+  cursorStore?: CursorStore;
+  /**
+   * How far before the cursor to resume, in microseconds, so events
+   * Jetstream timestamped slightly out of order are not missed. Replayed
+   * events are recognized and skipped. Defaults to 5 seconds.
+   */
+  rewindUs?: number;
 }
 
 interface JetstreamMessage {
@@ -33,6 +54,7 @@ interface MinimalWebSocket {
   ): void;
   addEventListener(type: "close", listener: () => void): void;
   addEventListener(type: "error", listener: (event: unknown) => void): void;
+  send(data: string): void;
   close(): void;
 }
 
@@ -58,17 +80,39 @@ async function getWebSocketConstructor(): Promise<WebSocketConstructor> {
  * JetstreamClient connects to a Jetstream relay and converts JSON events
  * into FirehoseEvent objects so the Watcher can use it interchangeably
  * with the existing FirehoseClient.
+ *
+ * The cursor is the latest `time_us` handled. Connections resume from it,
+ * less the rewind window, and commits at or before it are deduped by
+ * (did, collection, rkey, operation, rev) against the events delivered
+ * within that window. An event is recorded as delivered only after
+ * `onEvent` returns. The cursor and delivered events are written together
+ * in batches, so after a crash the events of the last unwritten batch are
+ * delivered again.
  */
 export class JetstreamClient {
   private ws: MinimalWebSocket | null = null;
+  private connected = false;
   private running = false;
   private logger = createLogger("jetstream");
   private options: JetstreamOptions;
   private reconnectDelay = 1000;
   private WS: WebSocketConstructor | null = null;
+  private cursorStore: CursorStore;
+  private ownsCursorStore: boolean;
+  private cursor: number | undefined;
+  private rewindUs: number;
+  /** Delivered events not yet written, by key, with their time_us */
+  private pending = new Map<string, number>();
+  /** Whether the cursor moved since it was last written */
+  private cursorDirty = false;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor(options: JetstreamOptions) {
     this.options = options;
+    this.cursorStore = options.cursorStore ?? new CursorStore(":memory:");
+    this.ownsCursorStore = options.cursorStore === undefined;
+    this.cursor = this.cursorStore.getCursor(CURSOR_KEY);
+    this.rewindUs = options.rewindUs ?? 5_000_000;
   }
 
   async start(): Promise<void> {
@@ -83,6 +127,28 @@ export class JetstreamClient {
       this.ws.close();
       this.ws = null;
     }
+    this.flush();
+    if (this.ownsCursorStore) this.cursorStore.close();
+  }
+
+  /**
+   * Replace the collection filter. An open connection is updated in place
+   * with an options_update message; otherwise it applies on next connect.
+   */
+  updateWantedCollections(collections: string[]): void {
+    this.options.wantedCollections = [...collections];
+    if (!this.ws || !this.connected) return;
+
+    try {
+      this.ws.send(
+        JSON.stringify({
+          type: "options_update",
+          payload: { wantedCollections: this.options.wantedCollections },
+        }),
+      );
+    } catch (err) {
+      this.logger.warn("Failed to send Jetstream options update", err);
+    }
   }
 
   private connect(): void {
@@ -94,6 +160,12 @@ export class JetstreamClient {
         url.searchParams.append("wantedCollections", col);
       }
     }
+    if (this.cursor !== undefined) {
+      url.searchParams.set(
+        "cursor",
+        String(Math.max(0, this.cursor - this.rewindUs)),
+      );
+    }
 
     this.logger.info(`Connecting to Jetstream: ${url.toString()}`);
     const ws = new this.WS!(url.toString());
@@ -101,6 +173,7 @@ export class JetstreamClient {
 
     ws.addEventListener("open", () => {
       this.logger.info("Jetstream connected");
+      this.connected = true;
       this.reconnectDelay = 1000;
     });
 
@@ -119,6 +192,7 @@ export class JetstreamClient {
 
     ws.addEventListener("close", () => {
       this.logger.info("Jetstream disconnected");
+      this.connected = false;
       if (this.running) {
         this.logger.info(`Reconnecting in ${this.reconnectDelay}ms...`);
         setTimeout(() => this.connect(), this.reconnectDelay);
@@ -135,18 +209,87 @@ export class JetstreamClient {
   }
 
   private handleMessage(msg: JetstreamMessage): void {
-    if (msg.kind !== "commit" || !msg.commit) return;
-
-    const commit = msg.commit;
-    const event: FirehoseEvent = {
-      type: commit.operation,
-      collection: commit.collection,
-      rkey: commit.rkey,
-      did: msg.did,
-      cid: commit.cid,
-      record: commit.record,
-    };
-
-    this.options.onEvent(event);
+    const commit = msg.kind === "commit" ? msg.commit : undefined;
+    if (commit) {
+      // The rev tells apart repeated operations on a record, e.g. a
+      // delete after it was recreated with the same content
+      const key = [
+        msg.did,
+        commit.collection,
+        commit.rkey,
+        commit.operation,
+        commit.rev ?? msg.time_us,
+      ].join(" ");
+      if (this.isReplayed(key, msg.time_us)) {
+        this.logger.debug(
+          `Skipping replayed ${commit.operation} of ${commit.collection}/${commit.rkey}`,
+        );
+      } else {
+        const event: FirehoseEvent = {
+          type: commit.operation,
+          collection: commit.collection,
+          rkey: commit.rkey,
+          did: msg.did,
+          cid: commit.cid,
+          record: commit.record,
+        };
+        this.options.onEvent(event);
+        this.pending.set(key, msg.time_us);
+      }
+    }
+
+    this.advanceCursor(msg.time_us);
+    if (this.pending.size >= FLUSH_EVENTS) {
+      this.flush();
+    } else if (this.cursorDirty) {
+      this.scheduleFlush();
+    }
+  }
+
+  /** Only events up to the cursor can have been delivered already */
+  private isReplayed(key: string, timeUs: number): boolean {
+    if (this.cursor === undefined || timeUs > this.cursor) return false;
+    return (
+      this.pending.has(key) || this.cursorStore.isDelivered(CURSOR_KEY, key)
+    );
+  }
+
+  private advanceCursor(timeUs: number): void {
+    if (!Number.isSafeInteger(timeUs)) return;
+    if (this.cursor !== undefined && timeUs <= this.cursor) return;
+    this.cursor = timeUs;
+    this.cursorDirty = true;
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => this.flush(), FLUSH_INTERVAL_MS);
+  }
+
+  /** Write the cursor and delivered events, and forget expired ones */
+  private flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (!this.cursorDirty && this.pending.size === 0) return;
+
+    const cursor = this.cursor;
+    const pending = this.pending;
+    this.pending = new Map();
+    this.cursorDirty = false;
+    try {
+      this.cursorStore.transaction(() => {
+        for (const [key, position] of pending) {
+          this.cursorStore.markDelivered(CURSOR_KEY, key, position);
+        }
+        if (cursor !== undefined) {
+          this.cursorStore.setCursor(CURSOR_KEY, cursor);
+          this.cursorStore.pruneDelivered(CURSOR_KEY, cursor - this.rewindUs);
+        }
+      });
+    } catch (err) {
+      this.logger.error("Failed to write the Jetstream cursor", err);
+    }
   }
 }
@@ -0,0 +1,95 @@
+export interface ListedRecord {
+  uri: string;
+  cid: string;
+  value: unknown;
+}
+
+export interface ListRecordsOptions {
+  /** Records requested per page (the lexicon caps this at 100) */
+  pageSize?: number;
+  /** Upper bound on records yielded across all pages */
+  maxRecords?: number;
+  /** Issues the HTTP request; defaults to the global fetch */
+  request?: (url: string) => Promise<Response>;
+}
+
+/** How a listing ended */
+export interface ListResult {
+  /** Whether `maxRecords` was reached while the PDS had more pages */
+  truncated: boolean;
+}
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const DEFAULT_MAX_RECORDS = 10_000;
+
+/**
+ * Stream every record of a collection by following the `cursor` returned
+ * from com.atproto.repo.listRecords until the PDS stops returning one or
+ * `maxRecords` is reached. The generator returns whether the listing was
+ * cut off by `maxRecords`.
+ */
+export async function* iterateListRecords(
+  pdsEndpoint: string,
+  did: string,
+  collection: string,
+  options: ListRecordsOptions = {},
+): AsyncGenerator<ListedRecord, ListResult> {
+  const pageSize = Math.min(options.pageSize ?? DEFAULT_PAGE_SIZE, 100);
+  const maxRecords = options.maxRecords ?? DEFAULT_MAX_RECORDS;
+  const request = options.request ?? ((url: string) => fetch(url));
+
+  let cursor: string | undefined;
+  let yielded = 0;
+
+  for (;;) {
+    const limit = Math.min(pageSize, maxRecords - yielded);
+    let url = `${pdsEndpoint}/xrpc/com.atproto.repo.listRecords?repo=${encodeURIComponent(did)}&collection=${encodeURIComponent(collection)}&limit=${limit}`;
+    if (cursor) {
+      url += `&cursor=${encodeURIComponent(cursor)}`;
+    }
+
+    const response = await request(url);
+    if (!response.ok) {
+      throw new Error(
+        `Failed to list records ${collection} from ${did}: ${response.status}`,
+      );
+    }
+
+    const data = (await response.json()) as {
+      records: ListedRecord[];
+      cursor?: string;
+    };
+
+    for (const record of data.records) {
+      yield record;
+      yielded++;
+    }
+
+    // A page without a cursor (or an empty page) is the last one
+    if (!data.cursor || data.records.length === 0) return { truncated: false };
+    if (yielded >= maxRecords) return { truncated: true };
+    cursor = data.cursor;
+  }
+}
+
+/**
+ * Collect every record of a collection into an array, bounded by
+ * `maxRecords`.
+ */
+export async function listAllRecords(
+  pdsEndpoint: string,
+  did: string,
+  collection: string,
+  options: ListRecordsOptions = {},
+): Promise<ListedRecord[]> {
+  const records: ListedRecord[] = [];
+  for await (const record of iterateListRecords(
+    pdsEndpoint,
+    did,
+    collection,
+    options,
+  )) {
+    records.push(record);
+  }
+  return records;
+}
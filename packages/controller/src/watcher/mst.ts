@@ -0,0 +1,101 @@
+import { blockMatches } from "./car.js";
+import { CID, decodeCbor } from "./cbor.js";
+
+/**
+ * Lookups in a repo's Merkle Search Tree, the structure a signed commit's
+ * `data` root points to. Each node holds a left subtree `l` and entries
+ * `e`, each a key (prefix-compressed against the previous entry's), the
+ * record CID `v` and the subtree `t` of keys between it and the next entry.
+ */
+
+interface MstEntry {
+  p: number;
+  k: Uint8Array;
+  v: CID;
+  t: CID | null;
+}
+
+interface MstNode {
+  l: CID | null;
+  e: MstEntry[];
+}
+
+/**
+ * The record CID stored under `key` (`collection/rkey`), or null when the
+ * tree has no such key. Throws when a node on the key's path is missing
+ * from `blocks` or does not match its CID, as then neither inclusion nor
+ * absence is proven.
+ */
+export function findMstValue(
+  root: CID,
+  key: string,
+  blocks: Map<string, Uint8Array>
+): CID | null {
+  const target = Buffer.from(key, "utf8");
+  let pointer: CID | null = root;
+
+  while (pointer) {
+    const node = readNode(pointer, blocks);
+    // The subtree left of the first entry greater than the key
+    let next = node.l;
+    let previous: Uint8Array = Buffer.alloc(0);
+    for (const entry of node.e) {
+      const entryKey = Buffer.concat([previous.subarray(0, entry.p), entry.k]);
+      const order = Buffer.compare(target, entryKey);
+      if (order === 0) return entry.v;
+      if (order < 0) break;
+      next = entry.t;
+      previous = entryKey;
+    }
+    pointer = next;
+  }
+  return null;
+}
+
+/**
+ * Every key in the tree with its record CID, in key order. Throws when a
+ * node is missing from `blocks` or does not match its CID.
+ */
+export function* walkMst(
+  root: CID,
+  blocks: Map<string, Uint8Array>
+): Generator<[key: string, value: CID]> {
+  const node = readNode(root, blocks);
+  if (node.l) yield* walkMst(node.l, blocks);
+  let previous: Uint8Array = Buffer.alloc(0);
+  for (const entry of node.e) {
+    const key = Buffer.concat([previous.subarray(0, entry.p), entry.k]);
+    yield [key.toString("utf8"), entry.v];
+    if (entry.t) yield* walkMst(entry.t, blocks);
+    previous = key;
+  }
+}
+
+function readNode(cid: CID, blocks: Map<string, Uint8Array>): MstNode {
+  const bytes = blocks.get(cid.toString());
+  if (!bytes) {
+    throw new Error(`MST node ${cid.toString()} is missing from the proof`);
+  }
+  if (!blockMatches(cid, bytes)) {
+    throw new Error(`MST node ${cid.toString()} does not match its CID`);
+  }
+  const node = decodeCbor(bytes) as Partial<MstNode> | null;
+  if (!node || !Array.isArray(node.e) || !isLink(node.l)) {
+    throw new Error(`Malformed MST node ${cid.toString()}`);
+  }
+  for (const entry of node.e) {
+    if (
+      typeof entry?.p !== "number" ||
+      !(entry.k instanceof Uint8Array) ||
+      !(entry.v instanceof CID) ||
+      !isLink(entry.t)
+    ) {
+      throw new Error(`Malformed MST entry in ${cid.toString()}`);
+    }
+  }
+  return node as MstNode;
+}
+
+function isLink(value: unknown): value is CID | null {
+  return value === null || value instanceof CID;
+}
@@ -1,44 +1,77 @@
 import { createLogger, retry } from "@avaast/shared";
+import {
+  iterateListRecords,
+  type ListedRecord,
+  type ListRecordsOptions,
+  type ListResult,
+} from "./list-records.js";
 
 interface DidDocument {
   id: string;
   service?: Array<{ id: string; type: string; serviceEndpoint: string }>;
+  verificationMethod?: Array<{
+    id: string;
+    type: string;
+    publicKeyMultibase?: string;
+  }>;
 }
 
 /**
  * PdsResolver handles DID resolution and PDS record/blob fetching.
  * It resolves did:plc and did:web DIDs to their PDS endpoints, then
- * provides methods to fetch individual records, list records, and
- * retrieve blobs from those endpoints.
+ * provides methods to fetch individual records, list records (following
+ * pagination cursors), and retrieve blobs from those endpoints.
  *
- * DID-to-PDS mappings are cached with a configurable TTL to reduce
- * redundant resolution requests.
+ * DID documents are cached with a configurable TTL to reduce redundant
+ * resolution requests; the same documents give repos' signing keys.
  */
 export class PdsResolver {
   private logger = createLogger("pds-resolver");
   private didCache = new Map<
     string,
-    { pdsEndpoint: string; expiresAt: number }
+    { doc: DidDocument; expiresAt: number }
   >();
   private cacheTtlMs = 5 * 60 * 1000; // 5 minutes
 
   async resolveDid(did: string): Promise<string> {
-    const cached = this.didCache.get(did);
-    if (cached && cached.expiresAt > Date.now()) {
-      return cached.pdsEndpoint;
+    const doc = await this.resolveDocument(did);
+    const pdsService = doc.service?.find(
+      (s) => s.id === "#atproto_pds" || s.type === "AtprotoPersonalDataServer"
+    );
+    if (!pdsService) {
+      throw new Error(`No PDS service found in DID document for ${did}`);
     }
 
-    const pdsEndpoint = await this.doResolveDid(did);
-    this.didCache.set(did, {
-      pdsEndpoint,
-      expiresAt: Date.now() + this.cacheTtlMs,
-    });
-    return pdsEndpoint;
+    return pdsService.serviceEndpoint;
   }
 
-  private async doResolveDid(did: string): Promise<string> {
-    let doc: DidDocument;
+  /**
+   * The repo's signing key: the `publicKeyMultibase` of the `#atproto`
+   * verification method in its DID document.
+   */
+  async resolveSigningKey(did: string): Promise<string> {
+    const doc = await this.resolveDocument(did);
+    const method = doc.verificationMethod?.find(
+      (m) => m.id === "#atproto" || m.id === `${did}#atproto`
+    );
+    if (!method?.publicKeyMultibase || method.type !== "Multikey") {
+      throw new Error(`No atproto signing key found in DID document for ${did}`);
+    }
+    return method.publicKeyMultibase;
+  }
+
+  /** Drop a cached DID document, e.g. after an `#identity` event */
+  invalidate(did: string): void {
+    this.didCache.delete(did);
+  }
+
+  private async resolveDocument(did: string): Promise<DidDocument> {
+    const cached = this.didCache.get(did);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.doc;
+    }
 
+    let doc: DidDocument;
     if (did.startsWith("did:plc:")) {
       doc = await this.resolvePlc(did);
     } else if (did.startsWith("did:web:")) {
@@ -47,14 +80,11 @@ export class PdsResolver {
       throw new Error(`Unsupported DID method: ${did}`);
     }
 
-    const pdsService = doc.service?.find(
-      (s) => s.id === "#atproto_pds" || s.type === "AtprotoPersonalDataServer"
-    );
-    if (!pdsService) {
-      throw new Error(`No PDS service found in DID document for ${did}`);
-    }
-
-    return pdsService.serviceEndpoint;
+    this.didCache.set(did, {
+      doc,
+      expiresAt: Date.now() + this.cacheTtlMs,
+    });
+    return doc;
   }
 
   private async resolvePlc(did: string): Promise<DidDocument> {
@@ -123,27 +153,37 @@ export class PdsResolver {
     return new Uint8Array(buffer);
   }
 
-  async listRecords(
+  /**
+   * Stream all records of a collection, following listRecords cursors.
+   */
+  async *iterateRecords(
     did: string,
     collection: string,
-    limit = 100
-  ): Promise<Array<{ uri: string; cid: string; value: unknown }>> {
+    options: Omit<ListRecordsOptions, "request"> = {}
+  ): AsyncGenerator<ListedRecord, ListResult> {
     const pds = await this.resolveDid(did);
-    const url = `${pds}/xrpc/com.atproto.repo.listRecords?repo=${encodeURIComponent(did)}&collection=${encodeURIComponent(collection)}&limit=${limit}`;
-
-    const response = await retry(() => fetch(url), {
-      maxAttempts: 3,
-      baseDelayMs: 500,
-      maxDelayMs: 5000,
+    return yield* iterateListRecords(pds, did, collection, {
+      ...options,
+      request: (url) =>
+        retry(() => fetch(url), {
+          maxAttempts: 3,
+          baseDelayMs: 500,
+          maxDelayMs: 5000,
+        }),
     });
-    if (!response.ok) {
-      throw new Error(
-        `Failed to list records ${collection} from ${did}: ${response.status}`
-      );
+  }
+
+  async listRecords(
+    did: string,
+    collection: string,
+    maxRecords?: number
+  ): Promise<ListedRecord[]> {
+    const records: ListedRecord[] = [];
+    for await (const record of this.iterateRecords(did, collection, {
+      maxRecords,
+    })) {
+      records.push(record);
     }
-    const data = (await response.json()) as {
-      records: Array<{ uri: string; cid: string; value: unknown }>;
-    };
-    return data.records;
+    return records;
   }
 }
@@ -1,11 +1,14 @@
 import { createLogger } from "@avaast/shared";
 import type { FirehoseEvent, FirehoseEventHandler } from "./firehose.js";
+import { DEFAULT_MAX_RECORDS, iterateListRecords } from "./list-records.js";
 
 export interface PollerOptions {
   pdsEndpoint: string;
   did: string;
   collections: string[];
   intervalMs: number;
+  /** Upper bound on records listed per collection each poll */
+  maxRecords?: number;
   onEvent: FirehoseEventHandler;
   onError?: (error: Error) => void;
 }
@@ -55,21 +58,18 @@ export class Poller {
   }
 
   private async pollCollection(collection: string): Promise<void> {
-    const url = `${this.options.pdsEndpoint}/xrpc/com.atproto.repo.listRecords?repo=${encodeURIComponent(this.options.did)}&collection=${encodeURIComponent(collection)}&limit=100`;
-
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(
-        `Failed to list records: ${response.status} ${response.statusText}`
-      );
-    }
-
-    const data = (await response.json()) as {
-      records: Array<{ uri: string; cid: string; value: unknown }>;
-    };
+    const maxRecords = this.options.maxRecords ?? DEFAULT_MAX_RECORDS;
     const currentKeys = new Set<string>();
 
-    for (const record of data.records) {
+    const records = iterateListRecords(
+      this.options.pdsEndpoint,
+      this.options.did,
+      collection,
+      { maxRecords },
+    );
+    let next = await records.next();
+    for (; !next.done; next = await records.next()) {
+      const record = next.value;
       const parts = record.uri.split("/");
       const rkey = parts[parts.length - 1] ?? "";
       const key = `${collection}/${rkey}`;
@@ -101,6 +101,14 @@ export class Poller {
       }
     }
 
+    // A truncated listing can't tell us which records are gone
+    if (next.value.truncated) {
+      this.logger.warn(
+        `${collection} has at least ${maxRecords} records; skipping delete detection`,
+      );
+      return;
+    }
+
     // Check for deleted records
     for (const [key] of this.knownCids) {
       if (!key.startsWith(collection + "/")) continue;
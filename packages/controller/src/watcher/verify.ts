@@ -0,0 +1,161 @@
+import { parseDidKey, verifySignature } from "@atproto/crypto";
+import * as dagCbor from "@ipld/dag-cbor";
+import { CID as IpldCid } from "multiformats/cid";
+import { createLogger } from "@avaast/shared";
+import { blockMatches } from "./car.js";
+import { CID } from "./cbor.js";
+import type { FirehoseMessage } from "./firehose.js";
+import { findMstValue } from "./mst.js";
+
+/**
+ * Raised when a firehose commit fails verification: its signature does not
+ * match the repo's signing key, a block does not match its CID, or an op is
+ * not proven by the MST blocks the commit carries.
+ */
+export class CommitVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommitVerificationError";
+  }
+}
+
+export interface CommitVerifierOptions {
+  /**
+   * The repo's current signing key, as the `publicKeyMultibase` of its DID
+   * document's `#atproto` verification method (see PdsResolver)
+   */
+  resolveSigningKey: (did: string) => Promise<string>;
+}
+
+/**
+ * CommitVerifier checks that a `#commit` was signed by its repo and that
+ * its ops are what the signed tree holds. The commit block must hash to the
+ * message's `commit` CID and carry a signature, over the commit without
+ * `sig`, by the repo's signing key. Each create or update must then be
+ * found under its path in the MST with the op's CID, and each delete must
+ * be absent, walking only blocks that match their CIDs; a record block
+ * used for an event must match the op's CID too.
+ */
+export class CommitVerifier {
+  private logger = createLogger("commit-verifier");
+  private options: CommitVerifierOptions;
+  /** did:keys already parsed, so each is checked once */
+  private keys = new Set<string>();
+
+  constructor(options: CommitVerifierOptions) {
+    this.options = options;
+  }
+
+  async verify(message: FirehoseMessage & { type: "#commit" }): Promise<void> {
+    if (message.tooBig) {
+      throw new CommitVerificationError(
+        `Commit ${message.seq} is too big to carry the blocks that prove it`
+      );
+    }
+
+    const commit = this.readCommit(message);
+    const didKey = this.didKey(
+      await this.options.resolveSigningKey(message.repo)
+    );
+    // Signatures are over the canonical DAG-CBOR of the commit without
+    // `sig`, and must use the low S value
+    const { sig, ...unsigned } = commit;
+    const valid = await verifySignature(
+      didKey,
+      dagCbor.encode(unsigned),
+      sig
+    ).catch(() => false);
+    if (!valid) {
+      throw new CommitVerificationError(
+        `Commit ${message.seq} of ${message.repo} has an invalid signature`
+      );
+    }
+
+    const root = new CID(commit.data.bytes);
+    for (const op of message.ops) {
+      let found: CID | null;
+      try {
+        found = findMstValue(root, op.path, message.blocks);
+      } catch (err) {
+        throw new CommitVerificationError(
+          `Cannot prove ${op.action} of ${op.path}: ${(err as Error).message}`
+        );
+      }
+      const proven =
+        op.cid === null ? found === null : found !== null && found.equals(op.cid);
+      if (!proven) {
+        throw new CommitVerificationError(
+          `The ${op.action} of ${op.path} does not match the signed tree`
+        );
+      }
+
+      const record = op.cid && message.blocks.get(op.cid.toString());
+      if (record && !blockMatches(op.cid!, record)) {
+        throw new CommitVerificationError(
+          `The record block of ${op.path} does not match its CID`
+        );
+      }
+    }
+
+    this.logger.debug(`Verified commit ${message.seq} of ${message.repo}`);
+  }
+
+  /** The commit block, checked against the message it arrived in */
+  private readCommit(message: FirehoseMessage & { type: "#commit" }): {
+    did: string;
+    version: number;
+    data: IpldCid;
+    rev: string;
+    prev: IpldCid | null;
+    sig: Uint8Array;
+  } {
+    const bytes = message.blocks.get(message.commit.toString());
+    if (!bytes || !blockMatches(message.commit, bytes)) {
+      throw new CommitVerificationError(
+        `Commit ${message.seq} does not carry a block matching its commit CID`
+      );
+    }
+
+    let commit: Record<string, unknown> | null;
+    try {
+      commit = dagCbor.decode<Record<string, unknown> | null>(bytes);
+    } catch (err) {
+      throw new CommitVerificationError(
+        `Commit ${message.seq} is not valid DAG-CBOR: ${(err as Error).message}`
+      );
+    }
+    if (
+      commit?.version !== 3 ||
+      !IpldCid.asCID(commit.data) ||
+      !(commit.sig instanceof Uint8Array)
+    ) {
+      throw new CommitVerificationError(
+        `Commit ${message.seq} is not a signed version 3 commit`
+      );
+    }
+    if (commit.did !== message.repo || commit.rev !== message.rev) {
+      throw new CommitVerificationError(
+        `Commit ${message.seq} does not belong to ${message.repo} at rev ${message.rev}`
+      );
+    }
+    return commit as ReturnType<CommitVerifier["readCommit"]>;
+  }
+
+  /** A `publicKeyMultibase` as the did:key holding it, if its key is supported */
+  private didKey(multibase: string): string {
+    const didKey = multibase.startsWith("did:key:")
+      ? multibase
+      : `did:key:${multibase}`;
+    if (!this.keys.has(didKey)) {
+      try {
+        parseDidKey(didKey);
+      } catch (err) {
+        throw new CommitVerificationError(
+          `Unsupported signing key ${multibase}: ${(err as Error).message}`
+        );
+      }
+      this.keys.add(didKey);
+    }
+    return didKey;
+  }
+}
@@ -1,5 +1,5 @@
 import { Hono } from 'hono';
-import type { DeployedEndpoint, TrafficRule } from '@avaast/shared';
+import type { DeployedEndpoint, ResourceRef, TrafficRule } from '@avaast/shared';
 import { createLogger } from '@avaast/shared';
 
 const logger = createLogger('admin');
@@ -8,6 +8,11 @@ export interface AdminDeps {
   onEndpointsUpdate: (endpoints: DeployedEndpoint[]) => void;
   onTrafficUpdate: (rules: TrafficRule[]) => void;
   getStatus: () => AdminStatus;
+  explainQuery: (
+    endpointName: string,
+    params: Record<string, string>,
+    deployRef?: ResourceRef
+  ) => Promise<Response>;
 }
 
 export interface AdminStatus {
@@ -80,6 +85,36 @@ export function createAdminRouter(deps: AdminDeps): Hono {
     }
   });
 
+  /**
+   * POST /query/explain - Explain a computed query endpoint.
+   * Body: { endpointName: string, params?: Record<string, string>, deployRef?: ResourceRef }
+   * Without a deployRef, the deploy is picked by the traffic shaper.
+   */
+  admin.post('/query/explain', async (c) => {
+    let body: {
+      endpointName?: string;
+      params?: Record<string, string>;
+      deployRef?: ResourceRef;
+    };
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json(
+        { error: 'InvalidRequest', message: 'Invalid JSON body' },
+        400
+      );
+    }
+
+    if (!body.endpointName) {
+      return c.json(
+        { error: 'InvalidRequest', message: 'Missing endpointName' },
+        400
+      );
+    }
+
+    return deps.explainQuery(body.endpointName, body.params ?? {}, body.deployRef);
+  });
+
   /**
    * GET /status - Gateway health and status information.
    */
@@ -3,6 +3,7 @@ import type {
   ResourceRef,
   QueryRequest,
   QueryResponse,
+  QueryExplainResponse,
   FunctionCallRequest,
   FunctionCallResponse,
   SearchRequest,
@@ -90,6 +91,15 @@ export class DynamicRouter {
         body: JSON.stringify(body),
       });
 
+      if (resp.status === 400) {
+        // Parameter validation errors are the caller's, pass them through
+        const error = (await resp.json()) as XrpcError;
+        return Response.json(
+          xrpcError(error.error, error.message),
+          { status: 400 }
+        );
+      }
+
       if (!resp.ok) {
         const errorBody = await resp.text();
         logger.error(`Query proxy error: ${resp.status} ${errorBody}`);
@@ -110,6 +120,42 @@ export class DynamicRouter {
     }
   }
 
+  /**
+   * Ask the controller to explain a computed query: the plan it ran and
+   * how long each step took.
+   */
+  async proxyExplain(
+    endpointName: string,
+    deployRef: ResourceRef,
+    params: Record<string, string>
+  ): Promise<Response> {
+    const body: QueryRequest = { endpointName, deployRef, params };
+    try {
+      const resp = await fetch(`${this.controllerUrl}/internal/query/explain`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      if (!resp.ok) {
+        const error = (await resp.json()) as XrpcError;
+        return Response.json(
+          xrpcError(error.error, error.message),
+          { status: resp.status }
+        );
+      }
+
+      const result = (await resp.json()) as QueryExplainResponse;
+      return Response.json(result);
+    } catch (err) {
+      logger.error('Explain proxy failed', err);
+      return Response.json(
+        xrpcError('InternalServerError', 'Failed to proxy explain to controller'),
+        { status: 502 }
+      );
+    }
+  }
+
   /**
    * Proxy a function call to the controller.
    */
@@ -76,6 +76,16 @@ export class Gateway {
         registeredEndpoints: this.router.getEndpointNames(),
         trafficRules: this.trafficShaper.getRules(),
       }),
+      explainQuery: async (endpointName, params, deployRef) => {
+        const ref = deployRef ?? this.trafficShaper.selectDeploy();
+        if (!ref) {
+          return Response.json(
+            { error: 'ServiceUnavailable', message: 'No active deploys available' },
+            { status: 503 }
+          );
+        }
+        return this.router.proxyExplain(endpointName, ref, params);
+      },
     });
 
     this.app.route('/admin', adminRouter);
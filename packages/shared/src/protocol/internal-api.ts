@@ -1,4 +1,8 @@
-import type { ResourceRef, DeployedEndpoint } from "../types/lexicon.js";
+import type {
+  ResourceRef,
+  DeployedEndpoint,
+  QuerySource,
+} from "../types/lexicon.js";
 import type { DeployState, DeployStatus } from "../types/deploy.js";
 import type {
   FunctionExecutionRequest,
@@ -18,6 +22,28 @@ export interface QueryResponse {
   results: unknown[];
   cached: boolean;
   durationMs: number;
+  /** Pass as the `cursor` param to fetch the next page; absent on the last page */
+  cursor?: string;
+}
+
+// POST /internal/query/explain (request body is a QueryRequest)
+export interface ExplainStep {
+  /** The pipeline step as planned */
+  step: { type: string } & Record<string, unknown>;
+  /** Rows flowing out of the step */
+  rows: number;
+  durationMs: number;
+}
+
+export interface QueryExplainResponse {
+  sources: QuerySource[];
+  steps: ExplainStep[];
+  /** SQL run against the record mirror, when the plan was pushed down */
+  sql?: string;
+  /** Whether a cached result existed; explain always executes the query */
+  cacheHit: boolean;
+  rowCount: number;
+  durationMs: number;
 }
 
 // POST /internal/function
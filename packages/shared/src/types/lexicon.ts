@@ -59,11 +59,20 @@ export interface FieldRef {
   field: string;
 }
 
+/**
+ * A constant. Exactly one value field is set. The AT Protocol data model
+ * has no floats, so `floatValue` is a decimal string; `nullValue` is always
+ * `true`; `datetimeValue` is ISO 8601.
+ */
 export interface Literal {
   type: "literal";
   stringValue?: string;
   integerValue?: number;
   booleanValue?: boolean;
+  floatValue?: string;
+  nullValue?: true;
+  arrayValue?: Literal[];
+  datetimeValue?: string;
 }
 
 export interface Comparison {
@@ -76,6 +85,8 @@ export interface Comparison {
     | "lt"
     | "lte"
     | "like"
+    | "ilike"
+    | "regex"
     | "in"
     | "isNull"
     | "isNotNull"
@@ -98,10 +109,19 @@ export interface ArithmeticOp {
   right: Expression;
 }
 
+/**
+ * A call to a builtin. On an aggregate, `filter` restricts the group rows
+ * it reads, `distinct` drops repeated values of its first argument, and
+ * `orderBy` orders the rows for order-sensitive aggregates (`first`,
+ * `last`, `array_agg`, `string_agg`).
+ */
 export interface BuiltinCall {
   type: "builtinCall";
   name: string;
   args: Expression[];
+  distinct?: boolean;
+  filter?: Expression;
+  orderBy?: OrderByClause[];
 }
 
 export interface FunctionCall {
@@ -121,6 +141,35 @@ export interface CaseExpression {
   elseValue?: Expression;
 }
 
+/**
+ * A window function computed over the rows sharing its partition, in the
+ * window's own order: row_number, rank, dense_rank, lag, lead, and running
+ * sum/count. Windows are evaluated before SELECT, after any GROUP BY.
+ */
+export interface WindowCall {
+  type: "windowCall";
+  name: string;
+  args: Expression[];
+  partitionBy?: Expression[];
+  orderBy?: OrderByClause[];
+}
+
+/**
+ * The values of a nested query's first select column, for use as the
+ * right-hand side of `in`/`notIn`. The nested query may refer to sources
+ * of the queries enclosing it.
+ */
+export interface Subquery {
+  type: "subquery";
+  query: Query;
+}
+
+/** True when a nested query returns at least one row */
+export interface Exists {
+  type: "exists";
+  query: Query;
+}
+
 export type Expression =
   | FieldRef
   | Literal
@@ -129,13 +178,61 @@ export type Expression =
   | ArithmeticOp
   | BuiltinCall
   | FunctionCall
-  | CaseExpression;
+  | CaseExpression
+  | WindowCall
+  | Subquery
+  | Exists;
 
 // Source and query types
+
+/**
+ * Repos named by a graph collection. Without `field`, the repos holding
+ * records of `collection` (e.g. everyone who created an aye); with it, the
+ * DIDs that field holds in the records of the `did` repo (e.g. the subjects
+ * of its follows), defaulting to the watched repo.
+ */
+export interface RepoGraph {
+  collection: string; // NSID
+  field?: string;
+  did?: string;
+}
+
+/**
+ * A collection read from one repo or several. At most one of `did`,
+ * `dids`, `allRepos` and `graph` is set; with none, the watched repo is read.
+ */
 export interface Source {
   alias: string;
   collection: string; // NSID
   did?: string;
+  dids?: string[];
+  /** Every repo known to hold records of the collection */
+  allRepos?: boolean;
+  graph?: RepoGraph;
+}
+
+/**
+ * A source whose rows are the output of a nested query (a derived table),
+ * of a common table expression declared in `with`, of another computed
+ * record, or of an array exploded by `unnest`. Exactly one of `query`,
+ * `cte`, `computed` and `unnest` is set; columns are the nested query's
+ * select aliases, or the computed record's output fields. An `unnest`
+ * source has one row per array element, with columns `value` and `index`;
+ * as a join source its array is evaluated against each row joined so far.
+ */
+export interface SubquerySource {
+  alias: string;
+  query?: Query;
+  cte?: string;
+  computed?: ResourceRef;
+  unnest?: Expression;
+}
+
+export type QuerySource = Source | SubquerySource;
+
+export interface CommonTableExpression {
+  name: string;
+  query: Query;
 }
 
 export interface SelectField {
@@ -144,8 +241,8 @@ export interface SelectField {
 }
 
 export interface JoinClause {
-  joinType: "inner" | "left" | "right" | "cross";
-  source: Source;
+  joinType: "inner" | "left" | "right" | "full" | "cross";
+  source: QuerySource;
   on: Expression;
 }
 
@@ -155,9 +252,21 @@ export interface OrderByClause {
   nulls?: "first" | "last";
 }
 
+/**
+ * Combines a query's rows with those of another query. `union`, `intersect`
+ * and `except` return distinct rows; `unionAll` keeps duplicates. Columns
+ * are matched by position and named after the first query's select aliases.
+ */
+export interface SetOperation {
+  op: "union" | "unionAll" | "intersect" | "except";
+  query: Query;
+}
+
 export interface Query {
+  /** Named queries usable as sources here and in nested queries */
+  with?: CommonTableExpression[];
   select: SelectField[];
-  from: Source;
+  from: QuerySource;
   joins?: JoinClause[];
   where?: Expression;
   groupBy?: Expression[];
@@ -166,6 +275,11 @@ export interface Query {
   limit?: number;
   offset?: number;
   distinct?: boolean;
+  /**
+   * Applied left to right to this query's rows. `orderBy`, `limit` and
+   * `offset` then apply to the combined result.
+   */
+  setOperations?: SetOperation[];
 }
 
 export interface QueryParameter {
@@ -175,6 +289,14 @@ export interface QueryParameter {
   defaultValue?: string;
 }
 
+/** Opt-in keyset pagination for a computed endpoint */
+export interface Pagination {
+  /** Page size when the request has no `limit` param */
+  defaultLimit?: number;
+  /** Largest `limit` a request may ask for */
+  maxLimit?: number;
+}
+
 // Record types
 export interface ComputedRecord {
   name: string;
@@ -182,6 +304,7 @@ export interface ComputedRecord {
   query: Query;
   outputSchema: OutputField[];
   parameters?: QueryParameter[];
+  pagination?: Pagination;
   cacheTtl?: number;
   createdAt: string;
 }
@@ -244,6 +367,8 @@ export interface DeployedEndpoint {
   name: string;
   kind: "computed" | "function" | "searchIndex" | "subscription";
   ref: ResourceRef;
+  // Filled in by the controller from the computed record when registering
+  parameters?: QueryParameter[];
 }
 
 export interface DeployRecord {